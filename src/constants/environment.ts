@@ -13,19 +13,50 @@ export const ENV_VARS = {
     GITHUB_ACTION_PATH: "GITHUB_ACTION_PATH",
 
     // Junie-specific environment variables
+    CLI_TOKEN: "CLI_TOKEN",
     OVERRIDE_GITHUB_TOKEN: "OVERRIDE_GITHUB_TOKEN",
     DEFAULT_WORKFLOW_TOKEN: "DEFAULT_WORKFLOW_TOKEN",
     JSON_JUNIE_OUTPUT: "JSON_JUNIE_OUTPUT",
     JUNIE_WORKING_DIR: "JUNIE_WORKING_DIR",
     APP_TOKEN: "APP_TOKEN",
+    APP_ID: "APP_ID",
+    APP_PRIVATE_KEY: "APP_PRIVATE_KEY",
+    APP_INSTALLATION_ID: "APP_INSTALLATION_ID",
     TRIGGER_PHRASE: "TRIGGER_PHRASE",
     ASSIGNEE_TRIGGER: "ASSIGNEE_TRIGGER",
     LABEL_TRIGGER: "LABEL_TRIGGER",
     TARGET_BRANCH: "TARGET_BRANCH",
+    BRANCH_NAME_TEMPLATE: "BRANCH_NAME_TEMPLATE",
+    PROTECTED_PATHS: "PROTECTED_PATHS",
+    PROTECTED_PATHS_ALLOW: "PROTECTED_PATHS_ALLOW",
+    PROTECTED_PATHS_ACTION: "PROTECTED_PATHS_ACTION",
+    COMMIT_MESSAGE_FORMAT: "COMMIT_MESSAGE_FORMAT",
     ALLOWED_MCP_SERVERS: "ALLOWED_MCP_SERVERS",
     RESOLVE_CONFLICTS: "RESOLVE_CONFLICTS",
     CREATE_NEW_BRANCH_FOR_PR: "CREATE_NEW_BRANCH_FOR_PR",
     SILENT_MODE: "SILENT_MODE",
+    PATCH_MODE: "PATCH_MODE",
+    SECRET_SCANNING: "SECRET_SCANNING",
+    FIX_FAILING_CHECKS: "FIX_FAILING_CHECKS",
+    MAX_FIX_ATTEMPTS: "MAX_FIX_ATTEMPTS",
+    RESOLVE_REVIEW_THREADS: "RESOLVE_REVIEW_THREADS",
+    REUSE_ISSUE_BRANCH: "REUSE_ISSUE_BRANCH",
+    CLEANUP_STALE_BRANCHES: "CLEANUP_STALE_BRANCHES",
+    STALE_BRANCH_DAYS: "STALE_BRANCH_DAYS",
+    CLEANUP_DRY_RUN: "CLEANUP_DRY_RUN",
+    VERIFICATION_COMMANDS: "VERIFICATION_COMMANDS",
+    VERIFICATION_ON_FAILURE: "VERIFICATION_ON_FAILURE",
+    PR_LABELS: "PR_LABELS",
+    PR_COPY_ISSUE_LABELS: "PR_COPY_ISSUE_LABELS",
+    PR_COPY_MILESTONE: "PR_COPY_MILESTONE",
+    PR_CODEOWNER_REVIEWS: "PR_CODEOWNER_REVIEWS",
+    PR_ASSIGN_ACTOR: "PR_ASSIGN_ACTOR",
+    AUTO_MERGE: "AUTO_MERGE",
+    AUTO_MERGE_METHOD: "AUTO_MERGE_METHOD",
+    AUTO_MERGE_PATHS: "AUTO_MERGE_PATHS",
+    PUSH_CONFLICT_ACTION: "PUSH_CONFLICT_ACTION",
+    MERGE_RESOLVED: "MERGE_RESOLVED",
+    VERIFIED_COMMITS: "VERIFIED_COMMITS",
 
     // Job status and results
     IS_JOB_FAILED: "IS_JOB_FAILED",
@@ -42,6 +73,7 @@ export const ENV_VARS = {
 export const OUTPUT_VARS = {
     // Authentication and tokens
     EJ_AUTH_GITHUB_TOKEN: "EJ_AUTH_GITHUB_TOKEN",
+    IS_APP_INSTALLATION_TOKEN: "IS_APP_INSTALLATION_TOKEN",
     EJ_CLI_TOKEN: "EJ_CLI_TOKEN",
 
     // Task and MCP configuration
@@ -60,21 +92,56 @@ export const OUTPUT_VARS = {
     BASE_BRANCH: "BASE_BRANCH",
     WORKING_BRANCH: "WORKING_BRANCH",
     IS_NEW_BRANCH: "IS_NEW_BRANCH",
+    EXISTING_PR_URL: "EXISTING_PR_URL",
 
     // Comments and feedback
     INIT_COMMENT_ID: "INIT_COMMENT_ID",
 
+    // Number of the current "fix failing checks" attempt
+    FIX_ATTEMPT: "FIX_ATTEMPT",
+
+    // PR head SHA reviewed by the current code review run
+    REVIEWED_SHA: "REVIEWED_SHA",
+
+    // Junie CLI merge task resolving conflicts with commits pushed during the run
+    JUNIE_MERGE_TASK: "JUNIE_MERGE_TASK",
+
     // Action metadata
     ACTION_TO_DO: "ACTION_TO_DO",
+    // Newline separated protected paths whose changes were reverted
+    BLOCKED_PATHS: "BLOCKED_PATHS",
+    // Markdown report of the verification commands
+    VERIFICATION_REPORT: "VERIFICATION_REPORT",
+    // Verification failed, but Junie's changes were pushed
+    VERIFICATION_FAILED: "VERIFICATION_FAILED",
+
+    // Patch mode results
+    PATCH_PATH: "PATCH_PATH",
+    PATCH_MANIFEST_PATH: "PATCH_MANIFEST_PATH",
+    // Newline separated paths changed by Junie
+    CHANGED_FILES: "CHANGED_FILES",
 
     // Junie results
     JUNIE_TITLE: "JUNIE_TITLE",
     JUNIE_SUMMARY: "JUNIE_SUMMARY",
+    // Comma separated IDs of the review threads Junie reported as addressed
+    ADDRESSED_THREAD_IDS: "ADDRESSED_THREAD_IDS",
 
     // Commit and PR information
     COMMIT_MESSAGE: "COMMIT_MESSAGE",
     PR_TITLE: "PR_TITLE",
     PR_BODY: "PR_BODY",
+    PR_DRAFT: "PR_DRAFT",
+    // An open PR for the working branch existed and was updated instead of creating one
+    PR_UPDATED: "PR_UPDATED",
+    // The created or updated PR is a draft
+    PR_IS_DRAFT: "PR_IS_DRAFT",
+    // Merge method auto-merge was enabled with, empty if it wasn't enabled
+    AUTO_MERGE_ENABLED: "AUTO_MERGE_ENABLED",
+    // Why auto-merge enabled by an earlier run was disabled, empty if it wasn't disabled
+    AUTO_MERGE_DISABLED: "AUTO_MERGE_DISABLED",
+    // Newline separated PR settings that could not be applied
+    PR_WARNINGS: "PR_WARNINGS",
 
     // Skip flag
     SHOULD_SKIP: "SHOULD_SKIP",
@@ -16,36 +16,146 @@ export const RESOLVE_CONFLICTS_ACTION = "resolve-conflicts";
 
 export const RESOLVE_CONFLICTS_TRIGGER_PHRASE = "resolve conflicts"
 
-export const RESOLVE_CONFLICTS_TRIGGER_PHRASE_REGEXP = new RegExp(RESOLVE_CONFLICTS_TRIGGER_PHRASE, 'i')
-
 export const CODE_REVIEW_ACTION = "code-review";
 
-export const CODE_REVIEW_TRIGGER_PHRASE_REGEXP = new RegExp(CODE_REVIEW_ACTION, 'i')
+export const ADDRESS_REVIEWS_TRIGGER_PHRASE = "address reviews";
+
+/**
+ * Commands that can follow the trigger phrase, e.g. `@junie-agent /review focus=security`.
+ * Read-only commands never commit or push - Junie only answers with a comment.
+ */
+export const JUNIE_COMMANDS = {
+    review: {
+        description: "Review the pull request changes and post inline comments",
+        readOnly: true,
+    },
+    fix: {
+        description: "Implement a fix for the issue or the pull request",
+        readOnly: false,
+    },
+    explain: {
+        description: "Explain the code or the changes without modifying anything",
+        readOnly: true,
+    },
+    test: {
+        description: "Add or update tests covering the requested change",
+        readOnly: false,
+    },
+    "resolve-conflicts": {
+        description: "Resolve merge conflicts with the base branch",
+        readOnly: false,
+    },
+    "address-reviews": {
+        description: "Address unresolved review threads of the pull request",
+        readOnly: false,
+    },
+} as const;
+
+export type JunieCommandName = keyof typeof JUNIE_COMMANDS;
+
+export const UNKNOWN_COMMAND = "unknown";
+
+// Phrases accepted without a leading slash for backward compatibility
+export const LEGACY_COMMAND_PHRASES: Record<string, JunieCommandName> = {
+    [CODE_REVIEW_ACTION]: "review",
+    [RESOLVE_CONFLICTS_TRIGGER_PHRASE]: "resolve-conflicts",
+    [ADDRESS_REVIEWS_TRIGGER_PHRASE]: "address-reviews",
+};
 
 export const JIRA_EVENT_ACTION = "jira_event";
 
 export const WORKING_BRANCH_PREFIX = "junie/";
 
+// Changes of these paths are kept out of Junie commits unless they are explicitly allowed
+export const DEFAULT_PROTECTED_PATHS = [
+    ".github/workflows/**",
+    "**/CODEOWNERS",
+    "**/package-lock.json",
+    "**/yarn.lock",
+    "**/pnpm-lock.yaml",
+    "**/bun.lock",
+    "**/bun.lockb",
+    "**/Gemfile.lock",
+    "**/poetry.lock",
+    "**/Cargo.lock",
+    "**/go.sum",
+    "**/composer.lock",
+    "**/.env",
+    "**/.env.*",
+    "**/*.pem",
+    "**/*.key",
+];
+
+// Locations GitHub looks for the CODEOWNERS file in, the first one found is used
+export const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+// Placeholders are listed in BRANCH_NAME_PLACEHOLDERS, e.g. "feature/{jiraKey}-{slug}"
+export const DEFAULT_BRANCH_NAME_TEMPLATE = "{prefix}{type}-{number}-{runId}";
+
 export const DEFAULT_TRIGGER_PHRASE = "@junie-agent";
 
+export const DEFAULT_LABEL_TRIGGER = "junie";
+
+// Commit trailer marking commits pushed by the "fix failing checks" mode, used to count consecutive attempts
+export const FIX_ATTEMPT_COMMIT_TRAILER = "Junie-Fix-Attempt";
+
+export const DEFAULT_MAX_FIX_ATTEMPTS = 3;
+
+// Junie branches and PRs without activity for this many days are removed by the scheduled cleanup
+export const DEFAULT_STALE_BRANCH_DAYS = 14;
+
+// Output of each verification command kept for the PR body, feedback comment and repair task
+export const VERIFICATION_OUTPUT_MAX_LENGTH = 3000;
+
+export const VERIFICATION_COMMAND_TIMEOUT_MS = 20 * 60 * 1000;
+
+// Failed checks output is preloaded into the task, so it must leave room for the PR context
+export const FAILED_CHECKS_PROMPT_MAX_LENGTH = 10000;
+
 // ============================================================================
 // Templates and Messages
 // ============================================================================
 
-export function createCodeReviewPrompt(diffPoint: string): string {
-    const diffCommand = `gh pr diff ${diffPoint}`
+/**
+ * Range of commits that were not reviewed yet: from the head reviewed by the previous run to the current head
+ */
+export type ReviewDiffRange = {
+    baseSha: string;
+    headSha: string;
+    // Commits of the PR pushed since baseSha, without merge commits. Empty when there is nothing new to review
+    commits: string[];
+};
+
+export function createCodeReviewPrompt(diffPoint: string, diffRange?: ReviewDiffRange, repositoryCriteria: string[] = []): string {
+    if (diffRange && diffRange.commits.length === 0) {
+        return `
+The Pull Request was already reviewed up to commit ${diffRange.baseSha} and no new commits were pushed since then, merge commits from the base branch are not reviewed.
+Do NOT review the Pull Request again, do NOT post inline comments or submit a review, and do NOT call 'submit'.
+Call the 'answer' tool with "No new commits since ${diffRange.baseSha}." in the 'full_answer' field.
+`
+    }
+    const diffStep = diffRange
+        ? `Get the diff of each newly pushed commit using \`gh api -H "Accept: application/vnd.github.diff" repos/{owner}/{repo}/commits/<sha>\` for these commits: ${diffRange.commits.join(", ")}.`
+        : `Get the Pull Request diff using \`gh pr diff ${diffPoint}\`.`
+    const incrementalNote = diffRange
+        ? `\nThe Pull Request was already reviewed up to commit ${diffRange.baseSha}. These commits are ONLY the ones pushed since then (up to ${diffRange.headSha}), merge commits from the base branch are left out. Do not repeat findings about earlier changes.\n`
+        : ""
+    const repositoryCriteriaSection = repositoryCriteria.length
+        ? `\n### Repository Review Criteria\n${repositoryCriteria.map(criterion => `- ${criterion}`).join("\n")}\n`
+        : ""
     return `
 Your task is to:
-1. Get the Pull Request diff using \`${diffCommand}\`.
+1. ${diffStep}
 2. Review this diff according to the criteria below.
 3. For each specific finding, use the 'post_inline_review_comment' tool (if available) to provide feedback directly on the code.
-4. Once all findings are posted (or if the tool is unavailable), call the 'answer' tool with your review as a bullet point list in the 'full_answer' field.
+4. Once all findings are posted, call the 'submit_review' tool (if available) once to publish them as a single review.
+5. Then (or if the tools are unavailable), call the 'answer' tool with your review as a bullet point list in the 'full_answer' field.
 
 Additional instructions:
 1. Review ONLY the changed lines against the Core Review Areas below, prioritizing repository style/guidelines adherence and avoiding overcomplication.
 2. You may open files or search the project to understand context. Do NOT run tests, build, or make any modifications.
 3. Do NOT call 'submit'.
-
+${incrementalNote}
 ### Core Review Areas
 
 1. **Adherence with this repository style and guidelines**
@@ -62,7 +172,7 @@ Additional instructions:
 - Security: newly introduced unsafe input handling, command execution, or data exposure.
 - Performance: unnecessary allocations/loops/heavy work on UI thread introduced by the change.
 - Error handling: swallowing exceptions or deviating from existing error-handling patterns.
-
+${repositoryCriteriaSection}
 ### Output Format
 - If the 'post_inline_review_comment' tool is available, use it for each specific finding.
 - **Use the tool parameters correctly**:
@@ -70,7 +180,10 @@ Additional instructions:
     - \`lineNumber\`: The line (or end of range) where the comment applies.
     - \`startLineNumber\`: Use this for multi-line comments to cover a range.
     - \`commentBody\`: Your explanation. Use the \`\`\`suggestion syntax here for code changes.
-- Once all inline comments are posted, call the 'answer' tool with your review as a bullet point list in the 'full_answer' field.
+- Inline comments stay pending until you call 'submit_review' with:
+    - \`event\`: \`REQUEST_CHANGES\` if any finding must be fixed before merging, \`APPROVE\` if no feedback is warranted, \`COMMENT\` otherwise.
+    - \`body\`: A short summary of the review.
+- Once the review is submitted, call the 'answer' tool with your review as a bullet point list in the 'full_answer' field.
 - If the tool is NOT available, use the fallback format in 'full_answer' only: -\`File.ts:Line: Comment\`.
 - Comment ONLY on lines added in this diff (\`+\` lines). Do not comment on pre-existing code.
 - Keep it concise (15–25 words per comment). No praise, questions, or speculation; omit low-impact nits.
@@ -79,6 +192,53 @@ Additional instructions:
 `;
 }
 
+// Line of the Junie answer listing the review threads it addressed
+export const ADDRESSED_THREADS_PREFIX = "Addressed review threads:";
+
+export function createAddressReviewsPrompt(additionalInstructions?: string): string {
+    return `
+Your task is to address the unresolved review threads of this Pull Request.
+
+1. Find the review comments marked as \`unresolved\` in the <reviews> section. Skip \`resolved\` threads.
+2. For each unresolved thread, make the requested change in the code. If a comment is unclear or you disagree with it, leave the code as is and explain why in your answer.
+3. Keep the changes minimal and focused on the review comments.
+${additionalInstructions ? `\nAdditional instructions:\n${additionalInstructions}\n` : ""}
+In the 'full_answer' field, summarize what was changed for each thread and finish with a single line listing the IDs of the threads you addressed:
+${ADDRESSED_THREADS_PREFIX} <thread id>, <thread id>
+`;
+}
+
+export function createFixFailingChecksPrompt(failedChecksOutput: string, additionalInstructions?: string): string {
+    return `
+Your task is to fix the failing CI checks of this Pull Request.
+
+1. Analyze the failed checks output below and find the root cause of each failure.
+2. Fix the code (or the tests, if the tests themselves are wrong) with minimal, focused changes.
+3. Do NOT disable, skip or delete failing tests and do NOT weaken CI configuration to make checks pass.
+4. If a failure is unrelated to the changes in this Pull Request (e.g. flaky infrastructure), do not change anything and explain why in your answer.
+${additionalInstructions ? `\n### Additional instructions\n${additionalInstructions}\n` : ""}
+### Failed checks
+<failed_checks>
+${failedChecksOutput}
+</failed_checks>
+`;
+}
+
+export function createVerificationRepairPrompt(failedCommandsOutput: string): string {
+    return `
+Your previous changes in this repository fail the verification commands below. Fix the problems so that all commands pass.
+
+1. Analyze the output of each failed command and find the root cause.
+2. Fix the code (or the tests, if the tests themselves are wrong) with minimal, focused changes.
+3. Do NOT disable, skip or delete failing tests and do NOT change the verification commands or their configuration.
+
+### Failed verification commands
+<failed_commands>
+${failedCommandsOutput}
+</failed_commands>
+`;
+}
+
 /**
  * Creates a hidden marker for identifying Junie comments from a specific workflow.
  * This HTML comment is invisible to users but allows finding Junie comments
@@ -96,20 +256,91 @@ export function createJunieCommentMarker(workflowName: string): string {
     return `<!-- junie-bot-comment:${sanitized} -->`;
 }
 
+/**
+ * Creates a hidden marker storing the PR head commit reviewed by Junie.
+ * The next review run reads it to review only the commits pushed since then.
+ *
+ * @param sha - Head commit SHA of the reviewed Pull Request
+ * @returns HTML comment marker with the reviewed SHA
+ */
+export function createReviewedShaMarker(sha: string): string {
+    return `<!-- junie-reviewed-sha:${sha} -->`;
+}
+
+export const REVIEWED_SHA_MARKER_REGEXP = /<!-- junie-reviewed-sha:([0-9a-f]{7,40}) -->/;
+
+/**
+ * Creates a hidden marker linking the PR created by Junie to the issue it was created for.
+ * Later runs for the same issue use it to continue on the branch of this PR.
+ *
+ * @param issueNumber - Number of the issue Junie works on
+ * @returns HTML comment marker with the issue number
+ */
+export function createIssuePullRequestMarker(issueNumber: number): string {
+    return `<!-- junie-issue:${issueNumber} -->`;
+}
+
+/**
+ * Creates a hidden marker of the comment telling that Junie stopped fixing the failing checks.
+ * Every workflow run failing for the same head commit checks for it, so the comment is posted once.
+ *
+ * @param headSha - PR head commit the fix attempts ran out for
+ * @returns HTML comment marker with the head SHA
+ */
+export function createFixAttemptsExhaustedMarker(headSha: string): string {
+    return `<!-- junie-fix-attempts-exhausted:${headSha} -->`;
+}
+
 export const INIT_COMMENT_BODY = "Hey, it's Junie by JetBrains! I started working..."
 
+// Junie's progress updates edit the working comment at most once per interval
+export const PROGRESS_UPDATE_INTERVAL_SECONDS = 15
+
+export const PROGRESS_COMMENT_SECTION_TEMPLATE = (status: string, updatedAt: string) => `### Progress
+
+${status}
+
+<sub>Updated at ${updatedAt}</sub>`
+
+export const UNKNOWN_COMMAND_COMMENT_TEMPLATE = (commandName: string, triggerPhrase: string) => `Junie doesn't know the \`/${commandName}\` command.
+
+Available commands:
+${Object.entries(JUNIE_COMMANDS)
+    .map(([name, {description}]) => `- \`${triggerPhrase} /${name}\` - ${description}`)
+    .join("\n")}
+
+Arguments can follow the command as \`key=value\` pairs, e.g. \`${triggerPhrase} /review focus=security\`.`
+
+export const FIX_ATTEMPTS_EXHAUSTED_COMMENT_TEMPLATE = (maxAttempts: number) => `Junie has already pushed ${maxAttempts} consecutive fix attempt(s) for the failing checks of this PR and will not try again.
+
+Please take a look at the failures. Junie will resume once a new commit that is not a fix attempt is pushed to the branch.`
+
+export const STALE_PR_CLOSED_COMMENT_TEMPLATE = (staleDays: number) => `Junie closed this PR because it had no activity for ${staleDays} day(s), and deleted its branch.
+
+Restore the branch and reopen the PR to continue, or ask Junie again on the original issue.`
+
+export const ADDRESSED_REVIEW_THREAD_REPLY_TEMPLATE = (commitSHA: string) => `Addressed in ${commitSHA} by Junie.`
+
+export const AUTO_SUBMITTED_REVIEW_BODY = "Junie finished the review without submitting it, so the pending inline comments were published automatically."
+
 export const PR_BODY_TEMPLATE = (junieBody: string, issueId?: number) => `
  ## 📌 Hey! This PR was made for you with Junie, the coding agent by JetBrains **Early Access Preview**
 
 It's still learning, developing, and might make mistakes. Please make sure you review the changes before you accept them.
 We'd love your feedback — join our Discord to share bugs, ideas: [here](https://jb.gg/junie/github).
 
-${issueId ? `- 🔗 **Issue:** Fixes: #${issueId}` : ""}
+${issueId ? `- 🔗 **Issue:** Fixes: #${issueId}\n${createIssuePullRequestMarker(issueId)}` : ""}
 
 ### 📊 Junie Summary:
 ${junieBody}
 `
 
+// Appended to the body of an open PR that a new run of Junie updated instead of opening another one
+export const PR_LATEST_RUN_SECTION_TEMPLATE = (jobRunLink: string, date: string) => `
+### 🔄 Latest Junie run
+This PR was updated by the Junie run on ${date}: ${jobRunLink}
+`
+
 export const PR_TITLE_TEMPLATE = (junieTitle: string) =>
     `[Junie]: ${junieTitle}`
 
@@ -135,4 +366,18 @@ export const MANUALLY_PR_CREATE_FEEDBACK_COMMENT_TEMPLATE = (createPRLink: strin
 
 export const COMMIT_PUSHED_FEEDBACK_COMMENT_TEMPLATE = (commitSHA: string, junieTitle: string, junieBody: string) => `${SUCCESS_FEEDBACK_COMMENT}\n\n ${junieTitle}\n${junieBody} Commit sha: ${commitSHA}`
 
+export const PROTECTED_PATHS_REVERTED_FEEDBACK_COMMENT_TEMPLATE = (paths: string[]) => `\n\n⚠️ Changes of protected paths were reverted and not committed:\n${paths.map(path => `- \`${path}\``).join("\n")}`
+
+export const PR_SETTINGS_FAILED_FEEDBACK_COMMENT_TEMPLATE = (warnings: string[]) => `\n\n⚠️ Some settings of the PR could not be applied:\n${warnings.map(warning => `- ${warning}`).join("\n")}`
+
+export const AUTO_MERGE_ENABLED_FEEDBACK_COMMENT_TEMPLATE = (mergeMethod: string) => `\n\n🔀 Auto-merge (${mergeMethod}) is enabled: the PR will be merged once the required reviews and checks pass.`
+
+export const AUTO_MERGE_DISABLED_FEEDBACK_COMMENT_TEMPLATE = (reason: string) => `\n\n⚠️ Auto-merge was disabled for the PR: ${reason}.`
+
+export const VERIFICATION_FAILED_PR_STATE_FEEDBACK_COMMENT_TEMPLATE = (draft: boolean, updated: boolean) => draft
+    ? `\n\nThe PR ${updated ? "is a draft" : "was opened as a draft"} because verification failed.`
+    : `\n\n⚠️ The existing PR is ready for review and can't be turned into a draft, check the verification failures before merging.`
+
+export const EXISTING_PR_UPDATED_FEEDBACK_COMMENT_TEMPLATE = (prLink: string) => `\n\nThe changes were added to the existing PR: [${prLink}](${prLink})`
+
 export const SUCCESS_FEEDBACK_COMMENT_WITH_RESULT = (junieTitle: string, junieBody: string) => `${SUCCESS_FEEDBACK_COMMENT}\n\nResult: ${junieTitle} \n ${junieBody}`
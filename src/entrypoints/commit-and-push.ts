@@ -0,0 +1,35 @@
+#!/usr/bin/env bun
+
+import * as core from "@actions/core";
+import {JunieExecutionContext} from "../github/context";
+import {ENV_VARS, OUTPUT_VARS} from "../constants/environment";
+import {buildGitHubApiClient} from "../github/api/client";
+import {createVerifiedCommit} from "../github/operations/verified-commit";
+import {handleStepError} from "../utils/error-handler";
+
+export async function commitAndPushChanges() {
+    try {
+        const context = JSON.parse(process.env[OUTPUT_VARS.PARSED_CONTEXT]!) as JunieExecutionContext;
+        const octokits = buildGitHubApiClient(process.env[ENV_VARS.GITHUB_TOKEN]!);
+
+        const commit = await createVerifiedCommit(octokits, {
+            owner: context.payload.repository.owner.login,
+            repo: context.payload.repository.name,
+            workingBranch: process.env[OUTPUT_VARS.WORKING_BRANCH]!,
+            baseBranch: process.env[OUTPUT_VARS.BASE_BRANCH]!,
+            isNewBranch: process.env[OUTPUT_VARS.IS_NEW_BRANCH] === "true",
+            message: process.env[OUTPUT_VARS.COMMIT_MESSAGE]!,
+        });
+
+        if (commit) {
+            core.setOutput("commit_long_sha", commit.sha);
+        }
+    } catch (error) {
+        handleStepError("Commit and push step", error);
+    }
+}
+
+// @ts-ignore
+if (import.meta.main) {
+    commitAndPushChanges();
+}
@@ -1,10 +1,12 @@
 #!/usr/bin/env bun
 
 import * as core from "@actions/core";
-import { Octokit } from "@octokit/rest";
 import { JunieExecutionContext } from "../github/context";
 import { ENV_VARS, OUTPUT_VARS } from "../constants/environment";
 import { handleStepError } from "../utils/error-handler";
+import { createJuniePullRequest } from "../github/operations/pull-request";
+import { syncAutoMerge } from "./update-auto-merge";
+import { buildGitHubApiClient } from "../github/api/client";
 
 export async function createPullRequest() {
     try {
@@ -14,25 +16,54 @@ export async function createPullRequest() {
         const prBody = process.env[OUTPUT_VARS.PR_BODY]!;
         const baseBranch = process.env[OUTPUT_VARS.BASE_BRANCH]!;
         const headBranch = process.env[OUTPUT_VARS.WORKING_BRANCH]!;
+        const draft = process.env[OUTPUT_VARS.PR_DRAFT] === "true";
 
         console.log(`Creating PR from ${headBranch} to ${baseBranch}`);
         console.log(`PR Title: ${prTitle}`);
 
-        const octokit = new Octokit({
-            auth: githubToken,
-        });
+        const octokits = buildGitHubApiClient(githubToken);
+        const owner = context.payload.repository.owner.login;
+        const repo = context.payload.repository.name;
 
-        const { data: pr } = await octokit.rest.pulls.create({
-            owner: context.payload.repository.owner.login,
-            repo: context.payload.repository.name,
+        const config = context.inputs.config.pullRequest;
+        const pr = await createJuniePullRequest(octokits.rest, context, {
+            owner,
+            repo,
             title: prTitle,
             body: prBody,
             head: headBranch,
             base: baseBranch,
-        });
+            // Failed verification opens a draft even when drafts are not configured
+            draft: config.draft || draft,
+        }, config);
 
-        console.log(`Successfully created PR #${pr.number}: ${pr.html_url}`);
-        core.setOutput("pull-request-url", pr.html_url);
+        core.setOutput("pull-request-url", pr.url);
+        if (pr.updated) {
+            core.setOutput(OUTPUT_VARS.PR_UPDATED, "true");
+        }
+        core.setOutput(OUTPUT_VARS.PR_IS_DRAFT, String(pr.draft));
+        // Auto-merge of PRs opened by someone else is left to their author
+        if (config.autoMerge.enabled && pr.authorId === context.tokenOwner.id) {
+            try {
+                await syncAutoMerge(octokits, {
+                    owner,
+                    repo,
+                    pullNumber: pr.number,
+                    pullRequestId: pr.nodeId,
+                    draft: pr.draft,
+                    autoMergeEnabled: pr.autoMerge,
+                    verificationFailed: process.env[OUTPUT_VARS.VERIFICATION_FAILED] === "true",
+                }, config.autoMerge);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.warn('Failed to update auto-merge:', message);
+                pr.warnings.push(`Failed to update auto-merge: ${message.split("\n")[0]}`);
+            }
+        }
+        if (pr.warnings.length > 0) {
+            pr.warnings.forEach(warning => core.warning(warning));
+            core.setOutput(OUTPUT_VARS.PR_WARNINGS, pr.warnings.join("\n"));
+        }
     } catch (error) {
         handleStepError("Create PR step", error);
     }
@@ -4,10 +4,15 @@ import {JunieExecutionContext} from "../github/context";
 import {ActionType} from "./handle-results";
 import {ENV_VARS, OUTPUT_VARS} from "../constants/environment";
 import {formatJunieSummary} from "./format-summary";
-import {appendFileSync} from "fs";
+import {appendFileSync, existsSync, readFileSync} from "fs";
+import {join} from "path";
 import {buildGitHubApiClient} from "../github/api/client";
 import {handleStepError} from "../utils/error-handler";
 import {parseArgs} from "util";
+import {CREATED_PENDING_REVIEW_FILE_NAME, submitLeftoverPendingReview} from "../github/operations/pending-review";
+import {AUTO_SUBMITTED_REVIEW_BODY} from "../constants/github";
+import {replyToAddressedThreads} from "../github/operations/review-threads";
+import {revokeInstallationToken} from "../github/operations/app-token";
 
 /**
  * Writes feedback comment to GitHub issue/PR if initCommentId is available
@@ -29,7 +34,16 @@ async function writeFeedbackComment(isJobFailed: boolean, initCommentId?: string
             junieSummary: process.env[OUTPUT_VARS.JUNIE_SUMMARY],
             junieTitle: process.env[OUTPUT_VARS.JUNIE_TITLE],
             prLink: process.env[ENV_VARS.PR_LINK],
-            workingBranch: process.env[OUTPUT_VARS.WORKING_BRANCH]
+            workingBranch: process.env[OUTPUT_VARS.WORKING_BRANCH],
+            reviewedSha: process.env[OUTPUT_VARS.REVIEWED_SHA] || undefined,
+            blockedPaths: process.env[OUTPUT_VARS.BLOCKED_PATHS]?.split("\n").filter(Boolean),
+            verificationReport: process.env[OUTPUT_VARS.VERIFICATION_REPORT] || undefined,
+            prWarnings: process.env[OUTPUT_VARS.PR_WARNINGS]?.split("\n").filter(Boolean),
+            prUpdated: process.env[OUTPUT_VARS.PR_UPDATED] === "true",
+            prDraft: process.env[OUTPUT_VARS.PR_IS_DRAFT] === "true",
+            verificationFailed: process.env[OUTPUT_VARS.VERIFICATION_FAILED] === "true",
+            autoMergeMethod: process.env[OUTPUT_VARS.AUTO_MERGE_ENABLED] || undefined,
+            autoMergeDisabledReason: process.env[OUTPUT_VARS.AUTO_MERGE_DISABLED] || undefined,
         }
     }
 
@@ -37,6 +51,53 @@ async function writeFeedbackComment(isJobFailed: boolean, initCommentId?: string
     await postJunieCompletionComment(octokits.rest, data)
 }
 
+/**
+ * Submits inline review comments left pending when Junie didn't call `submit_review`,
+ * e.g. because it ran out of time or failed after posting the findings
+ */
+async function submitPendingReview(): Promise<void> {
+    const parsedContext = JSON.parse(process.env[OUTPUT_VARS.PARSED_CONTEXT]!) as JunieExecutionContext;
+    // Written by the inline comment MCP server only when it created a pending review in this run
+    const createdReviewFile = join(parsedContext.inputs.junieWorkingDir, CREATED_PENDING_REVIEW_FILE_NAME);
+    if (!parsedContext.isPR || !parsedContext.entityNumber || !existsSync(createdReviewFile)) {
+        return;
+    }
+
+    const octokits = buildGitHubApiClient(process.env[ENV_VARS.GITHUB_TOKEN]!);
+    const reviewUrl = await submitLeftoverPendingReview(octokits.rest, {
+        owner: parsedContext.payload.repository.owner.login,
+        repo: parsedContext.payload.repository.name,
+        prNumber: parsedContext.entityNumber,
+    }, readFileSync(createdReviewFile, "utf-8").trim(), AUTO_SUBMITTED_REVIEW_BODY);
+
+    if (reviewUrl) {
+        console.log(`✓ Submitted pending review: ${reviewUrl}`);
+    }
+}
+
+/**
+ * Replies in the review threads addressed by the "address reviews" command with the pushed commit
+ */
+async function replyToAddressedReviewThreads(): Promise<void> {
+    const parsedContext = JSON.parse(process.env[OUTPUT_VARS.PARSED_CONTEXT]!) as JunieExecutionContext;
+    const actionToDo = process.env[OUTPUT_VARS.ACTION_TO_DO];
+    const commitSHA = process.env[ENV_VARS.COMMIT_SHA];
+    if (parsedContext.command?.name !== "address-reviews" || !parsedContext.isPR || !parsedContext.entityNumber || !commitSHA) {
+        return;
+    }
+    if (actionToDo !== ActionType.COMMIT_CHANGES && actionToDo !== ActionType.PUSH) {
+        console.log(`Changes were not pushed to the PR branch (action: ${actionToDo}), skipping review thread replies`);
+        return;
+    }
+
+    const octokits = buildGitHubApiClient(process.env[ENV_VARS.GITHUB_TOKEN]!);
+    await replyToAddressedThreads(octokits.rest, {
+        owner: parsedContext.payload.repository.owner.login,
+        repo: parsedContext.payload.repository.name,
+        prNumber: parsedContext.entityNumber,
+    }, process.env[OUTPUT_VARS.ADDRESSED_THREAD_IDS]?.split(",").filter(Boolean) ?? [], commitSHA, parsedContext.inputs.resolveReviewThreads);
+}
+
 /**
  * Generates GitHub Actions Job Summary with Junie execution results
  */
@@ -99,11 +160,43 @@ async function generateJobSummary(isJobFailed: boolean): Promise<void> {
     console.log("✓ Successfully generated Junie summary");
 }
 
+/**
+ * Revokes the GitHub App installation token minted in the prepare step, it is not needed after the feedback
+ */
+async function revokeAppInstallationToken(): Promise<void> {
+    if (process.env[OUTPUT_VARS.IS_APP_INSTALLATION_TOKEN] !== "true") {
+        return;
+    }
+
+    try {
+        await revokeInstallationToken(process.env[ENV_VARS.GITHUB_TOKEN]!);
+        console.log("✓ Revoked GitHub App installation token");
+    } catch (revokeError) {
+        // The token expires after an hour anyway
+        console.warn("Failed to revoke GitHub App installation token:", revokeError);
+    }
+}
+
 export async function giveFeedback() {
     try {
         const isJobFailed = process.env[ENV_VARS.IS_JOB_FAILED] === "true";
         const initCommentId = process.env[OUTPUT_VARS.INIT_COMMENT_ID];
 
+        try {
+            await submitPendingReview();
+        } catch (reviewError) {
+            console.warn("Failed to submit pending review:", reviewError);
+            // Don't fail the whole step, the review stays pending and can be submitted manually
+        }
+
+        if (!isJobFailed) {
+            try {
+                await replyToAddressedReviewThreads();
+            } catch (threadsError) {
+                console.warn("Failed to reply to addressed review threads:", threadsError);
+            }
+        }
+
         await writeFeedbackComment(isJobFailed, initCommentId);
 
         // Generate GitHub Actions Job Summary (always)
@@ -113,7 +206,10 @@ export async function giveFeedback() {
             console.error("Failed to generate job summary:", summaryError);
             // Don't fail the whole step if summary generation fails
         }
+
+        await revokeAppInstallationToken();
     } catch (error) {
+        await revokeAppInstallationToken();
         handleStepError("Give feedback step", error);
     }
 }
@@ -1,11 +1,18 @@
-import {COMMIT_MESSAGE_TEMPLATE, PR_BODY_TEMPLATE, PR_TITLE_TEMPLATE} from "../constants/github";
-import {JunieExecutionContext, isTriggeredByUserInteraction, isJiraWorkflowDispatchEvent} from "../github/context";
+import {PR_BODY_TEMPLATE, PR_TITLE_TEMPLATE} from "../constants/github";
+import {JunieExecutionContext, isTriggeredByUserInteraction, isJiraWorkflowDispatchEvent, isDiscussionRelatedEvent} from "../github/context";
 import {execSync} from 'child_process';
 import * as core from "@actions/core";
 import {ENV_VARS, OUTPUT_VARS} from "../constants/environment";
 import {handleStepError} from "../utils/error-handler";
-import {isReviewOrCommentHasResolveConflictsTrigger} from "../github/validation/trigger";
+import {hasJunieCommand, isReadOnlyJunieCommand} from "../github/validation/trigger";
 import {sanitizeJunieOutput} from "../utils/sanitizer";
+import {addFixAttemptTrailer} from "../github/operations/fix-checks";
+import {guardCommittedProtectedPaths, guardProtectedPaths} from "../github/operations/protected-paths";
+import {buildCommitMessage} from "../github/operations/commit-message";
+import {formatVerificationReport, VerificationResult, verifyJunieChanges} from "../github/operations/verification";
+import {resolvePatchBase, writeChangesPatch} from "../github/operations/patch";
+import {createSecretsFoundError, scanStagedChangesForSecrets} from "../github/operations/secret-scan";
+import {extractAddressedThreadIds, removeAddressedThreadsLine} from "../github/operations/review-threads";
 import { parseArgs } from "util";
 
 export enum ActionType {
@@ -53,7 +60,7 @@ export async function handleResults() {
             junieJsonOutput = await file.json();
         }
         const context = JSON.parse(process.env[OUTPUT_VARS.PARSED_CONTEXT]!) as JunieExecutionContext
-        const isResolveConflict = context.inputs.resolveConflicts || isReviewOrCommentHasResolveConflictsTrigger(context)
+        const isResolveConflict = context.inputs.resolveConflicts || hasJunieCommand(context, "resolve-conflicts")
         const junieErrors = junieJsonOutput.errors
         if (junieErrors && (junieErrors as string[]).length > 0) {
             const errorList = (junieErrors as string[]).map(err => `  • ${err}`).join('\n');
@@ -73,18 +80,30 @@ export async function handleResults() {
                 `Please check the Junie execution logs for details.`
             );
         }
-        const actionToDo = await getActionToDo(context);
+        const {actionToDo, verificationReport} = await getActionToDo(context);
         // Sanitize Junie's output to prevent token leakage and self-triggering
         const rawTitle = junieJsonOutput.taskName || (isResolveConflict ? `Resolve conflicts for ${context.entityNumber} PR` : 'Junie finished task successfully')
         const rawBody = junieJsonOutput.result
         const triggerPhrase = context.inputs.triggerPhrase
         const title = sanitizeJunieOutput(rawTitle, triggerPhrase)
-        const body = sanitizeJunieOutput(rawBody, triggerPhrase)
+        const summary = sanitizeJunieOutput(rawBody, triggerPhrase)
+        // The addressed threads line is only read by the feedback step, it doesn't belong in the comment or the PR body
+        const addressedThreadIds = extractAddressedThreadIds(summary)
+        if (addressedThreadIds.length > 0) {
+            core.setOutput(OUTPUT_VARS.ADDRESSED_THREAD_IDS, addressedThreadIds.join(","))
+        }
+        const body = removeAddressedThreadsLine(summary)
         let issueId
         if (isTriggeredByUserInteraction(context)) {
             issueId = context.entityNumber
         }
-        const commitMessage = COMMIT_MESSAGE_TEMPLATE(title, issueId)
+        // Unless commits are verified, the commit step uses the actor as the author
+        const authoredByActor = process.env[ENV_VARS.VERIFIED_COMMITS] !== "true"
+        let commitMessage = buildCommitMessage(context, title, issueId, authoredByActor)
+        const fixAttempt = process.env[OUTPUT_VARS.FIX_ATTEMPT]
+        if (fixAttempt) {
+            commitMessage = addFixAttemptTrailer(commitMessage, +fixAttempt)
+        }
 
         // Export outputs based on action type
         switch (actionToDo) {
@@ -94,7 +113,7 @@ export async function handleResults() {
                     body,
                     commitMessage,
                     PR_TITLE_TEMPLATE(title),
-                    PR_BODY_TEMPLATE(body, issueId));
+                    PR_BODY_TEMPLATE(body, issueId) + (verificationReport ? `\n${verificationReport}\n` : ""));
                 break;
             case ActionType.COMMIT_CHANGES:
             case ActionType.PUSH:
@@ -110,16 +129,52 @@ export async function handleResults() {
     }
 }
 
-async function getActionToDo(context: JunieExecutionContext): Promise<ActionType> {
+type ActionDecision = {
+    actionToDo: ActionType;
+    // Markdown report of the verification commands, if any were run
+    verificationReport?: string;
+};
+
+async function getActionToDo(context: JunieExecutionContext): Promise<ActionDecision> {
     if (context.inputs.silentMode) {
         console.log('Silent mode enabled - no git operations will be performed');
-        return ActionType.NOTHING;
+        return {actionToDo: ActionType.NOTHING};
+    }
+    if (isReadOnlyJunieCommand(context)) {
+        console.log(`Read-only command /${context.command!.name} - no git operations will be performed`);
+        return {actionToDo: setActionToDo(process.env[OUTPUT_VARS.INIT_COMMENT_ID] ? ActionType.WRITE_COMMENT : ActionType.NOTHING)};
+    }
+    if (isDiscussionRelatedEvent(context)) {
+        console.log('Discussion event - Junie only replies in the discussion, no git operations will be performed');
+        return {actionToDo: setActionToDo(process.env[OUTPUT_VARS.INIT_COMMENT_ID] ? ActionType.WRITE_COMMENT : ActionType.NOTHING)};
     }
     const isNewBranch = process.env[OUTPUT_VARS.IS_NEW_BRANCH] === 'true';
     const workingBranch = process.env[OUTPUT_VARS.WORKING_BRANCH]!;
     const baseBranch = process.env[OUTPUT_VARS.BASE_BRANCH]!;
-    const hasChangedFiles = await checkForChangedFiles();
-    const hasUnpushedCommits = await checkForUnpushedCommits(isNewBranch, baseBranch);
+    const blockedPaths = new Set<string>();
+    let hasChangedFiles = await checkForGuardedChanges(context, blockedPaths);
+    let hasUnpushedCommits = await checkForGuardedCommits(context, isNewBranch, baseBranch);
+
+    const verification = context.inputs.config.verification;
+    let verificationResult: VerificationResult | undefined;
+    if ((hasChangedFiles || hasUnpushedCommits) && verification.commands.length > 0) {
+        verificationResult = await verifyJunieChanges(verification, async () => {
+            // Junie's repair run may have touched protected paths again
+            hasChangedFiles = await checkForGuardedChanges(context, blockedPaths);
+            hasUnpushedCommits = await checkForGuardedCommits(context, isNewBranch, baseBranch);
+        });
+    }
+    const patchMode = context.inputs.patchMode;
+    const skipPush = !patchMode && verificationResult?.passed === false && verification.onFailure === "skip-push";
+    if (skipPush) {
+        console.log('Verification failed - Junie\'s changes will not be pushed');
+        hasChangedFiles = false;
+        hasUnpushedCommits = false;
+    }
+    // Also covers patch mode, the patch is uploaded as an artifact
+    if ((hasChangedFiles || hasUnpushedCommits) && context.inputs.secretScanning) {
+        await checkForSecrets(context, isNewBranch, baseBranch);
+    }
     const isExternalIntegration = isJiraWorkflowDispatchEvent(context)
     const initCommentId = process.env[OUTPUT_VARS.INIT_COMMENT_ID];
 
@@ -131,7 +186,13 @@ async function getActionToDo(context: JunieExecutionContext): Promise<ActionType
     console.log(`Working branch: ${workingBranch}`);
 
     let action: ActionType
-    if ((hasChangedFiles || hasUnpushedCommits) && isNewBranch) {
+    if (patchMode) {
+        console.log('Patch mode enabled - Junie\'s changes will be written to a patch file instead of being pushed');
+        if (hasChangedFiles || hasUnpushedCommits) {
+            await exportChangesPatch(context, isNewBranch, baseBranch);
+        }
+        action = initCommentId || isExternalIntegration ? ActionType.WRITE_COMMENT : ActionType.NOTHING;
+    } else if ((hasChangedFiles || hasUnpushedCommits) && isNewBranch) {
         console.log('Changes or unpushed commits found in new branch - will create PR');
         action = ActionType.CREATE_PR;
     } else if (hasChangedFiles && !isNewBranch) {
@@ -148,6 +209,86 @@ async function getActionToDo(context: JunieExecutionContext): Promise<ActionType
         action = ActionType.NOTHING;
     }
 
+    let verificationReport: string | undefined;
+    if (verificationResult) {
+        const openAsDraft = !verificationResult.passed && action === ActionType.CREATE_PR;
+        if (openAsDraft) {
+            core.setOutput(OUTPUT_VARS.PR_DRAFT, 'true');
+        }
+        if (!verificationResult.passed && !skipPush) {
+            // Turns off auto-merge of the PR the changes are pushed to
+            core.setOutput(OUTPUT_VARS.VERIFICATION_FAILED, 'true');
+        }
+        // Whether the PR is a draft is only known once it was created, the feedback comment tells it
+        const outcome = skipPush ? "Junie's changes were not pushed." : undefined;
+        verificationReport = sanitizeJunieOutput(formatVerificationReport(verificationResult, outcome), context.inputs.triggerPhrase);
+        core.setOutput(OUTPUT_VARS.VERIFICATION_REPORT, verificationReport);
+    }
+
+    return {actionToDo: setActionToDo(action), verificationReport};
+}
+
+/**
+ * Checks for changed files after reverting changes of protected paths
+ *
+ * @param blockedPaths - Collects the reverted paths across checks
+ */
+async function checkForGuardedChanges(context: JunieExecutionContext, blockedPaths: Set<string>): Promise<boolean> {
+    const hasChangedFiles = await checkForChangedFiles();
+    if (!hasChangedFiles) {
+        return false;
+    }
+    const revertedPaths = guardProtectedPaths(context.inputs.config.protectedPaths);
+    if (revertedPaths.length === 0) {
+        return true;
+    }
+    revertedPaths.forEach(path => blockedPaths.add(path));
+    core.setOutput(OUTPUT_VARS.BLOCKED_PATHS, [...blockedPaths].join("\n"));
+    return await checkForChangedFiles();
+}
+
+/**
+ * Checks for unpushed commits and fails if Junie committed changes of protected paths itself
+ */
+async function checkForGuardedCommits(context: JunieExecutionContext, isNewBranch: boolean, baseBranch: string): Promise<boolean> {
+    const hasUnpushedCommits = await checkForUnpushedCommits(isNewBranch, baseBranch);
+    if (hasUnpushedCommits) {
+        guardCommittedProtectedPaths(context.inputs.config.protectedPaths, await resolvePatchBase(isNewBranch, baseBranch));
+    }
+    return hasUnpushedCommits;
+}
+
+/**
+ * Fails the step before anything is committed if Junie's changes contain secrets
+ *
+ * @throws {Error} with the file and line of each finding, never the secret itself
+ */
+async function checkForSecrets(context: JunieExecutionContext, isNewBranch: boolean, baseBranch: string): Promise<void> {
+    console.log('Scanning Junie\'s changes for secrets...');
+    const base = await resolvePatchBase(isNewBranch, baseBranch);
+    const knownSecrets = [context.inputs.appToken, process.env[ENV_VARS.CLI_TOKEN] ?? ""];
+    const findings = scanStagedChangesForSecrets(base, knownSecrets);
+    if (findings.length > 0) {
+        throw createSecretsFoundError(findings);
+    }
+    console.log('✓ No secrets found');
+}
+
+/**
+ * Writes Junie's changes to a patch file and a JSON manifest in the Junie working directory
+ */
+async function exportChangesPatch(context: JunieExecutionContext, isNewBranch: boolean, baseBranch: string): Promise<void> {
+    const base = await resolvePatchBase(isNewBranch, baseBranch);
+    const patch = await writeChangesPatch(base, context.inputs.junieWorkingDir);
+    if (!patch) {
+        return;
+    }
+    core.setOutput(OUTPUT_VARS.PATCH_PATH, patch.patchPath);
+    core.setOutput(OUTPUT_VARS.PATCH_MANIFEST_PATH, patch.manifestPath);
+    core.setOutput(OUTPUT_VARS.CHANGED_FILES, patch.manifest.files.map(file => file.path).join("\n"));
+}
+
+function setActionToDo(action: ActionType): ActionType {
     console.log("Action to do:", action);
     core.setOutput(OUTPUT_VARS.ACTION_TO_DO, action);
     return action;
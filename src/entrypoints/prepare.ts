@@ -6,19 +6,39 @@ import {extractJunieWorkflowContext} from "../github/context";
 import {fetchGitHubTokenOwnerDetails} from "../github/operations/auth";
 import {handleStepError} from "../utils/error-handler";
 import {initializeJunieExecution} from "../github/junie/prepare-junie";
+import {loadRepositoryJunieConfig} from "../github/config/loader";
+import {revokeInstallationToken} from "../github/operations/app-token";
 
 async function run() {
     try {
         const tokenConfig = await acquireGitHubAuthentication();
         const octokit = buildGitHubApiClient(tokenConfig.workingToken);
         const tokenOwner = await fetchGitHubTokenOwnerDetails(octokit, tokenConfig);
-        const context = extractJunieWorkflowContext(tokenOwner);
+        // Without a valid config file the triggers of the action inputs decide whether the event is handled
+        let configError: unknown;
+        const configFile = await loadRepositoryJunieConfig(octokit).catch(error => {
+            configError = error;
+            return undefined;
+        });
+        const context = extractJunieWorkflowContext(tokenOwner, configFile);
 
-        await initializeJunieExecution({
+        const handled = await initializeJunieExecution({
             context,
             octokit,
-            tokenConfig
+            tokenConfig,
+            configError,
         });
+
+        // The feedback steps revoke the installation token, but they don't run for skipped events
+        if (!handled && tokenConfig.isAppInstallationToken) {
+            try {
+                await revokeInstallationToken(tokenConfig.workingToken);
+                console.log("✓ Revoked GitHub App installation token");
+            } catch (revokeError) {
+                // The token expires after an hour anyway
+                console.warn("Failed to revoke GitHub App installation token:", revokeError);
+            }
+        }
     } catch (error) {
         handleStepError("Prepare step", error);
     }
@@ -0,0 +1,87 @@
+#!/usr/bin/env bun
+
+import * as core from "@actions/core";
+import {ENV_VARS, OUTPUT_VARS} from "../constants/environment";
+import {
+    commitConflictResolution,
+    createPushConflictError,
+    createPushConflictMergeTask,
+    pushWithRebase,
+} from "../github/operations/push";
+import {handleStepError} from "../utils/error-handler";
+import {JunieExecutionContext} from "../github/context";
+import {guardCommittedProtectedPaths} from "../github/operations/protected-paths";
+import {createSecretsFoundError, scanStagedChangesForSecrets} from "../github/operations/secret-scan";
+import {formatVerificationReport, verifyJunieChanges} from "../github/operations/verification";
+import {sanitizeJunieOutput} from "../utils/sanitizer";
+
+/**
+ * Runs the checks of handle-results over the merge Junie resolved: it is the output of another Junie session.
+ * Everything that differs from the remote branch is checked, i.e. exactly what the push adds to it.
+ *
+ * @throws {Error} if protected paths were changed, secrets were found,
+ * or verification failed and the configured action is "skip-push"
+ */
+async function checkConflictResolution(context: JunieExecutionContext, branch: string): Promise<void> {
+    const base = `origin/${branch}`;
+    guardCommittedProtectedPaths(context.inputs.config.protectedPaths, base);
+
+    if (context.inputs.secretScanning) {
+        const findings = scanStagedChangesForSecrets(base, [context.inputs.appToken, process.env[ENV_VARS.CLI_TOKEN] ?? ""]);
+        if (findings.length > 0) {
+            throw createSecretsFoundError(findings);
+        }
+    }
+
+    const verification = context.inputs.config.verification;
+    if (verification.commands.length === 0) {
+        return;
+    }
+    // No repair runs here, the conflict resolution was already a second Junie session
+    const result = await verifyJunieChanges({...verification, onFailure: "draft"});
+    if (!result.passed && verification.onFailure === "skip-push") {
+        throw new Error(
+            `❌ Verification failed after Junie resolved the conflicts with ${base}, nothing was pushed.\n\n` +
+            formatVerificationReport(result)
+        );
+    }
+    if (!result.passed) {
+        core.setOutput(OUTPUT_VARS.VERIFICATION_FAILED, "true");
+    }
+    const outcome = result.passed ? undefined : "The changes were pushed after resolving the conflicts.";
+    core.setOutput(OUTPUT_VARS.VERIFICATION_REPORT, sanitizeJunieOutput(formatVerificationReport(result, outcome), context.inputs.triggerPhrase));
+}
+
+export async function pushChanges() {
+    try {
+        const workingBranch = process.env[OUTPUT_VARS.WORKING_BRANCH]!;
+        const conflictAction = process.env[ENV_VARS.PUSH_CONFLICT_ACTION] === "resolve" ? "resolve" : "report";
+
+        // Retry after Junie merged the updated remote branch
+        if (process.env[ENV_VARS.MERGE_RESOLVED] === "true") {
+            commitConflictResolution(workingBranch);
+            const context = JSON.parse(process.env[OUTPUT_VARS.PARSED_CONTEXT]!) as JunieExecutionContext;
+            await checkConflictResolution(context, workingBranch);
+        }
+
+        const result = pushWithRebase(workingBranch);
+        if (result.status === "pushed") {
+            core.setOutput("commit_long_sha", result.sha);
+            return;
+        }
+
+        if (conflictAction === "resolve") {
+            console.log(`Asking Junie to merge origin/${workingBranch} and resolve the conflicts`);
+            core.setOutput(OUTPUT_VARS.JUNIE_MERGE_TASK, createPushConflictMergeTask(workingBranch));
+            return;
+        }
+        throw createPushConflictError(workingBranch, result.conflictingFiles);
+    } catch (error) {
+        handleStepError("Push step", error);
+    }
+}
+
+// @ts-ignore
+if (import.meta.main) {
+    pushChanges();
+}
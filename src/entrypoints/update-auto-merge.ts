@@ -0,0 +1,69 @@
+#!/usr/bin/env bun
+
+import * as core from "@actions/core";
+import { JunieExecutionContext } from "../github/context";
+import { ENV_VARS, OUTPUT_VARS } from "../constants/environment";
+import { handleStepError } from "../utils/error-handler";
+import { AutoMergeConfig, AutoMergeParams, findPullRequestForBranch, updateAutoMerge } from "../github/operations/auto-merge";
+import { buildGitHubApiClient, Octokits } from "../github/api/client";
+
+/**
+ * Enables or disables auto-merge of the PR for the pushed changes and sets the step outputs
+ */
+export async function syncAutoMerge(octokits: Octokits, params: AutoMergeParams, config: AutoMergeConfig): Promise<void> {
+    const autoMerge = await updateAutoMerge(octokits, params, config);
+    if (autoMerge.enabled) {
+        core.setOutput(OUTPUT_VARS.AUTO_MERGE_ENABLED, autoMerge.mergeMethod);
+    } else if (autoMerge.disabled) {
+        core.setOutput(OUTPUT_VARS.AUTO_MERGE_DISABLED, autoMerge.reason);
+    } else {
+        console.log(`Auto-merge not enabled: ${autoMerge.reason}`);
+    }
+}
+
+/**
+ * Re-evaluates auto-merge of the open PR after Junie pushed to its branch
+ */
+export async function updatePullRequestAutoMerge() {
+    try {
+        const context = JSON.parse(process.env[OUTPUT_VARS.PARSED_CONTEXT]!) as JunieExecutionContext;
+        const config = context.inputs.config.pullRequest.autoMerge;
+        if (!config.enabled) {
+            return;
+        }
+
+        const workingBranch = process.env[OUTPUT_VARS.WORKING_BRANCH]!;
+        const octokits = buildGitHubApiClient(process.env[ENV_VARS.GITHUB_TOKEN]!);
+        const params = await findPullRequestForBranch(
+            octokits,
+            context.payload.repository.owner.login,
+            context.payload.repository.name,
+            workingBranch,
+            context.tokenOwner.id,
+        );
+        if (!params) {
+            console.log(`No open PR of Junie for ${workingBranch}, skipping auto-merge`);
+            return;
+        }
+
+        try {
+            await syncAutoMerge(octokits, {
+                ...params,
+                verificationFailed: process.env[OUTPUT_VARS.VERIFICATION_FAILED] === "true",
+            }, config);
+        } catch (error) {
+            // The changes are already pushed, a rejected auto-merge must not fail the run
+            const message = error instanceof Error ? error.message : String(error);
+            const warning = `Failed to update auto-merge: ${message.split("\n")[0]}`;
+            core.warning(warning);
+            core.setOutput(OUTPUT_VARS.PR_WARNINGS, warning);
+        }
+    } catch (error) {
+        handleStepError("Update auto-merge step", error);
+    }
+}
+
+// @ts-ignore
+if (import.meta.main) {
+    updatePullRequestAutoMerge();
+}
@@ -1,4 +1,14 @@
-import {ISSUE_QUERY, IssueQueryResponse, PULL_REQUEST_QUERY, PullRequestQueryResponse, GraphQLPullRequest, GraphQLIssue} from "../api/queries";
+import {
+    DISCUSSION_QUERY,
+    DiscussionQueryResponse,
+    GraphQLDiscussion,
+    GraphQLIssue,
+    GraphQLPullRequest,
+    ISSUE_QUERY,
+    IssueQueryResponse,
+    PULL_REQUEST_QUERY,
+    PullRequestQueryResponse
+} from "../api/queries";
 import {Octokits} from "./client";
 import pRetry, {AbortError} from "p-retry";
 import {
@@ -174,4 +184,53 @@ export class GraphQLGitHubDataFetcher {
             issue: filteredIssue
         };
     }
+
+    /**
+     * Fetch discussion with its comment threads in a single GraphQL query and filter by trigger time
+     */
+    async fetchDiscussionData(owner: string, repo: string, discussionNumber: number, triggerTime?: string) {
+        const response = await this.executeGraphQLWithRetry<DiscussionQueryResponse>(
+            DISCUSSION_QUERY,
+            {
+                owner,
+                repo,
+                number: discussionNumber
+            }
+        );
+
+        const discussion = response.repository.discussion;
+
+        // Filter comments and their replies to trigger time
+        const filteredComments = filterCommentsToTriggerTime(
+            discussion.comments.nodes,
+            triggerTime
+        ).map(comment => ({
+            ...comment,
+            replies: {
+                nodes: filterCommentsToTriggerTime(comment.replies.nodes, triggerTime)
+            }
+        }));
+
+        // Check if body is safe to use
+        const bodyIsSafe = isBodySafeToUse(discussion, triggerTime);
+        if (!bodyIsSafe) {
+            console.warn(
+                `Security: Discussion #${discussionNumber} body was edited after the trigger event. ` +
+                `Excluding body content to prevent potential injection attacks.`
+            );
+        }
+
+        // Create filtered discussion object
+        const filteredDiscussion: GraphQLDiscussion = {
+            ...discussion,
+            body: bodyIsSafe ? discussion.body : "",
+            comments: {
+                nodes: filteredComments
+            }
+        };
+
+        return {
+            discussion: filteredDiscussion
+        };
+    }
 }
@@ -123,6 +123,22 @@ export const PULL_REQUEST_QUERY = `
             }
           }
         }
+
+        # Review threads with their resolution state
+        reviewThreads(first: 100) {
+          nodes {
+            id
+            isResolved
+            isOutdated
+            path
+            line
+            comments(first: 100) {
+              nodes {
+                id
+              }
+            }
+          }
+        }
       }
     }
   }
@@ -189,7 +205,267 @@ export const ISSUE_QUERY = `
   }
 `;
 
+export const DISCUSSION_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      discussion(number: $number) {
+        id
+        number
+        title
+        body
+        url
+        author {
+          login
+        }
+        category {
+          name
+        }
+        createdAt
+        updatedAt
+        lastEditedAt
+
+        # Top-level comments with their replies (threads)
+        comments(first: 100) {
+          nodes {
+            id
+            databaseId
+            body
+            author {
+              login
+            }
+            createdAt
+            lastEditedAt
+            url
+            replies(first: 50) {
+              nodes {
+                id
+                databaseId
+                body
+                author {
+                  login
+                }
+                createdAt
+                lastEditedAt
+                url
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Discussion comments can only be nested one level deep,
+// so replies to a reply have to target the top-level comment
+export const DISCUSSION_COMMENT_REPLY_TO_QUERY = `
+  query($commentId: ID!) {
+    node(id: $commentId) {
+      ... on DiscussionComment {
+        id
+        replyTo {
+          id
+        }
+      }
+    }
+  }
+`;
+
+export const DISCUSSION_COMMENTS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      discussion(number: $number) {
+        comments(last: 100) {
+          nodes {
+            id
+            body
+            replies(last: 50) {
+              nodes {
+                id
+                body
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const ADD_DISCUSSION_COMMENT_MUTATION = `
+  mutation($discussionId: ID!, $body: String!, $replyToId: ID) {
+    addDiscussionComment(input: {discussionId: $discussionId, body: $body, replyToId: $replyToId}) {
+      comment {
+        id
+        url
+      }
+    }
+  }
+`;
 
+export const UPDATE_DISCUSSION_COMMENT_MUTATION = `
+  mutation($commentId: ID!, $body: String!) {
+    updateDiscussionComment(input: {commentId: $commentId, body: $body}) {
+      comment {
+        id
+      }
+    }
+  }
+`;
+
+export const ADD_REACTION_MUTATION = `
+  mutation($subjectId: ID!, $content: ReactionContent!) {
+    addReaction(input: {subjectId: $subjectId, content: $content}) {
+      reaction {
+        content
+      }
+    }
+  }
+`;
+
+// Pending reviews are only visible to their author, so this returns the review of the current token owner
+export const PENDING_REVIEW_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        id
+        reviews(states: PENDING, first: 1) {
+          nodes {
+            id
+            viewerDidAuthor
+            comments {
+              totalCount
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const ADD_PULL_REQUEST_REVIEW_MUTATION = `
+  mutation($pullRequestId: ID!, $commitOID: GitObjectID!) {
+    addPullRequestReview(input: {pullRequestId: $pullRequestId, commitOID: $commitOID}) {
+      pullRequestReview {
+        id
+      }
+    }
+  }
+`;
+
+export const ADD_PULL_REQUEST_REVIEW_THREAD_MUTATION = `
+  mutation($pullRequestReviewId: ID!, $path: String!, $body: String!, $line: Int!, $side: DiffSide, $startLine: Int, $startSide: DiffSide) {
+    addPullRequestReviewThread(input: {pullRequestReviewId: $pullRequestReviewId, path: $path, body: $body, line: $line, side: $side, startLine: $startLine, startSide: $startSide}) {
+      thread {
+        id
+        comments(first: 1) {
+          nodes {
+            id
+            databaseId
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const SUBMIT_PULL_REQUEST_REVIEW_MUTATION = `
+  mutation($pullRequestReviewId: ID!, $event: PullRequestReviewEvent!, $body: String) {
+    submitPullRequestReview(input: {pullRequestReviewId: $pullRequestReviewId, event: $event, body: $body}) {
+      pullRequestReview {
+        id
+        url
+        state
+      }
+    }
+  }
+`;
+
+export const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100) {
+          nodes {
+            id
+            isResolved
+            path
+            line
+            diffSide
+            comments(first: 20) {
+              nodes {
+                body
+                author {
+                  login
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+export const ADD_REVIEW_THREAD_REPLY_MUTATION = `
+  mutation($threadId: ID!, $body: String!) {
+    addPullRequestReviewThreadReply(input: {pullRequestReviewThreadId: $threadId, body: $body}) {
+      comment {
+        id
+        url
+      }
+    }
+  }
+`;
+
+export const RESOLVE_REVIEW_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    resolveReviewThread(input: {threadId: $threadId}) {
+      thread {
+        id
+        isResolved
+      }
+    }
+  }
+`;
+
+// Commits created with this mutation are signed by GitHub and shown as verified
+export const CREATE_COMMIT_ON_BRANCH_MUTATION = `
+  mutation($input: CreateCommitOnBranchInput!) {
+    createCommitOnBranch(input: $input) {
+      commit {
+        oid
+        url
+      }
+    }
+  }
+`;
+
+// Merges the PR with the given method once its required reviews and checks pass
+export const ENABLE_PULL_REQUEST_AUTO_MERGE_MUTATION = `
+  mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!) {
+    enablePullRequestAutoMerge(input: {pullRequestId: $pullRequestId, mergeMethod: $mergeMethod}) {
+      pullRequest {
+        autoMergeRequest {
+          enabledAt
+          mergeMethod
+        }
+      }
+    }
+  }
+`;
+
+// Cancels the pending auto-merge of the PR
+export const DISABLE_PULL_REQUEST_AUTO_MERGE_MUTATION = `
+  mutation($pullRequestId: ID!) {
+    disablePullRequestAutoMerge(input: {pullRequestId: $pullRequestId}) {
+      pullRequest {
+        autoMergeRequest {
+          enabledAt
+        }
+      }
+    }
+  }
+`;
 
 export interface GraphQLUser {
     login: string;
@@ -295,6 +571,21 @@ export interface GraphQLReviews {
     nodes: GraphQLReviewNode[];
 }
 
+export interface GraphQLReviewThreadNode {
+    id: string;
+    isResolved: boolean;
+    isOutdated: boolean;
+    path: string;
+    line: number | null;
+    comments: {
+        nodes: Array<{ id: string }>;
+    };
+}
+
+export interface GraphQLReviewThreads {
+    nodes: GraphQLReviewThreadNode[];
+}
+
 export interface GraphQLPullRequest {
     number: number;
     title: string;
@@ -317,6 +608,7 @@ export interface GraphQLPullRequest {
     files: GraphQLFiles;
     timelineItems: GraphQLTimelineItems;
     reviews: GraphQLReviews;
+    reviewThreads?: GraphQLReviewThreads;
 }
 
 export interface GraphQLIssue {
@@ -333,6 +625,38 @@ export interface GraphQLIssue {
     timelineItems: GraphQLTimelineItems;
 }
 
+export interface GraphQLDiscussionReplyNode {
+    id: string;
+    databaseId: number;
+    body: string;
+    author: GraphQLUser | null;
+    createdAt: string;
+    lastEditedAt: string | null;
+    url: string;
+}
+
+export interface GraphQLDiscussionCommentNode extends GraphQLDiscussionReplyNode {
+    replies: {
+        nodes: GraphQLDiscussionReplyNode[];
+    };
+}
+
+export interface GraphQLDiscussion {
+    id: string;
+    number: number;
+    title: string;
+    body: string;
+    url: string;
+    author: GraphQLUser | null;
+    category: { name: string } | null;
+    createdAt: string;
+    updatedAt: string;
+    lastEditedAt: string | null;
+    comments: {
+        nodes: GraphQLDiscussionCommentNode[];
+    };
+}
+
 export interface PullRequestQueryResponse {
     repository: {
         pullRequest: GraphQLPullRequest;
@@ -345,6 +669,143 @@ export interface IssueQueryResponse {
     };
 }
 
+export interface DiscussionQueryResponse {
+    repository: {
+        discussion: GraphQLDiscussion;
+    };
+}
+
+export interface DiscussionCommentReplyToQueryResponse {
+    node: {
+        id: string;
+        replyTo: { id: string } | null;
+    } | null;
+}
+
+export interface DiscussionCommentsQueryResponse {
+    repository: {
+        discussion: {
+            comments: {
+                nodes: Array<{
+                    id: string;
+                    body: string;
+                    replies: { nodes: Array<{ id: string; body: string }> };
+                }>;
+            };
+        };
+    };
+}
+
+export interface AddDiscussionCommentMutationResponse {
+    addDiscussionComment: {
+        comment: {
+            id: string;
+            url: string;
+        };
+    };
+}
+
+export interface PendingReviewQueryResponse {
+    repository: {
+        pullRequest: {
+            id: string;
+            reviews: {
+                nodes: Array<{
+                    id: string;
+                    viewerDidAuthor: boolean;
+                    comments: {
+                        totalCount: number;
+                    };
+                }>;
+            };
+        };
+    };
+}
+
+export interface AddPullRequestReviewMutationResponse {
+    addPullRequestReview: {
+        pullRequestReview: {
+            id: string;
+        };
+    };
+}
+
+export interface AddPullRequestReviewThreadMutationResponse {
+    addPullRequestReviewThread: {
+        thread: {
+            id: string;
+            comments: {
+                nodes: Array<{
+                    id: string;
+                    databaseId: number;
+                }>;
+            };
+        } | null;
+    };
+}
+
+export interface SubmitPullRequestReviewMutationResponse {
+    submitPullRequestReview: {
+        pullRequestReview: {
+            id: string;
+            url: string;
+            state: string;
+        };
+    };
+}
+
+export interface CreateCommitOnBranchMutationResponse {
+    createCommitOnBranch: {
+        commit: {
+            oid: string;
+            url: string;
+        };
+    };
+}
+
+export interface EnablePullRequestAutoMergeMutationResponse {
+    enablePullRequestAutoMerge: {
+        pullRequest: {
+            autoMergeRequest: {
+                enabledAt: string;
+                mergeMethod: string;
+            } | null;
+        };
+    };
+}
+
+export interface DisablePullRequestAutoMergeMutationResponse {
+    disablePullRequestAutoMerge: {
+        pullRequest: {
+            autoMergeRequest: {
+                enabledAt: string;
+            } | null;
+        };
+    };
+}
+
+export interface ReviewThreadsQueryResponse {
+    repository: {
+        pullRequest: {
+            reviewThreads: {
+                nodes: Array<{
+                    id: string;
+                    isResolved: boolean;
+                    path: string;
+                    line: number | null;
+                    diffSide: "LEFT" | "RIGHT";
+                    comments: {
+                        nodes: Array<{
+                            body: string;
+                            author: GraphQLUser | null;
+                        }>;
+                    };
+                }>;
+            };
+        };
+    };
+}
+
 // Type guards for timeline items
 export function isIssueCommentNode(node: GraphQLTimelineItemNode): node is GraphQLIssueCommentNode {
     return node.__typename === "IssueComment";
@@ -379,4 +840,5 @@ export interface ViewerQueryResponse {
 export interface FetchedData {
     pullRequest?: GraphQLPullRequest;
     issue?: GraphQLIssue;
+    discussion?: GraphQLDiscussion;
 }
@@ -0,0 +1,295 @@
+import * as github from "@actions/github";
+import type {core as zodCore} from "zod/v4";
+import type {Octokits} from "../api/client";
+import {
+    DEFAULT_BRANCH_NAME_TEMPLATE,
+    DEFAULT_LABEL_TRIGGER,
+    DEFAULT_PROTECTED_PATHS,
+    DEFAULT_TRIGGER_PHRASE,
+    WORKING_BRANCH_PREFIX,
+} from "../../constants/github";
+import {
+    JUNIE_CONFIG_PROFILE_EVENTS,
+    JunieConfig,
+    JunieConfigFile,
+    JunieConfigSettings,
+    junieConfigFileSchema,
+} from "./schema";
+
+export const JUNIE_CONFIG_PATH = ".github/junie.yml";
+
+/**
+ * Action inputs overriding the repository config, empty values fall back to the config
+ */
+export type JunieConfigInputs = {
+    triggerPhrase?: string;
+    assigneeTrigger?: string;
+    labelTrigger?: string;
+    allowedMcpServers?: string;
+    baseBranch?: string;
+    branchNameTemplate?: string;
+    protectedPaths?: string;
+    protectedPathsAllow?: string;
+    protectedPathsAction?: string;
+    commitMessageFormat?: string;
+    verificationCommands?: string;
+    verificationOnFailure?: string;
+    prDraft?: string;
+    prLabels?: string;
+    prCopyIssueLabels?: string;
+    prCopyMilestone?: string;
+    prCodeownerReviews?: string;
+    prAssignActor?: string;
+    autoMerge?: string;
+    autoMergeMethod?: string;
+    autoMergePaths?: string;
+};
+
+type YamlPath = readonly PropertyKey[];
+
+function getIndent(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+function isBlankOrComment(line: string): boolean {
+    const content = line.trim();
+    return !content || content.startsWith("#");
+}
+
+function isYamlKeyLine(content: string, key: string): boolean {
+    const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`^(["']?)${escapedKey}\\1\\s*:(\\s|$)`).test(content);
+}
+
+/**
+ * Finds the line of a value in a block style YAML document
+ *
+ * @returns 1-based line of the deepest path segment found, or `undefined` if even the first one is missing
+ */
+export function findYamlLine(source: string, path: YamlPath): number | undefined {
+    const lines = source.split(/\r?\n/);
+    let start = 0;
+    let parentIndent = -1;
+    let foundLine: number | undefined;
+
+    for (const segment of path) {
+        let childIndent: number | undefined;
+        let itemsSeen = 0;
+        let match: number | undefined;
+
+        for (let i = start; i < lines.length && match === undefined; i++) {
+            const line = lines[i];
+            if (isBlankOrComment(line)) continue;
+            const indent = getIndent(line);
+            const content = line.trim();
+            const isItem = content === "-" || content.startsWith("- ");
+
+            if (typeof segment === "number") {
+                // Sequence items can have the same indentation as their parent key
+                if (indent < parentIndent || (indent === parentIndent && !isItem)) break;
+                if (!isItem) continue;
+                childIndent ??= indent;
+                if (indent === childIndent && itemsSeen++ === segment) {
+                    match = i;
+                    parentIndent = indent;
+                    // The first key of a mapping item is on the same line as the dash
+                    start = i;
+                }
+            } else {
+                if (indent <= parentIndent && i > start) break;
+                // Keys of a mapping item start after the dash
+                const keyIndent = isItem ? indent + 2 : indent;
+                const keyContent = isItem ? content.slice(2).trimStart() : content;
+                childIndent ??= keyIndent;
+                if (keyIndent === childIndent && isYamlKeyLine(keyContent, String(segment))) {
+                    match = i;
+                    parentIndent = keyIndent;
+                    start = i + 1;
+                }
+            }
+        }
+
+        if (match === undefined) {
+            break;
+        }
+        foundLine = match + 1;
+    }
+
+    return foundLine;
+}
+
+function formatYamlPath(path: YamlPath): string {
+    return path.reduce<string>((result, segment) =>
+        typeof segment === "number" ? `${result}[${segment}]` : result ? `${result}.${String(segment)}` : String(segment), "");
+}
+
+function formatConfigIssue(source: string, issue: zodCore.$ZodIssue): string {
+    let path: YamlPath = issue.path;
+    let message = issue.message;
+    if (issue.code === "unrecognized_keys") {
+        path = [...issue.path, issue.keys[0]];
+        message = `Unknown setting "${issue.keys.join('", "')}"`;
+    } else if (issue.code === "invalid_key" && issue.path[0] === "profiles") {
+        message = `Unknown event, expected one of: ${JUNIE_CONFIG_PROFILE_EVENTS.join(", ")}`;
+    }
+
+    const line = findYamlLine(source, path);
+    const location = [line ? `line ${line}` : undefined, formatYamlPath(path) || undefined].filter(Boolean).join(", ");
+    return `• ${location || "root"}: ${message}`;
+}
+
+/**
+ * Parses and validates the content of the repository config file
+ *
+ * @throws {Error} with the location of every problem if the file is not valid
+ */
+export function parseJunieConfig(source: string): JunieConfigFile {
+    let document: unknown;
+    try {
+        document = Bun.YAML.parse(source);
+    } catch (error) {
+        throw new Error(
+            `❌ Failed to parse ${JUNIE_CONFIG_PATH}: it is not a valid YAML document.\n\n` +
+            `Original error: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+
+    const result = junieConfigFileSchema.safeParse(document ?? {});
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => formatConfigIssue(source, issue)).join("\n");
+        throw new Error(
+            `❌ Invalid Junie configuration in ${JUNIE_CONFIG_PATH}:\n` +
+            `${issues}\n\n` +
+            `Fix the configuration file or remove it to use the action inputs only.`
+        );
+    }
+    return result.data;
+}
+
+/**
+ * Reads the repository config file from the given ref
+ *
+ * @returns Validated config or `undefined` if the repository has no config file
+ */
+export async function fetchJunieConfig(octokit: Octokits, owner: string, repo: string, ref?: string): Promise<JunieConfigFile | undefined> {
+    let source: string;
+    try {
+        const {data} = await octokit.rest.repos.getContent({owner, repo, path: JUNIE_CONFIG_PATH, ref});
+        if (Array.isArray(data) || data.type !== "file") {
+            throw new Error(`${JUNIE_CONFIG_PATH} is not a file`);
+        }
+        source = Buffer.from(data.content, "base64").toString("utf-8");
+    } catch (error: any) {
+        if (error?.status === 404) {
+            console.log(`No ${JUNIE_CONFIG_PATH} found${ref ? ` on ${ref}` : ""}, using action inputs only`);
+            return undefined;
+        }
+        throw new Error(
+            `❌ Failed to read ${JUNIE_CONFIG_PATH} from ${owner}/${repo}${ref ? ` (${ref})` : ""}. ` +
+            `This could be due to:\n` +
+            `• Insufficient token permissions (needs 'contents:read' scope)\n` +
+            `• ${JUNIE_CONFIG_PATH} is a directory or a symlink\n` +
+            `• GitHub API rate limits\n` +
+            `Original error: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+
+    console.log(`Loaded ${JUNIE_CONFIG_PATH}${ref ? ` from ${ref}` : ""}`);
+    return parseJunieConfig(source);
+}
+
+/**
+ * Reads the repository config file from the base branch of the current run
+ */
+export async function loadRepositoryJunieConfig(octokit: Octokits): Promise<JunieConfigFile | undefined> {
+    const {owner, repo} = github.context.repo;
+    const payload = github.context.payload;
+    const ref = process.env.BASE_BRANCH || payload.pull_request?.base?.ref || payload.repository?.default_branch;
+    return fetchJunieConfig(octokit, owner, repo, ref);
+}
+
+function mergeSettings(base: JunieConfigSettings, override: JunieConfigSettings = {}): JunieConfigSettings {
+    return {
+        triggers: {...base.triggers, ...override.triggers},
+        mcp_servers: override.mcp_servers ?? base.mcp_servers,
+        branch: {...base.branch, ...override.branch},
+        review: {...base.review, ...override.review},
+        protected_paths: {...base.protected_paths, ...override.protected_paths},
+        commit: {...base.commit, ...override.commit},
+        verification: {...base.verification, ...override.verification},
+        pull_request: {...base.pull_request, ...override.pull_request},
+    };
+}
+
+function splitList(value?: string, separator: RegExp = /[,\n]/): string[] | undefined {
+    const items = value?.split(separator).map(item => item.trim()).filter(Boolean);
+    return items?.length ? items : undefined;
+}
+
+function parseBoolean(value?: string): boolean | undefined {
+    return value === "true" ? true : value === "false" ? false : undefined;
+}
+
+/**
+ * Builds the effective config of the run: the profile of the event is applied on top of the repository config,
+ * then non-empty action inputs take priority
+ */
+export function resolveJunieConfig(configFile: JunieConfigFile | undefined, eventName: string, inputs: JunieConfigInputs): JunieConfig {
+    // pull_request_target is handled as pull_request everywhere else
+    const profileName = (eventName === "pull_request_target" ? "pull_request" : eventName) as keyof NonNullable<JunieConfigFile["profiles"]>;
+    const settings = mergeSettings(configFile ?? {}, configFile?.profiles?.[profileName]);
+
+    return {
+        triggers: {
+            phrase: inputs.triggerPhrase || settings.triggers?.phrase || DEFAULT_TRIGGER_PHRASE,
+            assignee: inputs.assigneeTrigger || settings.triggers?.assignee || "",
+            label: inputs.labelTrigger || settings.triggers?.label || DEFAULT_LABEL_TRIGGER,
+        },
+        mcpServers: splitList(inputs.allowedMcpServers) ?? settings.mcp_servers ?? [],
+        branch: {
+            prefix: settings.branch?.prefix || WORKING_BRANCH_PREFIX,
+            base: inputs.baseBranch || settings.branch?.base,
+            template: inputs.branchNameTemplate || settings.branch?.template || DEFAULT_BRANCH_NAME_TEMPLATE,
+        },
+        review: {
+            criteria: settings.review?.criteria ?? [],
+        },
+        protectedPaths: {
+            deny: splitList(inputs.protectedPaths) ?? settings.protected_paths?.deny ?? DEFAULT_PROTECTED_PATHS,
+            allow: splitList(inputs.protectedPathsAllow) ?? settings.protected_paths?.allow ?? [],
+            action: inputs.protectedPathsAction === "fail" || inputs.protectedPathsAction === "revert"
+                ? inputs.protectedPathsAction
+                : settings.protected_paths?.action ?? "revert",
+        },
+        commit: {
+            format: inputs.commitMessageFormat === "default" || inputs.commitMessageFormat === "conventional"
+                ? inputs.commitMessageFormat
+                : settings.commit?.format ?? "default",
+            coAuthor: settings.commit?.co_author ?? false,
+            trailers: settings.commit?.trailers ?? false,
+        },
+        verification: {
+            // Commands may contain commas, so only lines separate them
+            commands: splitList(inputs.verificationCommands, /\n/) ?? settings.verification?.commands ?? [],
+            onFailure: inputs.verificationOnFailure === "draft" || inputs.verificationOnFailure === "skip-push" || inputs.verificationOnFailure === "retry"
+                ? inputs.verificationOnFailure
+                : settings.verification?.on_failure ?? "draft",
+            maxRepairAttempts: settings.verification?.max_repair_attempts ?? 1,
+        },
+        pullRequest: {
+            draft: parseBoolean(inputs.prDraft) ?? settings.pull_request?.draft ?? false,
+            labels: splitList(inputs.prLabels) ?? settings.pull_request?.labels ?? [],
+            copyIssueLabels: parseBoolean(inputs.prCopyIssueLabels) ?? settings.pull_request?.copy_issue_labels ?? false,
+            copyMilestone: parseBoolean(inputs.prCopyMilestone) ?? settings.pull_request?.copy_milestone ?? false,
+            requestCodeownerReviews: parseBoolean(inputs.prCodeownerReviews) ?? settings.pull_request?.codeowner_reviews ?? false,
+            assignActor: parseBoolean(inputs.prAssignActor) ?? settings.pull_request?.assign_actor ?? false,
+            autoMerge: {
+                enabled: parseBoolean(inputs.autoMerge) ?? settings.pull_request?.auto_merge?.enabled ?? false,
+                mergeMethod: inputs.autoMergeMethod === "merge" || inputs.autoMergeMethod === "squash" || inputs.autoMergeMethod === "rebase"
+                    ? inputs.autoMergeMethod
+                    : settings.pull_request?.auto_merge?.merge_method ?? "squash",
+                paths: splitList(inputs.autoMergePaths) ?? settings.pull_request?.auto_merge?.paths ?? [],
+            },
+        },
+    };
+}
@@ -0,0 +1,113 @@
+import {z} from "zod/v4";
+import type {ProtectedPathsConfig} from "../operations/protected-paths";
+import type {CommitMessageConfig} from "../operations/commit-message";
+import type {VerificationConfig} from "../operations/verification";
+import type {PullRequestConfig} from "../operations/pull-request";
+
+export const JUNIE_CONFIG_VERSION = 1;
+
+// Events a profile can be defined for, same names as the GitHub workflow events
+export const JUNIE_CONFIG_PROFILE_EVENTS = [
+    "push",
+    "issues",
+    "issue_comment",
+    "pull_request",
+    "pull_request_review",
+    "pull_request_review_comment",
+    "discussion",
+    "discussion_comment",
+    "workflow_dispatch",
+    "repository_dispatch",
+    "schedule",
+    "workflow_run",
+    "check_suite",
+] as const;
+
+export const JUNIE_CONFIG_MCP_SERVERS = [
+    "mcp_github_checks_server",
+    "mcp_github_inline_comment_server",
+] as const;
+
+const nonEmptyString = z.string().trim().min(1);
+
+// Settings that can be overridden per event
+const junieConfigSettingsSchema = z.strictObject({
+    triggers: z.strictObject({
+        phrase: nonEmptyString.optional(),
+        assignee: nonEmptyString.optional(),
+        label: nonEmptyString.optional(),
+    }).optional(),
+    mcp_servers: z.array(z.enum(JUNIE_CONFIG_MCP_SERVERS)).optional(),
+    branch: z.strictObject({
+        prefix: nonEmptyString.optional(),
+        base: nonEmptyString.optional(),
+        template: nonEmptyString.optional(),
+    }).optional(),
+    review: z.strictObject({
+        criteria: z.array(nonEmptyString).optional(),
+    }).optional(),
+    protected_paths: z.strictObject({
+        deny: z.array(nonEmptyString).optional(),
+        allow: z.array(nonEmptyString).optional(),
+        action: z.enum(["revert", "fail"]).optional(),
+    }).optional(),
+    commit: z.strictObject({
+        format: z.enum(["default", "conventional"]).optional(),
+        co_author: z.boolean().optional(),
+        trailers: z.boolean().optional(),
+    }).optional(),
+    verification: z.strictObject({
+        commands: z.array(nonEmptyString).optional(),
+        on_failure: z.enum(["draft", "skip-push", "retry"]).optional(),
+        max_repair_attempts: z.number().int().min(1).max(5).optional(),
+    }).optional(),
+    pull_request: z.strictObject({
+        draft: z.boolean().optional(),
+        labels: z.array(nonEmptyString).optional(),
+        copy_issue_labels: z.boolean().optional(),
+        copy_milestone: z.boolean().optional(),
+        codeowner_reviews: z.boolean().optional(),
+        assign_actor: z.boolean().optional(),
+        auto_merge: z.strictObject({
+            enabled: z.boolean().optional(),
+            merge_method: z.enum(["merge", "squash", "rebase"]).optional(),
+            paths: z.array(nonEmptyString).optional(),
+        }).optional(),
+    }).optional(),
+});
+
+export const junieConfigFileSchema = junieConfigSettingsSchema.extend({
+    version: z.literal(JUNIE_CONFIG_VERSION),
+    profiles: z.partialRecord(z.enum(JUNIE_CONFIG_PROFILE_EVENTS), junieConfigSettingsSchema).optional(),
+});
+
+export type JunieConfigSettings = z.infer<typeof junieConfigSettingsSchema>;
+
+/**
+ * Content of the `.github/junie.yml` file
+ */
+export type JunieConfigFile = z.infer<typeof junieConfigFileSchema>;
+
+/**
+ * Effective configuration of the run: repository config with the event profile applied, overridden by action inputs
+ */
+export type JunieConfig = {
+    triggers: {
+        phrase: string;
+        assignee: string;
+        label: string;
+    };
+    mcpServers: string[];
+    branch: {
+        prefix: string;
+        base?: string;
+        template: string;
+    };
+    review: {
+        criteria: string[];
+    };
+    protectedPaths: ProtectedPathsConfig;
+    commit: CommitMessageConfig;
+    verification: VerificationConfig;
+    pullRequest: PullRequestConfig;
+};
@@ -2,6 +2,8 @@ import * as github from "@actions/github";
 import * as core from "@actions/core";
 import {
     CheckSuiteEvent,
+    DiscussionCommentEvent,
+    DiscussionEvent,
     IssueCommentEvent,
     IssuesAssignedEvent,
     IssuesEvent,
@@ -16,7 +18,17 @@ import {
 } from "@octokit/webhooks-types";
 import type {TokenOwner} from "./operations/auth";
 import {OUTPUT_VARS} from "../constants/environment";
-import {DEFAULT_TRIGGER_PHRASE, JIRA_EVENT_ACTION, RESOLVE_CONFLICTS_ACTION} from "../constants/github";
+import {
+    DEFAULT_MAX_FIX_ATTEMPTS,
+    DEFAULT_STALE_BRANCH_DAYS,
+    JIRA_EVENT_ACTION,
+    JunieCommandName,
+    RESOLVE_CONFLICTS_ACTION,
+    UNKNOWN_COMMAND
+} from "../constants/github";
+import {extractJunieCommand} from "./validation/trigger";
+import type {JunieConfig, JunieConfigFile} from "./config/schema";
+import {resolveJunieConfig} from "./config/loader";
 
 // Jira integration types
 export type JiraComment = {
@@ -41,6 +53,13 @@ export type JiraIssuePayload = WorkflowDispatchEvent & {
     action: typeof JIRA_EVENT_ACTION;
 };
 
+// Command parsed from the text following the trigger phrase, e.g. `@junie-agent /review focus=security`
+export type JunieCommand = {
+    name: JunieCommandName | typeof UNKNOWN_COMMAND;
+    rawName: string;
+    args: Record<string, string>;
+};
+
 // Jira integration types
 export type ResolveConflictsEventPayload = WorkflowDispatchEvent & {
     action: typeof RESOLVE_CONFLICTS_ACTION;
@@ -60,6 +79,8 @@ const USER_TRIGGERED_EVENTS = [
     "pull_request",
     "pull_request_review",
     "pull_request_review_comment",
+    "discussion",
+    "discussion_comment",
 ] as const;
 
 // Events triggered by automation/schedules
@@ -84,10 +105,15 @@ type JunieWorkflowContext = {
     tokenOwner: TokenOwner;
     entityNumber?: number;
     isPR?: boolean;
+    command?: JunieCommand;
     inputs: {
         resolveConflicts: boolean;
         createNewBranchForPR: boolean;
         silentMode: boolean;
+        // Write Junie's changes to a patch file instead of committing them
+        patchMode: boolean;
+        // Block Junie's changes if they contain secrets
+        secretScanning: boolean;
         useSingleComment: boolean;
         attachGithubContextToCustomPrompt: boolean;
         junieWorkingDir: string;
@@ -100,6 +126,15 @@ type JunieWorkflowContext = {
         labelTrigger: string;
         workingBranch?: string;
         allowedMcpServers?: string;
+        fixFailingChecks: boolean;
+        maxFixAttempts: number;
+        resolveReviewThreads: boolean;
+        reuseIssueBranch: boolean;
+        cleanupStaleBranches: boolean;
+        staleBranchDays: number;
+        cleanupDryRun: boolean;
+        // Effective configuration: `.github/junie.yml` merged with the inputs above
+        config: JunieConfig;
     };
 };
 
@@ -112,7 +147,9 @@ export type UserInitiatedEventContext = JunieWorkflowContext & {
         | IssueCommentEvent
         | PullRequestEvent
         | PullRequestReviewEvent
-        | PullRequestReviewCommentEvent;
+        | PullRequestReviewCommentEvent
+        | DiscussionEvent
+        | DiscussionCommentEvent;
 };
 
 // Context for automated workflow events (workflow_dispatch, schedule, etc.)
@@ -134,10 +171,34 @@ export type JunieExecutionContext = UserInitiatedEventContext | AutomationEventC
 /**
  * Extracts and builds Junie workflow context from GitHub event data
  * @param tokenOwner - Information about the token owner (user or app)
+ * @param configFile - Repository config file, action inputs take priority over it
  * @returns Junie execution context with event-specific data
  */
-export function extractJunieWorkflowContext(tokenOwner: TokenOwner): JunieExecutionContext {
+export function extractJunieWorkflowContext(tokenOwner: TokenOwner, configFile?: JunieConfigFile): JunieExecutionContext {
     const context = github.context;
+    const config = resolveJunieConfig(configFile, context.eventName, {
+        triggerPhrase: process.env.TRIGGER_PHRASE,
+        assigneeTrigger: process.env.ASSIGNEE_TRIGGER,
+        labelTrigger: process.env.LABEL_TRIGGER,
+        allowedMcpServers: process.env.ALLOWED_MCP_SERVERS,
+        baseBranch: process.env.BASE_BRANCH,
+        branchNameTemplate: process.env.BRANCH_NAME_TEMPLATE,
+        protectedPaths: process.env.PROTECTED_PATHS,
+        protectedPathsAllow: process.env.PROTECTED_PATHS_ALLOW,
+        protectedPathsAction: process.env.PROTECTED_PATHS_ACTION,
+        commitMessageFormat: process.env.COMMIT_MESSAGE_FORMAT,
+        verificationCommands: process.env.VERIFICATION_COMMANDS,
+        verificationOnFailure: process.env.VERIFICATION_ON_FAILURE,
+        prDraft: process.env.PR_DRAFT,
+        prLabels: process.env.PR_LABELS,
+        prCopyIssueLabels: process.env.PR_COPY_ISSUE_LABELS,
+        prCopyMilestone: process.env.PR_COPY_MILESTONE,
+        prCodeownerReviews: process.env.PR_CODEOWNER_REVIEWS,
+        prAssignActor: process.env.PR_ASSIGN_ACTOR,
+        autoMerge: process.env.AUTO_MERGE,
+        autoMergeMethod: process.env.AUTO_MERGE_METHOD,
+        autoMergePaths: process.env.AUTO_MERGE_PATHS,
+    });
     const commonFields = {
         runId: process.env.GITHUB_RUN_ID!,
         workflow: process.env.GITHUB_WORKFLOW || "Junie",
@@ -149,18 +210,28 @@ export function extractJunieWorkflowContext(tokenOwner: TokenOwner): JunieExecut
             resolveConflicts: process.env.RESOLVE_CONFLICTS == "true",
             createNewBranchForPR: process.env.CREATE_NEW_BRANCH_FOR_PR == "true",
             silentMode: process.env.SILENT_MODE == "true",
+            patchMode: process.env.PATCH_MODE == "true",
+            secretScanning: process.env.SECRET_SCANNING !== "false",
             useSingleComment: process.env.USE_SINGLE_COMMENT == "true",
             attachGithubContextToCustomPrompt: process.env.ATTACH_GITHUB_CONTEXT_TO_CUSTOM_PROMPT !== "false",
             junieWorkingDir: process.env.JUNIE_WORKING_DIR!,
             headRef: process.env.GITHUB_HEAD_REF,
             appToken: process.env.APP_TOKEN!,
             prompt: process.env.PROMPT || "",
-            triggerPhrase: process.env.TRIGGER_PHRASE ?? DEFAULT_TRIGGER_PHRASE,
-            assigneeTrigger: process.env.ASSIGNEE_TRIGGER ?? "",
-            labelTrigger: process.env.LABEL_TRIGGER ?? "",
-            baseBranch: process.env.BASE_BRANCH,
+            triggerPhrase: config.triggers.phrase,
+            assigneeTrigger: config.triggers.assignee,
+            labelTrigger: config.triggers.label,
+            baseBranch: config.branch.base,
             targetBranch: process.env.TARGET_BRANCH,
-            allowedMcpServers: process.env.ALLOWED_MCP_SERVERS,
+            allowedMcpServers: config.mcpServers.join(",") || undefined,
+            fixFailingChecks: process.env.FIX_FAILING_CHECKS == "true",
+            maxFixAttempts: parseInt(process.env.MAX_FIX_ATTEMPTS || "", 10) || DEFAULT_MAX_FIX_ATTEMPTS,
+            resolveReviewThreads: process.env.RESOLVE_REVIEW_THREADS == "true",
+            reuseIssueBranch: process.env.REUSE_ISSUE_BRANCH == "true",
+            cleanupStaleBranches: process.env.CLEANUP_STALE_BRANCHES == "true",
+            staleBranchDays: parseInt(process.env.STALE_BRANCH_DAYS || "", 10) || DEFAULT_STALE_BRANCH_DAYS,
+            cleanupDryRun: process.env.CLEANUP_DRY_RUN == "true",
+            config,
         },
     };
 
@@ -222,6 +293,28 @@ export function extractJunieWorkflowContext(tokenOwner: TokenOwner): JunieExecut
             };
             break
         }
+        case "discussion": {
+            const payload = context.payload as DiscussionEvent;
+            parsedContext = {
+                ...commonFields,
+                eventName: context.eventName,
+                payload,
+                entityNumber: payload.discussion.number,
+                isPR: false,
+            };
+            break;
+        }
+        case "discussion_comment": {
+            const payload = context.payload as DiscussionCommentEvent;
+            parsedContext = {
+                ...commonFields,
+                eventName: context.eventName,
+                payload,
+                entityNumber: payload.discussion.number,
+                isPR: false,
+            };
+            break;
+        }
         case "check_suite": {
             const payload = context.payload as CheckSuiteEvent;
             const isPr = payload.check_suite.pull_requests.length > 0
@@ -304,6 +397,10 @@ export function extractJunieWorkflowContext(tokenOwner: TokenOwner): JunieExecut
         default:
             throw new Error(`Unsupported event type: ${context.eventName}`);
     }
+    parsedContext.command = extractJunieCommand(parsedContext);
+    if (parsedContext.command) {
+        console.log(`Junie command detected: ${parsedContext.command.rawName} ${JSON.stringify(parsedContext.command.args)}`);
+    }
     core.setOutput(OUTPUT_VARS.ACTOR_NAME, parsedContext.actor);
     core.setOutput(OUTPUT_VARS.ACTOR_EMAIL, parsedContext.actorEmail);
     core.setOutput(OUTPUT_VARS.PARSED_CONTEXT, JSON.stringify(parsedContext));
@@ -368,6 +465,18 @@ export function isCheckSuiteEvent(context: JunieExecutionContext): context is Au
     return context.eventName === "check_suite";
 }
 
+export function isWorkflowRunEvent(context: JunieExecutionContext): context is AutomationEventContext & {
+    payload: WorkflowRunEvent
+} {
+    return context.eventName === "workflow_run";
+}
+
+export function isScheduleEvent(context: JunieExecutionContext): context is AutomationEventContext & {
+    payload: ScheduleEvent
+} {
+    return context.eventName === "schedule";
+}
+
 export function isPushEvent(
     context: JunieExecutionContext,
 ): context is UserInitiatedEventContext & { payload: PushEvent } {
@@ -404,6 +513,27 @@ export function isPullRequestReviewCommentEvent(
     return context.eventName === "pull_request_review_comment";
 }
 
+export function isDiscussionEvent(
+    context: JunieExecutionContext,
+): context is UserInitiatedEventContext & { payload: DiscussionEvent } {
+    return context.eventName === "discussion";
+}
+
+export function isDiscussionCommentEvent(
+    context: JunieExecutionContext,
+): context is UserInitiatedEventContext & { payload: DiscussionCommentEvent } {
+    return context.eventName === "discussion_comment";
+}
+
+/**
+ * Checks if the context belongs to a GitHub Discussion (the discussion itself or one of its comments)
+ */
+export function isDiscussionRelatedEvent(
+    context: JunieExecutionContext,
+): context is UserInitiatedEventContext & { payload: DiscussionEvent | DiscussionCommentEvent } {
+    return isDiscussionEvent(context) || isDiscussionCommentEvent(context);
+}
+
 export function isIssuesAssignedEvent(
     context: JunieExecutionContext,
 ): context is UserInitiatedEventContext & { payload: IssuesAssignedEvent } {
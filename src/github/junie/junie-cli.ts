@@ -0,0 +1,29 @@
+import {spawnSync} from "child_process";
+import {ENV_VARS} from "../../constants/environment";
+import {CliInput, CliOutput} from "./types/junie";
+
+/**
+ * Runs the Junie CLI installed by the "Install Junie" step with the same options as the "Run Junie" step
+ *
+ * @returns Parsed JSON output of Junie
+ * @throws {Error} if the CLI token is missing or Junie exits with an error
+ */
+export function runJunieCli(task: CliInput): CliOutput {
+    const cliToken = process.env[ENV_VARS.CLI_TOKEN];
+    if (!cliToken) {
+        throw new Error("Junie CLI token is not available in this step");
+    }
+
+    const result = spawnSync("junie", [
+        `--cache-dir=${process.env[ENV_VARS.WORKING_DIR]}`,
+        "--input-format=json",
+        "--output-format=json",
+        `--auth=${cliToken}`,
+    ], {input: JSON.stringify(task), encoding: "utf-8", maxBuffer: 64 * 1024 * 1024});
+
+    if (result.error || result.status !== 0) {
+        throw new Error(`Junie exited with ${result.error?.message ?? `code ${result.status}`}: ${result.stderr ?? ""}`);
+    }
+    console.log(result.stdout);
+    return JSON.parse(result.stdout) as CliOutput;
+}
@@ -1,6 +1,9 @@
 import {
     isResolveConflictsWorkflowDispatchEvent,
     JunieExecutionContext,
+    isDiscussionCommentEvent,
+    isDiscussionEvent,
+    isDiscussionRelatedEvent,
     isIssueCommentEvent,
     isIssuesEvent,
     isPullRequestEvent,
@@ -9,12 +12,16 @@ import {
 } from "../context";
 import * as core from "@actions/core";
 import {BranchInfo} from "../operations/branch";
-import {
-    isReviewOrCommentHasCodeReviewTrigger,
-    isReviewOrCommentHasResolveConflictsTrigger
-} from "../validation/trigger";
+import {hasJunieCommand} from "../validation/trigger";
 import {OUTPUT_VARS} from "../../constants/environment";
-import {CODE_REVIEW_ACTION, createCodeReviewPrompt} from "../../constants/github";
+import {
+    CODE_REVIEW_ACTION,
+    createAddressReviewsPrompt,
+    createCodeReviewPrompt,
+    createFixFailingChecksPrompt,
+    FAILED_CHECKS_PROMPT_MAX_LENGTH,
+    ReviewDiffRange
+} from "../../constants/github";
 import {Octokits} from "../api/client";
 import {NewGitHubPromptFormatter} from "./new-prompt-formatter";
 import {validateInputSize} from "../validation/input-size";
@@ -23,6 +30,9 @@ import {GraphQLGitHubDataFetcher} from "../api/graphql-data-fetcher";
 import {FetchedData} from "../api/queries";
 import {CliInput} from "./types/junie";
 import {generateMcpToolsPrompt} from "../../mcp/mcp-prompts";
+import {getCompletedChecksInfo, isFixFailingChecksRun} from "../operations/fix-checks";
+import {extractFailedChecksInfo} from "../operations/failed-checks";
+import {getIncrementalReviewRange} from "../operations/review-range";
 
 async function getValidatedTextTask(text: string, taskType: string): Promise<string> {
     // Download attachments and rewrite URLs in the text
@@ -42,6 +52,10 @@ function getTriggerTime(context: JunieExecutionContext): string | undefined {
         return context.payload.comment.created_at;
     } else if (isPullRequestEvent(context)) {
         return context.payload.pull_request.updated_at;
+    } else if (isDiscussionCommentEvent(context)) {
+        return context.payload.comment.created_at;
+    } else if (isDiscussionEvent(context)) {
+        return context.payload.discussion.updated_at;
     }
     return undefined;
 }
@@ -58,7 +72,7 @@ export async function prepareJunieTask(
     const customPrompt = context.inputs.prompt || undefined;
     let junieCLITask: CliInput = {}
 
-    if (context.inputs.resolveConflicts || isReviewOrCommentHasResolveConflictsTrigger(context)) {
+    if (context.inputs.resolveConflicts || hasJunieCommand(context, "resolve-conflicts")) {
         junieCLITask.mergeTask = {branch: branchInfo.prBaseBranch || branchInfo.baseBranch}
     } else {
         const formatter = new NewGitHubPromptFormatter();
@@ -68,22 +82,41 @@ export async function prepareJunieTask(
         // Fetch appropriate data
         if (context.isPR && context.entityNumber) {
             fetchedData = await fetcher.fetchPullRequestData(owner, repo, context.entityNumber, triggerTime);
+        } else if (isDiscussionRelatedEvent(context) && context.entityNumber) {
+            fetchedData = await fetcher.fetchDiscussionData(owner, repo, context.entityNumber, triggerTime);
         } else if (context.entityNumber) {
             fetchedData = await fetcher.fetchIssueData(owner, repo, context.entityNumber, triggerTime);
         }
 
         const issue = fetchedData.pullRequest || fetchedData.issue;
 
-        // Check if prompt contains CODE_REVIEW_ACTION phrase or if comment/review has code-review trigger
+        // Check if prompt contains CODE_REVIEW_ACTION phrase or if comment/review has /review command
         const isCodeReviewInPrompt = customPrompt?.includes(CODE_REVIEW_ACTION);
-        const isCodeReviewInComment = isReviewOrCommentHasCodeReviewTrigger(context);
-        const isCodeReview = isCodeReviewInPrompt || isCodeReviewInComment;
+        const isCodeReviewCommand = hasJunieCommand(context, "review");
+        const isCodeReview = isCodeReviewInPrompt || isCodeReviewCommand;
 
         let promptText: string;
-        if (issue && isCodeReview) {
+        if (isFixFailingChecksRun(context)) {
+            const headSha = branchInfo.headSha || getCompletedChecksInfo(context)!.headSha;
+            const failedChecks = await extractFailedChecksInfo(octokit.rest, owner, repo, headSha, FAILED_CHECKS_PROMPT_MAX_LENGTH);
+            console.log(`Preloaded output of ${failedChecks.failedChecks.length} failed check(s) for ${headSha}`);
+            const fixPrompt = createFixFailingChecksPrompt(failedChecks.combinedOutput || "No failed checks output available", customPrompt);
+            promptText = await formatter.generatePrompt(context, fetchedData, fixPrompt, true);
+        } else if (fetchedData.pullRequest && hasJunieCommand(context, "address-reviews")) {
+            const unresolvedThreads = fetchedData.pullRequest.reviewThreads?.nodes.filter(thread => !thread.isResolved) || [];
+            console.log(`Addressing ${unresolvedThreads.length} unresolved review thread(s)`);
+            const addressReviewsPrompt = createAddressReviewsPrompt(customPrompt);
+            promptText = await formatter.generatePrompt(context, fetchedData, addressReviewsPrompt, true);
+        } else if (issue && isCodeReview) {
             const branchName = branchInfo.prBaseBranch || branchInfo.baseBranch;
             const diffPoint = context.isPR ? String(context.entityNumber) : branchName;
-            const codeReviewPrompt = createCodeReviewPrompt(diffPoint);
+            let diffRange: ReviewDiffRange | undefined;
+            if (context.isPR && branchInfo.headSha) {
+                diffRange = await getIncrementalReviewRange(octokit.rest, context, branchInfo.headSha);
+                // Stored after the review, so the next run only reviews newer commits
+                core.setOutput(OUTPUT_VARS.REVIEWED_SHA, branchInfo.headSha);
+            }
+            const codeReviewPrompt = createCodeReviewPrompt(diffPoint, diffRange, context.inputs.config.review.criteria);
             promptText = await formatter.generatePrompt(context, fetchedData, codeReviewPrompt, true);
         } else {
             promptText = await formatter.generatePrompt(context, fetchedData, customPrompt, context.inputs.attachGithubContextToCustomPrompt);
@@ -1,14 +1,19 @@
 import {
     FetchedData,
     GraphQLCommitNode,
+    GraphQLDiscussionCommentNode,
     GraphQLFileNode,
     GraphQLReviewNode,
+    GraphQLReviewThreadNode,
     GraphQLTimelineItemNode,
     isCrossReferencedEventNode,
     isIssueCommentNode,
     isReferencedEventNode
 } from "../api/queries";
 import {
+    isDiscussionCommentEvent,
+    isDiscussionEvent,
+    isDiscussionRelatedEvent,
     isIssueCommentEvent,
     isIssuesEvent,
     isJiraWorkflowDispatchEvent,
@@ -22,6 +27,7 @@ import {
 } from "../context";
 import {downloadJiraAttachmentsAndRewriteText} from "./attachment-downloader";
 import {sanitizeContent} from "../../utils/sanitizer";
+import {JUNIE_COMMANDS, UNKNOWN_COMMAND} from "../../constants/github";
 
 export class NewGitHubPromptFormatter {
 
@@ -39,9 +45,11 @@ export class NewGitHubPromptFormatter {
         const repositoryInfo = this.getRepositoryInfo(context);
         const actorInfo = this.getActorInfo(context);
         const userInstruction = this.getUserInstruction(context, userPrompt)
+        const commandInfo = this.getCommandInfo(context);
         const prOrIssueInfo = this.getPrOrIssueInfo(context, fetchedData);
         const commitsInfo = this.getCommitsInfo(fetchedData);
         const timelineInfo = this.getTimelineInfo(fetchedData);
+        const discussionCommentsInfo = this.getDiscussionCommentsInfo(fetchedData);
         const reviewsInfo = this.getReviewsInfo(fetchedData);
         const changedFilesInfo = this.getChangedFilesInfo(fetchedData);
 
@@ -49,10 +57,12 @@ export class NewGitHubPromptFormatter {
         const prompt = `You were triggered as a GitHub AI Assistant by ${context.eventName} action. Your task is to:
 
 ${userInstruction ? userInstruction : ""}
+${commandInfo ? commandInfo : ""}
 ${repositoryInfo ? repositoryInfo : ""}
 ${prOrIssueInfo ? prOrIssueInfo : ""}
 ${commitsInfo ? commitsInfo : ""}
 ${timelineInfo ? timelineInfo : ""}
+${discussionCommentsInfo ? discussionCommentsInfo : ""}
 ${reviewsInfo ? reviewsInfo : ""}
 ${changedFilesInfo ? changedFilesInfo : ""}
 ${actorInfo ? actorInfo : ""}
@@ -108,6 +118,10 @@ Description: ${jira.issueDescription}${commentsInfo}
             githubUserInstruction = context.payload.issue.body
         } else if (isIssueCommentEvent(context)) {
             githubUserInstruction = context.payload.comment.body
+        } else if (isDiscussionEvent(context)) {
+            githubUserInstruction = context.payload.discussion.body
+        } else if (isDiscussionCommentEvent(context)) {
+            githubUserInstruction = context.payload.comment.body
         }
 
         const instruction = customPrompt || githubUserInstruction;
@@ -117,10 +131,28 @@ Description: ${jira.issueDescription}${commentsInfo}
 </user_instruction>` : undefined
     }
 
+    private getCommandInfo(context: JunieExecutionContext): string | undefined {
+        const command = context.command;
+        if (!command || command.name === UNKNOWN_COMMAND) {
+            return undefined;
+        }
+
+        const {description, readOnly} = JUNIE_COMMANDS[command.name];
+        const args = Object.entries(command.args).map(([key, value]) => `${key}: ${value}`);
+
+        return `<command>
+Command: /${command.name}
+Goal: ${description}${readOnly ? "\nDo NOT modify any files." : ""}${args.length > 0 ? `\nArguments:\n${args.join("\n")}` : ""}
+</command>`
+    }
+
     private getPrOrIssueInfo(context: JunieExecutionContext, fetchedData: FetchedData): string | undefined {
         if (context.isPR) {
             const prInfo = this.getPrInfo(fetchedData);
             return prInfo ? `<pull_request_info>\n${prInfo}\n</pull_request_info>` : undefined;
+        } else if (isDiscussionRelatedEvent(context)) {
+            const discussionInfo = this.getDiscussionInfo(fetchedData);
+            return discussionInfo ? `<discussion_info>\n${discussionInfo}\n</discussion_info>` : undefined;
         } else if (isTriggeredByUserInteraction(context) && !isPushEvent(context)) {
             const issueInfo = this.getIssueInfo(fetchedData);
             return issueInfo ? `<issue_info>\n${issueInfo}\n</issue_info>` : undefined;
@@ -152,6 +184,41 @@ Author: @${issue.author?.login}
 State: ${issue.state}`
     }
 
+    private getDiscussionInfo(fetchedData: FetchedData): string {
+        const discussion = fetchedData.discussion;
+        if (!discussion) return "";
+
+        return `Discussion Number: #${discussion.number}
+Title: ${discussion.title}
+Author: @${discussion.author?.login}
+Category: ${discussion.category?.name}
+
+${discussion.body}`
+    }
+
+    private getDiscussionCommentsInfo(fetchedData: FetchedData): string | undefined {
+        const comments = fetchedData.discussion?.comments?.nodes;
+
+        if (!comments || comments.length === 0) {
+            return undefined;
+        }
+
+        const commentsInfo = this.formatDiscussionComments(comments);
+        return commentsInfo ? `<discussion_comments>${commentsInfo}</discussion_comments>` : undefined
+    }
+
+    private formatDiscussionComments(comments: GraphQLDiscussionCommentNode[]): string {
+        return comments.map(comment => {
+            let commentText = `[${comment.createdAt}] Comment by @${comment.author?.login}:\n${comment.body}`;
+
+            for (const reply of comment.replies.nodes) {
+                commentText += `\n\n  [${reply.createdAt}] Reply by @${reply.author?.login}:\n  ${reply.body}`;
+            }
+
+            return commentText;
+        }).join('\n\n---\n\n');
+    }
+
     private getCommitsInfo(fetchedData: FetchedData): string | undefined {
         const commits = fetchedData.pullRequest?.commits?.nodes;
 
@@ -228,15 +295,23 @@ ${body}`;
             return undefined;
         }
 
-        const reviewsInfo = this.formatReviews(reviews);
+        // Review comments only know their review, the thread and its resolution state come from review threads
+        const threadsByCommentId = new Map<string, GraphQLReviewThreadNode>();
+        for (const thread of fetchedData.pullRequest?.reviewThreads?.nodes || []) {
+            for (const comment of thread.comments.nodes) {
+                threadsByCommentId.set(comment.id, thread);
+            }
+        }
+
+        const reviewsInfo = this.formatReviews(reviews, threadsByCommentId);
         return reviewsInfo ? `<reviews>${reviewsInfo}</reviews>` : undefined
     }
 
-    private formatReviews(reviews: GraphQLReviewNode[]): string {
+    private formatReviews(reviews: GraphQLReviewNode[], threadsByCommentId: Map<string, GraphQLReviewThreadNode>): string {
         const reviewTexts: string[] = [];
 
         for (const review of reviews) {
-            const reviewText = this.formatReview(review);
+            const reviewText = this.formatReview(review, threadsByCommentId);
             if (reviewText.trim()) {
                 reviewTexts.push(reviewText);
             }
@@ -249,7 +324,7 @@ ${body}`;
         return reviewTexts.join('\n\n---\n\n');
     }
 
-    private formatReview(review: GraphQLReviewNode): string {
+    private formatReview(review: GraphQLReviewNode, threadsByCommentId: Map<string, GraphQLReviewThreadNode>): string {
         const author = review.author?.login;
         const state = review.state;
         const submittedAt = review.submittedAt;
@@ -273,9 +348,15 @@ ${body}`;
                 const commentBody = comment.body;
                 const path = comment.path;
                 const diffHunk = comment.diffHunk;
+                const thread = threadsByCommentId.get(comment.id);
 
                 reviewText += `\n\n  ${path}:`;
 
+                if (thread) {
+                    const resolution = thread.isResolved ? "resolved" : "unresolved";
+                    reviewText += ` [thread ${thread.id}, ${resolution}${thread.isOutdated ? ", outdated" : ""}]`;
+                }
+
                 if (diffHunk) {
                     reviewText += `\n  \`\`\`diff\n${diffHunk}\n  \`\`\``;
                 }
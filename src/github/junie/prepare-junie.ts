@@ -5,9 +5,10 @@ import {
     isPushEvent,
     isJiraWorkflowDispatchEvent,
     isResolveConflictsWorkflowDispatchEvent, isPullRequestEvent, isPullRequestReviewEvent, isIssueCommentEvent,
+    isScheduleEvent,
 } from "../context";
 import {checkHumanActor} from "../validation/actor";
-import {postJunieWorkingStatusComment} from "../operations/comments/feedback";
+import {postJunieWorkingStatusComment, postUnknownCommandComment} from "../operations/comments/feedback";
 import {initializeJunieWorkspace} from "../operations/branch";
 import {PrepareJunieOptions} from "./types/junie";
 import {detectJunieTriggerPhrase} from "../validation/trigger";
@@ -18,32 +19,62 @@ import {Octokits} from "../api/client";
 import {prepareJunieTask} from "./junie-tasks";
 import {prepareJunieCLIToken} from "./junie-token";
 import {OUTPUT_VARS} from "../../constants/environment";
-import {RESOLVE_CONFLICTS_ACTION} from "../../constants/github";
+import {RESOLVE_CONFLICTS_ACTION, UNKNOWN_COMMAND} from "../../constants/github";
 import {getJiraClient} from "../jira/client";
+import {isFixFailingChecksRun, shouldFixFailingChecks} from "../operations/fix-checks";
+import {verifyTokenPermissions} from "../validation/token-permissions";
+import {runStaleBranchCleanup} from "../operations/stale-branches";
+import {createProgressComment} from "../operations/comments/progress";
 
 /**
  * Initializes Junie execution by preparing environment, auth, and workflow context
+ *
+ * @returns false if the event is skipped, i.e. Junie doesn't run and the feedback steps are skipped as well
  */
 export async function initializeJunieExecution({
                                   context,
                                   octokit,
                                   tokenConfig,
-                              }: PrepareJunieOptions) {
+                                  configError,
+                              }: PrepareJunieOptions): Promise<boolean> {
+
+    // The scheduled cleanup replaces the Junie run
+    if (isScheduleEvent(context) && context.inputs.cleanupStaleBranches) {
+        // The branch prefix may come from the config file
+        if (configError) {
+            throw configError;
+        }
+        await runStaleBranchCleanup(octokit.rest, context);
+        core.setOutput(OUTPUT_VARS.SHOULD_SKIP, 'true');
+        return false;
+    }
 
     const handle = await shouldHandle(context, octokit)
 
     if (!handle) {
+        if (configError) {
+            console.warn(`Ignoring the invalid repository config for a skipped event: ${configError instanceof Error ? configError.message : String(configError)}`);
+        }
         console.log("No need to run junie")
         core.setOutput(OUTPUT_VARS.SHOULD_SKIP, 'true');
-        return;
+        return false;
     }
+
+    // Reported only for handled events, so an invalid config file doesn't fail every ignored event
+    if (configError) {
+        throw configError;
+    }
+
+    // Checked only for handled events, so ignored events never fail because of the token
+    await verifyTokenPermissions(octokit, tokenConfig, context);
+
     core.setOutput(OUTPUT_VARS.SHOULD_SKIP, 'false');
 
     await prepareJunieCLIToken(context)
 
     await configureGitCredentials(context, tokenConfig)
 
-    await postJunieWorkingStatusComment(octokit.rest, context);
+    const initCommentId = await postJunieWorkingStatusComment(octokit.rest, context);
 
     // Start Jira issue if this is a Jira-triggered workflow
     if (isJiraWorkflowDispatchEvent(context)) {
@@ -66,6 +97,7 @@ export async function initializeJunieExecution({
 
     // Prepare MCP configuration with automatic server activation
     // - Inline comment server: enabled for PRs (requires commitSha)
+    // - Progress server: enabled when the working comment was posted
     const mcpConfig = await prepareMcpConfig({
         junieWorkingDir: context.inputs.junieWorkingDir,
         allowedMcpServers: mcpServers,
@@ -74,10 +106,13 @@ export async function initializeJunieExecution({
         repo: context.payload.repository.name,
         branchInfo: branchInfo,
         prNumber: prNumber,
-        commitSha: commitSha
+        commitSha: commitSha,
+        progressComment: initCommentId !== undefined ? createProgressComment(context, initCommentId) : undefined,
+        triggerPhrase: context.inputs.triggerPhrase,
     })
 
     await prepareJunieTask(context, branchInfo, octokit, mcpConfig.enabledServers)
+    return true;
 }
 
 async function shouldHandle(context: JunieExecutionContext, octokit: Octokits): Promise<boolean> {
@@ -92,6 +127,10 @@ async function shouldHandle(context: JunieExecutionContext, octokit: Octokits):
         }
     }
 
+    if (isFixFailingChecksRun(context)) {
+        return await shouldFixFailingChecks(context, octokit)
+    }
+
     if (context.inputs.prompt) {
         return true;
     }
@@ -104,7 +143,17 @@ async function shouldHandle(context: JunieExecutionContext, octokit: Octokits):
         return true;
     }
 
-    return isTriggeredByUserInteraction(context) && detectJunieTriggerPhrase(context) && checkHumanActor(octokit.rest, context);
+    const isTriggered = isTriggeredByUserInteraction(context) && detectJunieTriggerPhrase(context)
+        && await checkHumanActor(octokit.rest, context);
+
+    // Replied only after the actor check, so bots can't make Junie comment
+    if (isTriggered && context.command?.name === UNKNOWN_COMMAND) {
+        console.log(`Unknown command '${context.command.rawName}' - replying with the list of available commands`);
+        await postUnknownCommandComment(octokit.rest, context);
+        return false;
+    }
+
+    return isTriggered;
 }
 
 async function shouldResolveConflicts(context: JunieExecutionContext, octokit: Octokits): Promise<boolean> {
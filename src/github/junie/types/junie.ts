@@ -7,6 +7,8 @@ export type PrepareJunieOptions = {
     context: JunieExecutionContext;
     octokit: Octokits;
     tokenConfig: GitHubTokenConfig;
+    // Failure to load the repository config file, it fails the run only if the event is handled
+    configError?: unknown;
 };
 
 export interface MergeTask {
@@ -16,4 +18,11 @@ export interface MergeTask {
 export interface CliInput {
     task?: string;
     mergeTask?: MergeTask;
+}
+
+// JSON output of the Junie CLI (--output-format=json)
+export interface CliOutput {
+    taskName?: string;
+    result?: string;
+    errors?: string[];
 }
\ No newline at end of file
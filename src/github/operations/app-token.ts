@@ -0,0 +1,114 @@
+import {createSign} from "crypto";
+import {Octokit} from "@octokit/rest";
+import {GITHUB_API_URL} from "../api/config";
+
+export interface GitHubAppCredentials {
+    appId: string;
+    privateKey: string;
+    installationId?: string;
+}
+
+export type PermissionLevel = "read" | "write";
+
+/**
+ * Permissions requested for the installation token, everything else stays inaccessible to Junie
+ */
+export const JUNIE_APP_TOKEN_PERMISSIONS: Record<string, PermissionLevel> = {
+    contents: "write",
+    pull_requests: "write",
+    issues: "write",
+    discussions: "write",
+    checks: "read",
+    actions: "read",
+    statuses: "read",
+};
+
+// GitHub rejects JWTs valid for more than 10 minutes
+const JWT_EXPIRATION_SECONDS = 9 * 60;
+// Protects against clock drift between the runner and GitHub
+const JWT_CLOCK_DRIFT_SECONDS = 60;
+
+function base64Url(value: string | Buffer): string {
+    return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Creates a JWT signed with the App private key (RS256), used to authenticate as the GitHub App
+ */
+export function createAppJwt(appId: string, privateKey: string, now: number = Date.now()): string {
+    const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_DRIFT_SECONDS;
+    const header = base64Url(JSON.stringify({alg: "RS256", typ: "JWT"}));
+    const payload = base64Url(JSON.stringify({
+        iat: issuedAt,
+        exp: issuedAt + JWT_EXPIRATION_SECONDS,
+        iss: appId,
+    }));
+
+    const signer = createSign("RSA-SHA256");
+    signer.update(`${header}.${payload}`);
+    // Secrets often store the key with escaped line breaks
+    const signature = signer.sign(privateKey.replace(/\\n/g, "\n"));
+
+    return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+/**
+ * Limits the requested permissions to the ones granted to the installation,
+ * downgrading "write" to "read" when only read access is granted
+ */
+export function getRequestablePermissions(
+    granted: Record<string, string | undefined>,
+    requested: Record<string, PermissionLevel> = JUNIE_APP_TOKEN_PERMISSIONS,
+): Record<string, PermissionLevel> {
+    const permissions: Record<string, PermissionLevel> = {};
+    for (const [name, level] of Object.entries(requested)) {
+        const grantedLevel = granted[name];
+        if (grantedLevel === "write" || grantedLevel === "admin") {
+            permissions[name] = level;
+        } else if (grantedLevel === "read") {
+            permissions[name] = "read";
+        }
+    }
+    return permissions;
+}
+
+/**
+ * Exchanges the App credentials for an installation token scoped to a single repository
+ *
+ * @returns Installation access token and the permissions granted to it
+ */
+export async function createInstallationToken(
+    credentials: GitHubAppCredentials,
+    owner: string,
+    repo: string,
+): Promise<{ token: string, permissions: Record<string, string> }> {
+    const appOctokit = new Octokit({
+        auth: createAppJwt(credentials.appId, credentials.privateKey),
+        baseUrl: GITHUB_API_URL,
+    });
+
+    const {data: installation} = credentials.installationId
+        ? await appOctokit.rest.apps.getInstallation({installation_id: +credentials.installationId})
+        : await appOctokit.rest.apps.getRepoInstallation({owner, repo});
+
+    const permissions = getRequestablePermissions(installation.permissions as Record<string, string | undefined>);
+    console.log(`Creating installation token for ${owner}/${repo} (installation ${installation.id}) with permissions: ${JSON.stringify(permissions)}`);
+
+    const {data} = await appOctokit.rest.apps.createInstallationAccessToken({
+        installation_id: installation.id,
+        repositories: [repo],
+        permissions,
+    });
+    return {token: data.token, permissions: data.permissions as Record<string, string>};
+}
+
+/**
+ * Revokes the installation token, so it can't be used after the workflow finished
+ */
+export async function revokeInstallationToken(token: string): Promise<void> {
+    const octokit = new Octokit({
+        auth: token,
+        baseUrl: GITHUB_API_URL,
+    });
+    await octokit.rest.apps.revokeInstallationAccessToken();
+}
@@ -0,0 +1,121 @@
+import type {Octokits} from "../api/client";
+import {
+    DISABLE_PULL_REQUEST_AUTO_MERGE_MUTATION,
+    DisablePullRequestAutoMergeMutationResponse,
+    ENABLE_PULL_REQUEST_AUTO_MERGE_MUTATION,
+    EnablePullRequestAutoMergeMutationResponse
+} from "../api/queries";
+
+export type AutoMergeMethod = "merge" | "squash" | "rebase";
+
+export type AutoMergeConfig = {
+    enabled: boolean;
+    mergeMethod: AutoMergeMethod;
+    // Globs every changed path must match, auto-merge is never enabled with an empty list
+    paths: string[];
+};
+
+export type AutoMergeParams = {
+    owner: string;
+    repo: string;
+    pullNumber: number;
+    // GraphQL node ID of the PR
+    pullRequestId: string;
+    draft: boolean;
+    // Auto-merge is already enabled on the PR, e.g. by an earlier run
+    autoMergeEnabled: boolean;
+    // Verification commands failed for the pushed changes
+    verificationFailed?: boolean;
+};
+
+export type AutoMergeResult =
+    | { enabled: true; mergeMethod: AutoMergeMethod }
+    | { enabled: false; reason: string; disabled: boolean };
+
+/**
+ * Returns the paths that don't match any of the allowed globs
+ */
+export function findPathsOutsideAllowlist(paths: string[], allowlist: string[]): string[] {
+    const globs = allowlist.map(pattern => new Bun.Glob(pattern));
+    return paths.filter(path => !globs.some(glob => glob.match(path)));
+}
+
+/**
+ * Returns why the PR must not be auto-merged, or `undefined` if it can be
+ */
+async function findAutoMergeBlocker(octokits: Octokits, params: AutoMergeParams, config: AutoMergeConfig): Promise<string | undefined> {
+    const {owner, repo, pullNumber} = params;
+    if (params.draft) {
+        return "the PR is a draft";
+    }
+    if (params.verificationFailed) {
+        return "verification failed";
+    }
+
+    const files = await octokits.rest.paginate(octokits.rest.pulls.listFiles, {owner, repo, pull_number: pullNumber, per_page: 100});
+    // A renamed file leaves its old path as well
+    const paths = files.flatMap(file => file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]);
+    const disallowedPaths = findPathsOutsideAllowlist(paths, config.paths);
+    if (disallowedPaths.length > 0) {
+        return `changed paths outside the auto-merge allowlist: ${disallowedPaths.join(", ")}`;
+    }
+    return undefined;
+}
+
+/**
+ * Enables auto-merge for the PR if every changed path is in the allowlist, and disables it otherwise.
+ * It runs after every push to the PR, so auto-merge enabled by an earlier run is turned off
+ * once later changes leave the allowlist or fail verification.
+ * GitHub merges the PR once the branch protection requirements (reviews, checks) are met.
+ * Draft PRs, e.g. opened because verification failed, are never auto-merged.
+ *
+ * @throws {Error} if GitHub rejects enabling or disabling auto-merge, e.g. because it is not allowed in the repository settings
+ * or the PR can already be merged
+ */
+export async function updateAutoMerge(octokits: Octokits, params: AutoMergeParams, config: AutoMergeConfig): Promise<AutoMergeResult> {
+    const {pullNumber} = params;
+    const reason = await findAutoMergeBlocker(octokits, params, config);
+    if (reason) {
+        if (!params.autoMergeEnabled) {
+            return {enabled: false, reason, disabled: false};
+        }
+        await octokits.graphql<DisablePullRequestAutoMergeMutationResponse>(DISABLE_PULL_REQUEST_AUTO_MERGE_MUTATION, {
+            pullRequestId: params.pullRequestId,
+        });
+        console.log(`✓ Disabled auto-merge for PR #${pullNumber}: ${reason}`);
+        return {enabled: false, reason, disabled: true};
+    }
+
+    if (!params.autoMergeEnabled) {
+        await octokits.graphql<EnablePullRequestAutoMergeMutationResponse>(ENABLE_PULL_REQUEST_AUTO_MERGE_MUTATION, {
+            pullRequestId: params.pullRequestId,
+            mergeMethod: config.mergeMethod.toUpperCase(),
+        });
+        console.log(`✓ Enabled auto-merge (${config.mergeMethod}) for PR #${pullNumber}`);
+    }
+    return {enabled: true, mergeMethod: config.mergeMethod};
+}
+
+/**
+ * Finds the open PR of the branch Junie pushed to, e.g. for follow-up runs on a PR or a reused issue branch.
+ * PRs opened by someone else than the token owner are skipped, their auto-merge is left to their author.
+ */
+export async function findPullRequestForBranch(octokits: Octokits, owner: string, repo: string, branch: string, authorId: number): Promise<AutoMergeParams | undefined> {
+    const {data} = await octokits.rest.pulls.list({owner, repo, head: `${owner}:${branch}`, state: "open", per_page: 1});
+    const pr = data[0];
+    if (!pr) {
+        return undefined;
+    }
+    if (pr.user?.id !== authorId) {
+        console.log(`PR #${pr.number} was not opened by Junie, skipping auto-merge`);
+        return undefined;
+    }
+    return {
+        owner,
+        repo,
+        pullNumber: pr.number,
+        pullRequestId: pr.node_id,
+        draft: !!pr.draft,
+        autoMergeEnabled: !!pr.auto_merge,
+    };
+}
@@ -0,0 +1,222 @@
+import {$} from "bun";
+import {
+    JunieExecutionContext,
+    isDiscussionRelatedEvent,
+    isIssueCommentEvent,
+    isIssuesEvent,
+    isJiraWorkflowDispatchEvent,
+    isPullRequestEvent,
+    isPullRequestReviewCommentEvent,
+    isPullRequestReviewEvent,
+} from "../context";
+
+export const BRANCH_NAME_PLACEHOLDERS = ["prefix", "type", "number", "runId", "slug", "jiraKey", "actor"] as const;
+
+export type BranchNamePlaceholder = (typeof BRANCH_NAME_PLACEHOLDERS)[number];
+
+export type BranchNameVariables = Partial<Record<BranchNamePlaceholder, string>>;
+
+const MAX_BRANCH_NAME_LENGTH = 100;
+const MAX_SLUG_LENGTH = 40;
+const JIRA_KEY_PATTERN = /\b[A-Z][A-Z0-9]+-\d+\b/;
+
+// What the placeholders are rendered to, used to recognize the branches created from a template
+const PLACEHOLDER_PATTERNS: Record<Exclude<BranchNamePlaceholder, "prefix">, string> = {
+    type: "(?:issue|pr|run)",
+    number: "\\d+",
+    runId: "\\d+",
+    slug: "[a-z0-9-]+",
+    jiraKey: "[A-Z][A-Z0-9]+-\\d+",
+    actor: "[^/]+",
+};
+
+// Placeholders without a value for some events, they are dropped with their separator
+const OPTIONAL_PLACEHOLDERS: BranchNamePlaceholder[] = ["number", "slug", "jiraKey"];
+
+/**
+ * Turns free text (e.g. issue title) into a lowercase, dash separated branch name fragment
+ */
+export function slugify(text: string, maxLength: number = MAX_SLUG_LENGTH): string {
+    const slug = text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+    return slug.substring(0, maxLength).replace(/-+$/, "");
+}
+
+/**
+ * Makes a branch name valid according to `git check-ref-format`
+ */
+export function sanitizeBranchName(name: string): string {
+    const components = name
+        // Control characters, spaces and characters with a special meaning in refs
+        .replace(/[\x00-\x20\x7f~^:?*[\\]+/g, "-")
+        .replace(/@\{/g, "-")
+        .split("/")
+        .map(component => component
+            .replace(/\.{2,}/g, ".")
+            .replace(/-{2,}/g, "-")
+            .replace(/^[.-]+/, "")
+            .replace(/(\.lock)+$/i, "")
+            .replace(/[.-]+$/, ""))
+        .filter(Boolean);
+
+    let branchName = components.join("/").substring(0, MAX_BRANCH_NAME_LENGTH);
+    branchName = branchName.replace(/[./-]+$/, "");
+    return branchName === "@" ? "" : branchName;
+}
+
+/**
+ * Replaces the `{placeholder}` occurrences of the template, missing values are dropped with their separator
+ *
+ * @throws {Error} if the template contains an unknown placeholder
+ */
+export function renderBranchName(template: string, variables: BranchNameVariables): string {
+    const unknown = [...template.matchAll(/\{([^}]*)}/g)]
+        .map(match => match[1])
+        .filter(name => !BRANCH_NAME_PLACEHOLDERS.includes(name as BranchNamePlaceholder));
+    if (unknown.length > 0) {
+        throw new Error(
+            `❌ Invalid branch name template "${template}": unknown placeholder(s) ${unknown.map(name => `{${name}}`).join(", ")}.\n\n` +
+            `Supported placeholders: ${BRANCH_NAME_PLACEHOLDERS.map(name => `{${name}}`).join(", ")}`
+        );
+    }
+
+    const rendered = template.replace(/\{([^}]*)}/g, (_, name: BranchNamePlaceholder) => variables[name] ?? "");
+    const branchName = sanitizeBranchName(rendered);
+    if (!branchName) {
+        throw new Error(`❌ Branch name template "${template}" produced an empty branch name for this event`);
+    }
+    return branchName;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds a pattern matching the branch names rendered from the template, including the suffix of name collisions.
+ * Like in `renderBranchName` placeholders without a value may be missing together with their separator.
+ */
+export function createBranchNamePattern(template: string, prefix: string): RegExp {
+    const source = template.split(/(\{[^}]*})/).map(part => {
+        const name = part.match(/^\{([^}]*)}$/)?.[1] as BranchNamePlaceholder | undefined;
+        if (!name) {
+            return escapeRegExp(part).replace(/-/g, "-?");
+        }
+        if (name === "prefix") {
+            return escapeRegExp(prefix);
+        }
+        const pattern = PLACEHOLDER_PATTERNS[name] ?? "[^/]+";
+        return OPTIONAL_PLACEHOLDERS.includes(name) ? `(?:${pattern})?` : pattern;
+    }).join("");
+    return new RegExp(`^${source}(?:-\\d+)?$`);
+}
+
+/**
+ * Returns the title of the issue, PR, discussion or Jira issue Junie is working on
+ */
+export function getEntityTitle(context: JunieExecutionContext): string | undefined {
+    if (isIssuesEvent(context) || isIssueCommentEvent(context)) {
+        return context.payload.issue.title;
+    }
+    if (isPullRequestEvent(context) || isPullRequestReviewEvent(context) || isPullRequestReviewCommentEvent(context)) {
+        return context.payload.pull_request.title;
+    }
+    if (isDiscussionRelatedEvent(context)) {
+        return context.payload.discussion.title;
+    }
+    if (isJiraWorkflowDispatchEvent(context)) {
+        return context.payload.issueSummary;
+    }
+    return undefined;
+}
+
+/**
+ * Returns the key of the Jira issue, taken from the Jira payload or the issue/PR title
+ */
+export function getJiraKey(context: JunieExecutionContext): string | undefined {
+    return isJiraWorkflowDispatchEvent(context)
+        ? context.payload.issueKey
+        : getEntityTitle(context)?.match(JIRA_KEY_PATTERN)?.[0];
+}
+
+/**
+ * Collects the values of the branch name placeholders for the current run
+ */
+export function getBranchNameVariables(context: JunieExecutionContext, entityType: string): BranchNameVariables {
+    const title = getEntityTitle(context);
+
+    return {
+        prefix: context.inputs.config.branch.prefix,
+        type: entityType,
+        number: context.entityNumber ? String(context.entityNumber) : undefined,
+        runId: context.runId,
+        slug: title ? slugify(title) || undefined : undefined,
+        jiraKey: getJiraKey(context),
+        actor: context.actor,
+    };
+}
+
+/**
+ * Appends a numeric suffix until the branch name doesn't collide with an existing branch
+ */
+export function resolveBranchNameCollision(branchName: string, existingBranches: Set<string>): string {
+    let candidate = branchName;
+    for (let suffix = 2; existingBranches.has(candidate); suffix++) {
+        candidate = `${branchName}-${suffix}`;
+    }
+    return candidate;
+}
+
+/**
+ * Lists the remote branches starting with the given name
+ */
+async function listRemoteBranches(namePrefix: string): Promise<Set<string>> {
+    const output = await $`git ls-remote --heads origin ${`refs/heads/${namePrefix}*`}`.text();
+    return new Set(output
+        .split("\n")
+        .map(line => line.split("\t")[1]?.replace("refs/heads/", ""))
+        .filter((name): name is string => Boolean(name)));
+}
+
+/**
+ * Generates the working branch name from the branch name template
+ * and makes sure it doesn't exist on the remote yet
+ */
+export async function generateWorkingBranchName(context: JunieExecutionContext, entityType: string): Promise<string> {
+    const branchName = renderBranchName(context.inputs.config.branch.template, getBranchNameVariables(context, entityType));
+
+    let existingBranches: Set<string>;
+    try {
+        existingBranches = await listRemoteBranches(branchName);
+    } catch (error) {
+        console.warn(`Failed to list remote branches, skipping collision check for ${branchName}:`, error);
+        return branchName;
+    }
+
+    const availableName = resolveBranchNameCollision(branchName, existingBranches);
+    if (availableName !== branchName) {
+        console.log(`Branch ${branchName} already exists, using ${availableName}`);
+    }
+    return availableName;
+}
+
+/**
+ * Branch name of the current entity without the run specific parts,
+ * shared by the working branches of all runs for the same issue (e.g. "junie/issue-123")
+ *
+ * @returns `undefined` if the template doesn't identify the entity (no `{number}` or `{jiraKey}`)
+ */
+export function getEntityBranchNamePrefix(context: JunieExecutionContext, entityType: string): string | undefined {
+    const template = context.inputs.config.branch.template;
+    if (!template.includes("{number}") && !template.includes("{jiraKey}")) {
+        return undefined;
+    }
+    return renderBranchName(template, {
+        ...getBranchNameVariables(context, entityType),
+        runId: undefined,
+        slug: undefined,
+        actor: undefined,
+    });
+}
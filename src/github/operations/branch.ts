@@ -7,12 +7,15 @@ import {
     isPullRequestEvent,
     isPullRequestReviewCommentEvent,
     isPullRequestReviewEvent,
+    isDiscussionRelatedEvent,
     isPushEvent,
 } from "../context";
 import type {Octokits} from "../api/client";
 import {OUTPUT_VARS} from "../../constants/environment";
-import {WORKING_BRANCH_PREFIX} from "../../constants/github";
-import {isReviewOrCommentHasResolveConflictsTrigger} from "../validation/trigger";
+import {hasJunieCommand} from "../validation/trigger";
+import {isFixFailingChecksRun} from "./fix-checks";
+import {generateWorkingBranchName} from "./branch-name";
+import {findIssuePullRequest, IssuePullRequest} from "./issue-branch";
 
 export type BranchInfo = {
     baseBranch: string;
@@ -20,6 +23,8 @@ export type BranchInfo = {
     isNewBranch: boolean;
     prBaseBranch?: string;
     headSha?: string;
+    // Open PR of a previous run for the same issue, when Junie continues on its branch
+    existingPrUrl?: string;
 };
 
 /**
@@ -84,35 +89,30 @@ function shouldUseExistingPRBranch(
 /**
  * Creates and checks out a new git branch based on a base branch.
  *
- * Branch name is normalized: lowercased and truncated to 50 characters for safety.
- *
  * @param baseBranch - The base branch to branch from (e.g., "main", "develop")
- * @param branchName - Desired name for the new branch (will be normalized)
+ * @param branchName - Name for the new branch, already made git-ref-safe by the branch name template
  * @param prBaseBranch - The base branch for pull requests (e.g., "main", "develop")
  * @returns Branch information object with base, working branch names and isNewBranch flag
  * @throws {Error} if git operations fail (branch doesn't exist, network issues, etc.)
  */
 async function createNewBranch(baseBranch: string, branchName: string, prBaseBranch: string | undefined, headSha?: string) {
-    // Normalize branch name: lowercase and limit to 50 chars for git compatibility
-    const newBranch = branchName.toLowerCase().substring(0, 50);
-
     try {
-        console.log(`Creating new branch ${newBranch} from ${baseBranch}`);
-        await $`git checkout --no-track -b ${newBranch} origin/${baseBranch}`;
+        console.log(`Creating new branch ${branchName} from ${baseBranch}`);
+        await $`git checkout --no-track -b ${branchName} origin/${baseBranch}`;
 
-        console.log(`✓ Successfully created and checked out new branch: ${newBranch}`);
+        console.log(`✓ Successfully created and checked out new branch: ${branchName}`);
 
         return {
             baseBranch: baseBranch,
-            workingBranch: newBranch,
+            workingBranch: branchName,
             isNewBranch: true,
             prBaseBranch,
             headSha
         };
     } catch (error) {
-        console.error(`❌ Failed to create branch "${newBranch}" from "${baseBranch}":`, error);
+        console.error(`❌ Failed to create branch "${branchName}" from "${baseBranch}":`, error);
         throw new Error(
-            `❌ Failed to create working branch "${newBranch}" from base branch "${baseBranch}". ` +
+            `❌ Failed to create working branch "${branchName}" from base branch "${baseBranch}". ` +
             `This could be due to:\n` +
             `• Base branch "${baseBranch}" does not exist in the repository\n` +
             `• Insufficient permissions to fetch from the repository\n` +
@@ -123,6 +123,46 @@ async function createNewBranch(baseBranch: string, branchName: string, prBaseBra
     }
 }
 
+async function findPullRequestToContinue(context: JunieExecutionContext, octokit: Octokits): Promise<IssuePullRequest | undefined> {
+    try {
+        return await findIssuePullRequest(octokit.rest, context);
+    } catch (error) {
+        console.warn("Failed to look up an existing Junie PR for the issue, creating a new branch:", error);
+        return undefined;
+    }
+}
+
+/**
+ * Checks out the branch of the open PR created by a previous run for the same issue,
+ * so the changes are committed to it instead of opening another PR
+ */
+async function checkoutIssuePullRequestBranch(pr: IssuePullRequest, fetchDepth?: number): Promise<BranchInfo> {
+    console.log(`Continuing on branch ${pr.headRef} of the existing PR #${pr.number}`);
+    await ensureBranchHistory(pr.headRef, fetchDepth);
+
+    try {
+        await $`git checkout -B ${pr.headRef} origin/${pr.headRef}`;
+    } catch (error) {
+        throw new Error(
+            `❌ Failed to checkout branch "${pr.headRef}" of the existing PR #${pr.number}. ` +
+            `This could be due to:\n` +
+            `• Branch "${pr.headRef}" was deleted while the workflow was running\n` +
+            `• Git authentication problems\n` +
+            `Set reuse_issue_branch to false to always create a new branch.\n` +
+            `Original error: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+    console.log(`✓ Successfully checked out branch of PR #${pr.number}`);
+
+    return {
+        baseBranch: pr.baseRef,
+        workingBranch: pr.headRef,
+        isNewBranch: false,
+        headSha: pr.headSha,
+        existingPrUrl: pr.url,
+    };
+}
+
 async function prepareWorkingBranchForJunie(context: JunieExecutionContext, octokit: Octokits): Promise<BranchInfo> {
     let baseBranch = context.inputs.baseBranch || context.payload.repository.default_branch
     let prBaseBranch: string | undefined;
@@ -130,7 +170,7 @@ async function prepareWorkingBranchForJunie(context: JunieExecutionContext, octo
     const entityNumber = context.entityNumber;
     const isPR = context.isPR;
     const createNewBranchForPR = context.inputs.createNewBranchForPR;
-    const fetchDepth = context.inputs.resolveConflicts || isReviewOrCommentHasResolveConflictsTrigger(context) ? undefined : 20
+    const fetchDepth = context.inputs.resolveConflicts || hasJunieCommand(context, "resolve-conflicts") ? undefined : 20
 
     if (isPR && entityNumber) {
         let sourceBranch: string
@@ -173,7 +213,8 @@ async function prepareWorkingBranchForJunie(context: JunieExecutionContext, octo
         console.log(`Base branch: ${baseBranch}`);
         console.log(`Target branch: ${sourceBranch}`);
 
-        const useExistingBranch = shouldUseExistingPRBranch(
+        // Fixes for failing checks always go to the PR branch, so the checks run again on the PR
+        const useExistingBranch = isFixFailingChecksRun(context) || shouldUseExistingPRBranch(
             context.inputs.silentMode,
             createNewBranchForPR,
             context.actor,
@@ -220,9 +261,17 @@ async function prepareWorkingBranchForJunie(context: JunieExecutionContext, octo
         console.log(`Push event detected, base branch: ${baseBranch}`);
     }
 
-    if (!context.inputs.silentMode) {
+    if (!context.inputs.silentMode && !isPR && context.inputs.reuseIssueBranch) {
+        const issuePullRequest = await findPullRequestToContinue(context, octokit);
+        if (issuePullRequest) {
+            return await checkoutIssuePullRequestBranch(issuePullRequest, fetchDepth);
+        }
+    }
+
+    // Junie only replies in discussions, so they work on the base branch like silent mode
+    if (!context.inputs.silentMode && !isDiscussionRelatedEvent(context)) {
         const entityType = isPR ? "pr" : entityNumber ? "issue" : "run";
-        const branchName = `${WORKING_BRANCH_PREFIX}${entityType}${entityNumber ? `-${entityNumber}` : ""}-${context.runId}`;
+        const branchName = await generateWorkingBranchName(context, entityType);
 
         return await createNewBranch(baseBranch, branchName, prBaseBranch, headSha)
     }
@@ -283,7 +332,7 @@ export async function ensureBranchHistory(branch: string, depth?: number) {
  * Sets up the working branch for Junie to make changes.
  *
  * This is the main entry point for branch management. It handles different scenarios:
- * - Issues: Creates new branch from base (e.g., "junie/issue-123")
+ * - Issues: Continues on the branch of an open Junie PR for the issue, or creates new branch from base (e.g., "junie/issue-123")
  * - PRs: Uses existing PR branch or creates new one based on settings
  * - Push events: Uses the pushed branch as base
  *
@@ -301,6 +350,9 @@ export async function initializeJunieWorkspace(octokit: Octokits, context: Junie
     core.setOutput(OUTPUT_VARS.BASE_BRANCH, branchInfo.baseBranch);
     core.setOutput(OUTPUT_VARS.WORKING_BRANCH, branchInfo.workingBranch);
     core.setOutput(OUTPUT_VARS.IS_NEW_BRANCH, branchInfo.isNewBranch.toString());
+    if (branchInfo.existingPrUrl) {
+        core.setOutput(OUTPUT_VARS.EXISTING_PR_URL, branchInfo.existingPrUrl);
+    }
 
     return branchInfo;
 }
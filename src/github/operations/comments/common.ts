@@ -1,5 +1,10 @@
 import {GITHUB_SERVER_URL} from "../../api/config";
-import {createJunieCommentMarker, INIT_COMMENT_BODY} from "../../../constants/github";
+import {
+    createJunieCommentMarker,
+    createReviewedShaMarker,
+    INIT_COMMENT_BODY,
+    REVIEWED_SHA_MARKER_REGEXP
+} from "../../../constants/github";
 
 export function createJobRunLink(
     owner: string,
@@ -54,3 +59,24 @@ export function hasJunieMarker(body: string, workflowName: string): boolean {
     const marker = createJunieCommentMarker(workflowName);
     return body.includes(marker);
 }
+
+/**
+ * Adds the reviewed head SHA marker to the comment body, replacing a previously stored one.
+ *
+ * @param body - Comment body text
+ * @param sha - Head commit SHA of the reviewed Pull Request
+ */
+export function addReviewedShaMarker(body: string, sha: string): string {
+    const bodyWithoutMarker = body.replace(REVIEWED_SHA_MARKER_REGEXP, '').trimEnd();
+    return `${bodyWithoutMarker}\n${createReviewedShaMarker(sha)}`;
+}
+
+/**
+ * Extracts the reviewed head SHA stored in the comment body.
+ *
+ * @param body - Comment body text
+ * @returns Reviewed SHA or `undefined` if the comment doesn't contain the marker
+ */
+export function extractReviewedSha(body: string): string | undefined {
+    return REVIEWED_SHA_MARKER_REGEXP.exec(body)?.[1];
+}
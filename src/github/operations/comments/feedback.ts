@@ -1,8 +1,16 @@
 #!/usr/bin/env bun
 
 import * as core from "@actions/core";
-import {addJunieMarker, createCommentBody, createJobRunLink, hasJunieMarker} from "./common";
 import {
+    addJunieMarker,
+    addReviewedShaMarker,
+    createCommentBody,
+    createJobRunLink,
+    hasJunieMarker
+} from "./common";
+import {
+    isDiscussionCommentEvent,
+    isDiscussionRelatedEvent,
     isIssueCommentEvent,
     isJiraWorkflowDispatchEvent,
     isPullRequestReviewCommentEvent,
@@ -15,15 +23,37 @@ import {GITHUB_SERVER_URL} from "../../api/config";
 import {OUTPUT_VARS} from "../../../constants/environment";
 import {
     COMMIT_PUSHED_FEEDBACK_COMMENT_TEMPLATE,
+    EXISTING_PR_UPDATED_FEEDBACK_COMMENT_TEMPLATE,
+    VERIFICATION_FAILED_PR_STATE_FEEDBACK_COMMENT_TEMPLATE,
+    PROTECTED_PATHS_REVERTED_FEEDBACK_COMMENT_TEMPLATE,
+    PR_SETTINGS_FAILED_FEEDBACK_COMMENT_TEMPLATE,
+    AUTO_MERGE_ENABLED_FEEDBACK_COMMENT_TEMPLATE,
+    AUTO_MERGE_DISABLED_FEEDBACK_COMMENT_TEMPLATE,
     ERROR_FEEDBACK_COMMENT_TEMPLATE,
     MANUALLY_PR_CREATE_FEEDBACK_COMMENT_TEMPLATE,
     PR_CREATED_FEEDBACK_COMMENT_TEMPLATE, SUCCESS_FEEDBACK_COMMENT,
-    SUCCESS_FEEDBACK_COMMENT_WITH_RESULT
+    SUCCESS_FEEDBACK_COMMENT_WITH_RESULT,
+    UNKNOWN_COMMAND_COMMENT_TEMPLATE,
+    FIX_ATTEMPTS_EXHAUSTED_COMMENT_TEMPLATE,
+    createFixAttemptsExhaustedMarker
 } from "../../../constants/github";
 import type {FailureFeedbackData, FinishFeedbackData, SuccessFeedbackData} from "./types";
 import {getJiraClient} from "../../jira/client";
+import {
+    ADD_DISCUSSION_COMMENT_MUTATION,
+    ADD_REACTION_MUTATION,
+    AddDiscussionCommentMutationResponse,
+    DISCUSSION_COMMENT_REPLY_TO_QUERY,
+    DISCUSSION_COMMENTS_QUERY,
+    DiscussionCommentReplyToQueryResponse,
+    DiscussionCommentsQueryResponse,
+    UPDATE_DISCUSSION_COMMENT_MUTATION
+} from "../../api/queries";
 import {convertMarkdownToADF} from "../../jira/markdown-to-jira";
 
+// REST comments are identified by numeric IDs, discussion comments by GraphQL node IDs
+type CommentId = number | string;
+
 /**
  * Adds a thumbs up reaction to the trigger comment/review that started the workflow.
  *
@@ -76,6 +106,14 @@ async function addThumbsUpToTriggerComment(
                 content: reaction,
             });
             console.log(`✓ Added thumbs up reaction to comment ${commentId}`);
+        } else if (isDiscussionCommentEvent(context)) {
+            const commentNodeId = context.payload.comment.node_id;
+            console.log(`Discussion comment detected - adding thumbs (comment node ID: ${commentNodeId})`);
+            await octokit.graphql(ADD_REACTION_MUTATION, {
+                subjectId: commentNodeId,
+                content: "THUMBS_UP",
+            });
+            console.log(`✓ Added thumbs up reaction to discussion comment ${commentNodeId}`);
         } else if (isPullRequestReviewCommentEvent(context)) {
             const commentId = context.payload.comment.id;
             console.log(`Pull Request review comment detected - adding thumbs (review comment ID: ${commentId})`);
@@ -109,7 +147,7 @@ async function addThumbsUpToTriggerComment(
 async function findExistingJunieComment(
     octokit: Octokit,
     context: JunieExecutionContext,
-): Promise<number | undefined> {
+): Promise<CommentId | undefined> {
     // entityNumber is required for all comment searches
     // It's checked in writeInitialFeedbackComment, but we verify here too for safety
     if (!context.entityNumber) {
@@ -123,7 +161,16 @@ async function findExistingJunieComment(
         let comments;
 
         // Different APIs based on context type
-        if (isPullRequestReviewCommentEvent(context)) {
+        if (isDiscussionRelatedEvent(context)) {
+            // Discussion comments are only available via GraphQL, search both comments and replies
+            const response = await octokit.graphql<DiscussionCommentsQueryResponse>(DISCUSSION_COMMENTS_QUERY, {
+                owner: ownerLogin,
+                repo: name,
+                number: context.entityNumber,
+            });
+            comments = response.repository.discussion.comments.nodes
+                .flatMap(comment => [comment, ...comment.replies.nodes]);
+        } else if (isPullRequestReviewCommentEvent(context)) {
             // For review comments (code-level comments), search within the specific thread
             const parentCommentId = context.payload.comment.id;
             console.log(`Searching for Junie comment in review thread ${parentCommentId}`);
@@ -189,25 +236,30 @@ async function findExistingJunieComment(
 async function updateExistingComment(
     octokit: Octokit,
     context: JunieExecutionContext,
-    commentId: number,
+    commentId: CommentId,
     body: string,
     ownerLogin: string,
     repoName: string,
 ): Promise<void> {
     console.log(`Updating existing comment ${commentId} with new content`);
 
-    if (isPullRequestReviewCommentEvent(context)) {
+    if (isDiscussionRelatedEvent(context)) {
+        await octokit.graphql(UPDATE_DISCUSSION_COMMENT_MUTATION, {
+            commentId: String(commentId),
+            body: body,
+        });
+    } else if (isPullRequestReviewCommentEvent(context)) {
         await octokit.rest.pulls.updateReviewComment({
             owner: ownerLogin,
             repo: repoName,
-            comment_id: commentId,
+            comment_id: Number(commentId),
             body: body,
         });
     } else {
         await octokit.rest.issues.updateComment({
             owner: ownerLogin,
             repo: repoName,
-            comment_id: commentId,
+            comment_id: Number(commentId),
             body: body,
         });
     }
@@ -256,7 +308,7 @@ export async function postJunieWorkingStatusComment(
     await addThumbsUpToTriggerComment(octokit, context);
 
     try {
-        let initCommentId: number | undefined;
+        let initCommentId: CommentId | undefined;
 
         // Check if we should use single comment mode
         if (context.inputs.useSingleComment) {
@@ -300,6 +352,73 @@ export async function postJunieWorkingStatusComment(
     }
 }
 
+/**
+ * Replies to the trigger comment when it contains a command Junie doesn't know,
+ * listing the available commands instead of starting the run.
+ *
+ * @param octokit - Octokit REST client for GitHub API
+ * @param context - GitHub context with the parsed unknown command
+ */
+export async function postUnknownCommandComment(
+    octokit: Octokit,
+    context: JunieExecutionContext,
+): Promise<void> {
+    if (context.inputs.silentMode || !context.command) {
+        return;
+    }
+
+    const {owner, name} = context.payload.repository;
+    const body = UNKNOWN_COMMAND_COMMENT_TEMPLATE(context.command.rawName, context.inputs.triggerPhrase);
+
+    try {
+        await createNewComment(octokit, context, body, owner.login, name);
+    } catch (error) {
+        // Don't fail the workflow if we can't reply
+        console.warn('Failed to post unknown command comment:', error);
+    }
+}
+
+/**
+ * Tells the PR participants that Junie stopped trying to fix the failing checks
+ * because the maximum number of consecutive attempts was reached.
+ * The comment is posted once per head commit, later failures of the same commit don't repeat it.
+ *
+ * @param octokit - Octokit REST client for GitHub API
+ * @param context - GitHub context of the workflow_run / check_suite event
+ * @param maxAttempts - Configured maximum number of consecutive fix attempts
+ * @param headSha - PR head commit the failed checks ran for
+ */
+export async function postFixAttemptsExhaustedComment(
+    octokit: Octokit,
+    context: JunieExecutionContext,
+    maxAttempts: number,
+    headSha: string,
+): Promise<void> {
+    if (context.inputs.silentMode || !context.entityNumber) {
+        return;
+    }
+
+    const {owner, name} = context.payload.repository;
+    const marker = createFixAttemptsExhaustedMarker(headSha);
+
+    try {
+        const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+            owner: owner.login,
+            repo: name,
+            issue_number: context.entityNumber,
+            per_page: 100,
+        });
+        if (comments.some(comment => comment.body?.includes(marker))) {
+            console.log(`Fix attempts exhausted comment already posted for ${headSha}`);
+            return;
+        }
+        await createNewComment(octokit, context, `${FIX_ATTEMPTS_EXHAUSTED_COMMENT_TEMPLATE(maxAttempts)}\n${marker}`, owner.login, name);
+    } catch (error) {
+        // Don't fail the workflow if we can't notify about exhausted attempts
+        console.warn('Failed to post fix attempts exhausted comment:', error);
+    }
+}
+
 /**
  * Creates a new comment on the issue/PR.
  * Helper function to avoid code duplication.
@@ -311,11 +430,24 @@ async function createNewComment(
     body: string,
     ownerLogin: string,
     repoName: string,
-): Promise<number | undefined> {
+): Promise<CommentId | undefined> {
     let response;
 
     // Different comment APIs based on context type
-    if (isPullRequestReviewCommentEvent(context)) {
+    if (isDiscussionRelatedEvent(context)) {
+        // For discussions, reply in the thread of the trigger comment (or top-level for the discussion itself)
+        const replyToId = isDiscussionCommentEvent(context)
+            ? await getDiscussionThreadId(octokit, context.payload.comment.node_id, context.payload.comment.parent_id)
+            : undefined;
+        const discussionResponse = await octokit.graphql<AddDiscussionCommentMutationResponse>(ADD_DISCUSSION_COMMENT_MUTATION, {
+            discussionId: context.payload.discussion.node_id,
+            body: body,
+            replyToId,
+        });
+        const commentId = discussionResponse.addDiscussionComment.comment.id;
+        console.log(`Created discussion comment with ID: ${commentId}`);
+        return commentId;
+    } else if (isPullRequestReviewCommentEvent(context)) {
         // For review comments (code-level comments), create a reply to the review comment
         response = await octokit.rest.pulls.createReplyForReviewComment({
             owner: ownerLogin,
@@ -345,6 +477,25 @@ async function createNewComment(
 }
 
 
+/**
+ * Resolves the top-level comment of a discussion thread.
+ * Discussions allow only one level of nesting, so replies to a reply must target its parent.
+ */
+async function getDiscussionThreadId(
+    octokit: Octokit,
+    commentNodeId: string,
+    parentId: number | null,
+): Promise<string> {
+    if (!parentId) {
+        return commentNodeId;
+    }
+
+    const {node} = await octokit.graphql<DiscussionCommentReplyToQueryResponse>(DISCUSSION_COMMENT_REPLY_TO_QUERY, {
+        commentId: commentNodeId,
+    });
+    return node?.replyTo?.id ?? commentNodeId;
+}
+
 /**
  * Updates the initial feedback comment with the final Junie result.
  *
@@ -398,7 +549,8 @@ export async function postJunieCompletionComment(
         return;
     }
 
-    const initCommentId = +data.initCommentId;
+    // Discussion comments are identified by GraphQL node IDs, so the ID is normalized per API on update
+    const initCommentId = data.initCommentId;
 
     console.log(`Updating feedback comment ${initCommentId}`);
 
@@ -478,13 +630,23 @@ function getSuccessBody(repoFullName: string, successData: SuccessFeedbackData)
         case "COMMIT_CHANGES":
             console.log(`Commit pushed to current branch: ${successData.commitSHA}`);
             result = COMMIT_PUSHED_FEEDBACK_COMMENT_TEMPLATE(successData.commitSHA!, successData.junieTitle!, successData.junieSummary!);
+            if (successData.prLink) {
+                result += EXISTING_PR_UPDATED_FEEDBACK_COMMENT_TEMPLATE(successData.prLink);
+            }
             break;
         case "PUSH":
             console.log('Unpushed commits were pushed to remote');
             result = SUCCESS_FEEDBACK_COMMENT_WITH_RESULT(successData.junieTitle || 'Changes pushed', successData.junieSummary || 'Unpushed commits have been pushed to the remote branch');
+            if (successData.prLink) {
+                result += EXISTING_PR_UPDATED_FEEDBACK_COMMENT_TEMPLATE(successData.prLink);
+            }
             break;
         case "CREATE_PR":
-            if (successData.prLink) {
+            if (successData.prLink && successData.prUpdated) {
+                console.log(`Existing PR was updated: ${successData.prLink}`);
+                result = SUCCESS_FEEDBACK_COMMENT_WITH_RESULT(successData.junieTitle || 'Task completed', successData.junieSummary || 'No additional details');
+                result += EXISTING_PR_UPDATED_FEEDBACK_COMMENT_TEMPLATE(successData.prLink);
+            } else if (successData.prLink) {
                 console.log(`PR was created: ${successData.prLink}`);
                 result = PR_CREATED_FEEDBACK_COMMENT_TEMPLATE(successData.prLink);
             } else {
@@ -499,10 +661,36 @@ function getSuccessBody(repoFullName: string, successData: SuccessFeedbackData)
             break;
     }
 
+    if (successData.prWarnings?.length) {
+        result += PR_SETTINGS_FAILED_FEEDBACK_COMMENT_TEMPLATE(successData.prWarnings);
+    }
+    if (successData.autoMergeMethod) {
+        result += AUTO_MERGE_ENABLED_FEEDBACK_COMMENT_TEMPLATE(successData.autoMergeMethod);
+    }
+    if (successData.autoMergeDisabledReason) {
+        result += AUTO_MERGE_DISABLED_FEEDBACK_COMMENT_TEMPLATE(successData.autoMergeDisabledReason);
+    }
+
+    if (successData.blockedPaths?.length) {
+        result += PROTECTED_PATHS_REVERTED_FEEDBACK_COMMENT_TEMPLATE(successData.blockedPaths);
+    }
+
+    if (successData.verificationReport) {
+        result += `\n\n${successData.verificationReport}`;
+    }
+    // A ready PR of a repository without draft PRs is already listed in the PR warnings
+    if (successData.actionToDo === "CREATE_PR" && successData.prLink && successData.verificationFailed
+        && (successData.prDraft || successData.prUpdated)) {
+        result += VERIFICATION_FAILED_PR_STATE_FEEDBACK_COMMENT_TEMPLATE(!!successData.prDraft, !!successData.prUpdated);
+    }
+
     return result;
 }
 
 function getSuccessBodyWithMarker(repoFullName: string, successData: SuccessFeedbackData, workflowName: string): string | undefined {
-    const result = getSuccessBody(repoFullName, successData);
+    let result = getSuccessBody(repoFullName, successData);
+    if (result && successData.reviewedSha) {
+        result = addReviewedShaMarker(result, successData.reviewedSha);
+    }
     return result ? addJunieMarker(result, workflowName) : undefined;
 }
\ No newline at end of file
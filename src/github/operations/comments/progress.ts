@@ -0,0 +1,132 @@
+import type {Octokit} from "@octokit/rest";
+import {PROGRESS_COMMENT_SECTION_TEMPLATE} from "../../../constants/github";
+import {UPDATE_DISCUSSION_COMMENT_MUTATION} from "../../api/queries";
+import {isDiscussionRelatedEvent, isPullRequestReviewCommentEvent, JunieExecutionContext} from "../../context";
+import {createCommentBody, createJobRunLink} from "./common";
+
+// Comment APIs differ per event: review comment replies and discussion comments have their own endpoints
+export type ProgressCommentKind = "issue" | "review" | "discussion";
+
+export interface ProgressComment {
+    owner: string;
+    repo: string;
+    // REST comments are identified by numeric IDs, discussion comments by GraphQL node IDs
+    commentId: number | string;
+    kind: ProgressCommentKind;
+    // Body of the working comment, the progress section is appended to it
+    body: string;
+}
+
+export type ProgressReportResult = "updated" | "queued";
+
+export interface ProgressReporter {
+    report(status: string): Promise<ProgressReportResult>;
+    // Drops a queued update, e.g. when Junie finished and the completion comment is about to be posted
+    cancel(): void;
+}
+
+/**
+ * Resolves which API the working comment of the event is updated with
+ */
+export function getProgressCommentKind(context: JunieExecutionContext): ProgressCommentKind {
+    if (isDiscussionRelatedEvent(context)) {
+        return "discussion";
+    }
+    return isPullRequestReviewCommentEvent(context) ? "review" : "issue";
+}
+
+/**
+ * Describes the working comment posted by postJunieWorkingStatusComment, for the progress MCP server
+ */
+export function createProgressComment(context: JunieExecutionContext, commentId: number | string): ProgressComment {
+    const {owner, name} = context.payload.repository;
+    return {
+        owner: owner.login,
+        repo: name,
+        commentId,
+        kind: getProgressCommentKind(context),
+        body: createCommentBody(createJobRunLink(owner.login, name, context.runId), context.workflow),
+    };
+}
+
+/**
+ * Appends the progress section to the working comment body.
+ * The completion comment replaces the whole body, so the progress section disappears once Junie finishes.
+ */
+export function createProgressCommentBody(initialBody: string, status: string, date: Date = new Date()): string {
+    const updatedAt = `${date.toISOString().slice(11, 19)} UTC`;
+    return `${initialBody}\n\n${PROGRESS_COMMENT_SECTION_TEMPLATE(status.trim(), updatedAt)}`;
+}
+
+/**
+ * Replaces the body of the working comment
+ */
+export async function updateProgressComment(octokit: Octokit, comment: ProgressComment, body: string): Promise<void> {
+    const {owner, repo, commentId} = comment;
+    if (comment.kind === "discussion") {
+        await octokit.graphql(UPDATE_DISCUSSION_COMMENT_MUTATION, {commentId: String(commentId), body});
+    } else if (comment.kind === "review") {
+        await octokit.rest.pulls.updateReviewComment({owner, repo, comment_id: Number(commentId), body});
+    } else {
+        await octokit.rest.issues.updateComment({owner, repo, comment_id: Number(commentId), body});
+    }
+}
+
+/**
+ * Throttles progress updates to one per interval.
+ * A status reported within the interval is queued and posted when the interval ends,
+ * a newer status replaces the queued one, so the latest status is always shown.
+ *
+ * @param update - Posts the status, failures of queued updates are logged and don't stop later updates
+ */
+export function createProgressReporter(
+    update: (status: string) => Promise<void>,
+    intervalMs: number,
+    now: () => number = Date.now,
+): ProgressReporter {
+    let lastUpdateAt: number | undefined;
+    let queuedStatus: string | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const post = async (status: string) => {
+        lastUpdateAt = now();
+        await update(status);
+    };
+
+    const postQueued = async () => {
+        timer = undefined;
+        const status = queuedStatus;
+        queuedStatus = undefined;
+        if (status === undefined) {
+            return;
+        }
+        try {
+            await post(status);
+        } catch (error) {
+            // stdout is the MCP transport, so logs go to stderr
+            console.error('Failed to post queued progress update:', error);
+        }
+    };
+
+    return {
+        async report(status: string) {
+            const elapsed = lastUpdateAt === undefined ? intervalMs : now() - lastUpdateAt;
+            if (elapsed >= intervalMs && !timer) {
+                await post(status);
+                return "updated";
+            }
+            queuedStatus = status;
+            if (!timer) {
+                timer = setTimeout(postQueued, intervalMs - elapsed);
+                // A queued update must not keep the server alive after Junie exits
+                timer.unref?.();
+            }
+            return "queued";
+        },
+        cancel() {
+            clearTimeout(timer);
+            timer = undefined;
+            queuedStatus = undefined;
+        },
+    };
+}
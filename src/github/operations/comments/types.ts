@@ -17,6 +17,23 @@ export interface SuccessFeedbackData {
     junieSummary?: string;
     workingBranch?: string;
     baseBranch?: string;
+    reviewedSha?: string;
+    // Protected paths whose changes were reverted before committing
+    blockedPaths?: string[];
+    // Markdown report of the verification commands
+    verificationReport?: string;
+    // PR settings (labels, reviewers, ...) that could not be applied to the created PR
+    prWarnings?: string[];
+    // The PR link points to an existing PR that was updated instead of a new one
+    prUpdated?: boolean;
+    // The created or updated PR is a draft
+    prDraft?: boolean;
+    // Verification failed, but the changes were pushed
+    verificationFailed?: boolean;
+    // Merge method auto-merge was enabled with for the PR
+    autoMergeMethod?: string;
+    // Why auto-merge enabled by an earlier run was disabled for the PR
+    autoMergeDisabledReason?: string;
 }
 
 export interface FailureFeedbackData {
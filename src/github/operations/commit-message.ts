@@ -0,0 +1,188 @@
+import {GITHUB_SERVER_URL} from "../api/config";
+import {COMMIT_MESSAGE_TEMPLATE} from "../../constants/github";
+import {
+    JunieExecutionContext,
+    isIssueCommentEvent,
+    isIssuesEvent,
+    isPullRequestEvent,
+    isPullRequestReviewCommentEvent,
+    isPullRequestReviewEvent,
+} from "../context";
+import {getJiraKey} from "./branch-name";
+
+export type CommitMessageFormat = "default" | "conventional";
+
+export type CommitMessageConfig = {
+    format: CommitMessageFormat;
+    // Add a Co-authored-by trailer for the actor who triggered Junie
+    coAuthor: boolean;
+    // Add trailers linking the job run, the issue/PR and the Jira issue
+    trailers: boolean;
+};
+
+export const CONVENTIONAL_COMMIT_TYPES = [
+    "feat", "fix", "docs", "style", "refactor", "perf", "test", "build", "ci", "chore", "revert",
+] as const;
+
+export type ConventionalCommitType = (typeof CONVENTIONAL_COMMIT_TYPES)[number];
+
+const DEFAULT_CONVENTIONAL_COMMIT_TYPE: ConventionalCommitType = "chore";
+
+// Common label names, after stripping prefixes like "type:" or "kind/"
+const LABEL_COMMIT_TYPES: Record<string, ConventionalCommitType> = {
+    bug: "fix",
+    bugfix: "fix",
+    fix: "fix",
+    enhancement: "feat",
+    feature: "feat",
+    feat: "feat",
+    documentation: "docs",
+    docs: "docs",
+    refactor: "refactor",
+    refactoring: "refactor",
+    performance: "perf",
+    perf: "perf",
+    test: "test",
+    tests: "test",
+    testing: "test",
+    build: "build",
+    dependencies: "build",
+    ci: "ci",
+    chore: "chore",
+    style: "style",
+};
+
+const COMMAND_COMMIT_TYPES: Record<string, ConventionalCommitType> = {
+    "fix": "fix",
+    "test": "test",
+    "resolve-conflicts": "chore",
+};
+
+// The first word of the title Junie reports describes the kind of change
+const TITLE_VERB_COMMIT_TYPES: Record<string, ConventionalCommitType> = {
+    fix: "fix",
+    fixes: "fix",
+    fixed: "fix",
+    resolve: "fix",
+    add: "feat",
+    adds: "feat",
+    implement: "feat",
+    introduce: "feat",
+    support: "feat",
+    create: "feat",
+    document: "docs",
+    docs: "docs",
+    refactor: "refactor",
+    rename: "refactor",
+    extract: "refactor",
+    simplify: "refactor",
+    optimize: "perf",
+    speed: "perf",
+    test: "test",
+    tests: "test",
+    bump: "build",
+    upgrade: "build",
+};
+
+const CONVENTIONAL_COMMIT_SUBJECT_REGEXP = new RegExp(`^(${CONVENTIONAL_COMMIT_TYPES.join("|")})(\\([^)]+\\))?!?: `);
+const TRAILER_LINE_REGEXP = /^[A-Za-z][A-Za-z0-9-]*: .+$/;
+
+/**
+ * Returns the label names of the issue or PR Junie is working on
+ */
+export function getEntityLabels(context: JunieExecutionContext): string[] {
+    let labels: Array<{ name?: string } | string> | undefined;
+    if (isIssuesEvent(context) || isIssueCommentEvent(context)) {
+        labels = context.payload.issue.labels;
+    } else if (isPullRequestEvent(context) || isPullRequestReviewEvent(context) || isPullRequestReviewCommentEvent(context)) {
+        labels = context.payload.pull_request.labels;
+    }
+    return (labels ?? [])
+        .map(label => typeof label === "string" ? label : label.name ?? "")
+        .filter(Boolean);
+}
+
+function getLabelCommitType(label: string): ConventionalCommitType | undefined {
+    const name = label.toLowerCase().replace(/^(type|kind)\s*[:/]\s*/, "").trim();
+    return LABEL_COMMIT_TYPES[name];
+}
+
+/**
+ * Picks the Conventional Commit type: from the labels first, then the Junie command,
+ * then the first word of the title, falling back to `chore`
+ */
+export function getConventionalCommitType(title: string, labels: string[], commandName?: string): ConventionalCommitType {
+    for (const label of labels) {
+        const type = getLabelCommitType(label);
+        if (type) {
+            return type;
+        }
+    }
+    if (commandName && COMMAND_COMMIT_TYPES[commandName]) {
+        return COMMAND_COMMIT_TYPES[commandName];
+    }
+    const firstWord = title.trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+    return TITLE_VERB_COMMIT_TYPES[firstWord] ?? DEFAULT_CONVENTIONAL_COMMIT_TYPE;
+}
+
+/**
+ * Formats the subject line as `<type>: <description>`. Titles that already follow the convention are kept.
+ */
+export function formatConventionalSubject(type: ConventionalCommitType, title: string): string {
+    const subject = title.split("\n")[0].trim().replace(/\.+$/, "");
+    if (CONVENTIONAL_COMMIT_SUBJECT_REGEXP.test(subject)) {
+        return subject;
+    }
+    // Conventional Commit linters expect a lowercase description, acronyms like "API" are kept
+    const description = /^[A-Z][a-z]/.test(subject) ? subject[0].toLowerCase() + subject.slice(1) : subject;
+    return `${type}: ${description}`;
+}
+
+/**
+ * Appends git trailers to a commit message, joining an existing trailer block at the end of the message
+ */
+export function appendCommitTrailers(commitMessage: string, trailers: Array<[string, string]>): string {
+    if (trailers.length === 0) {
+        return commitMessage;
+    }
+    const trailerLines = trailers.map(([key, value]) => `${key}: ${value}`).join("\n");
+    const message = commitMessage.trimEnd();
+    const lastParagraph = message.split("\n\n").pop()!;
+    const endsWithTrailers = message.includes("\n\n") && lastParagraph.split("\n").every(line => TRAILER_LINE_REGEXP.test(line));
+    return `${message}${endsWithTrailers ? "\n" : "\n\n"}${trailerLines}`;
+}
+
+function getCommitTrailers(context: JunieExecutionContext, config: CommitMessageConfig, issueId: number | undefined, authoredByActor: boolean): Array<[string, string]> {
+    const trailers: Array<[string, string]> = [];
+    if (config.trailers) {
+        const {owner, name} = context.payload.repository;
+        trailers.push(["Junie-Run", `${GITHUB_SERVER_URL}/${owner.login}/${name}/actions/runs/${context.runId}`]);
+        if (issueId) {
+            trailers.push(["Refs", `#${issueId}`]);
+        }
+        const jiraKey = getJiraKey(context);
+        if (jiraKey) {
+            trailers.push(["Jira", jiraKey]);
+        }
+    }
+    // Bots (e.g. scheduled or dependabot triggered runs) aren't credited as co-authors, neither is the author of the commit
+    if (config.coAuthor && !authoredByActor && context.actorEmail && !context.actor.endsWith("[bot]")) {
+        trailers.push(["Co-authored-by", `${context.actor} <${context.actorEmail}>`]);
+    }
+    return trailers;
+}
+
+/**
+ * Builds the message of the commit with Junie's changes in the format configured for the repository
+ *
+ * @param title - Sanitized title of the task reported by Junie
+ * @param issueId - Number of the issue or PR the run was triggered from
+ * @param authoredByActor - The commit is authored by the actor who triggered Junie
+ */
+export function buildCommitMessage(context: JunieExecutionContext, title: string, issueId?: number, authoredByActor: boolean = false): string {
+    const config = context.inputs.config.commit;
+    const message = config.format === "conventional"
+        ? formatConventionalSubject(getConventionalCommitType(title, getEntityLabels(context), context.command?.name), title)
+        : COMMIT_MESSAGE_TEMPLATE(title, issueId);
+    return appendCommitTrailers(message, getCommitTrailers(context, config, issueId, authoredByActor));
+}
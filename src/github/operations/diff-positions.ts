@@ -0,0 +1,172 @@
+import type {Octokit} from "@octokit/rest";
+import {PullRequestRef} from "./pending-review";
+
+export type DiffSide = "LEFT" | "RIGHT";
+
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Lines of a file that can be commented on, as contiguous ranges per diff side.
+ * LEFT contains deleted and context lines (old numbering), RIGHT contains added and context lines (new numbering).
+ */
+export interface FileDiffPositions {
+    LEFT: LineRange[];
+    RIGHT: LineRange[];
+}
+
+/**
+ * Commentable positions of all PR files, by file path.
+ * `null` means the file is part of the PR but GitHub returned no patch (binary or too large), so it can't be validated.
+ */
+export type PullRequestDiffPositions = Map<string, FileDiffPositions | null>;
+
+export interface PositionValidationResult {
+    valid: boolean;
+    error?: string;
+    nearestRange?: LineRange;
+}
+
+const HUNK_HEADER_REGEXP = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+function addLine(ranges: LineRange[], line: number) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === line - 1) {
+        last.end = line;
+    } else {
+        ranges.push({start: line, end: line});
+    }
+}
+
+/**
+ * Parses a unified diff patch of a single file (as returned by the pull request files API)
+ * into ranges of lines that can be commented on. Each hunk produces its own ranges.
+ */
+export function parsePatchPositions(patch: string): FileDiffPositions {
+    const positions: FileDiffPositions = {LEFT: [], RIGHT: []};
+    let oldLine = 0;
+    let newLine = 0;
+    let inHunk = false;
+
+    for (const line of patch.split("\n")) {
+        const hunkHeader = line.match(HUNK_HEADER_REGEXP);
+        if (hunkHeader) {
+            oldLine = parseInt(hunkHeader[1], 10);
+            newLine = parseInt(hunkHeader[2], 10);
+            inHunk = true;
+            // Start new ranges so that lines of different hunks are never merged
+            positions.LEFT.push({start: oldLine, end: oldLine - 1});
+            positions.RIGHT.push({start: newLine, end: newLine - 1});
+            continue;
+        }
+        if (!inHunk || line.startsWith("\\")) {
+            // Skip "\ No newline at end of file" markers
+            continue;
+        }
+
+        if (line.startsWith("+")) {
+            addLine(positions.RIGHT, newLine++);
+        } else if (line.startsWith("-")) {
+            addLine(positions.LEFT, oldLine++);
+        } else if (line.startsWith(" ")) {
+            addLine(positions.LEFT, oldLine++);
+            addLine(positions.RIGHT, newLine++);
+        }
+    }
+
+    // Drop placeholders of hunks without lines on that side (e.g. pure additions on LEFT)
+    positions.LEFT = positions.LEFT.filter(range => range.end >= range.start);
+    positions.RIGHT = positions.RIGHT.filter(range => range.end >= range.start);
+    return positions;
+}
+
+/**
+ * Fetches all files of the pull request and parses their patches
+ */
+export async function fetchPullRequestDiffPositions(octokit: Octokit, pr: PullRequestRef): Promise<PullRequestDiffPositions> {
+    const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+        owner: pr.owner,
+        repo: pr.repo,
+        pull_number: pr.prNumber,
+        per_page: 100,
+    });
+
+    const positions: PullRequestDiffPositions = new Map();
+    for (const file of files) {
+        positions.set(file.filename, file.patch ? parsePatchPositions(file.patch) : null);
+    }
+    return positions;
+}
+
+function distanceToRange(line: number, range: LineRange): number {
+    if (line < range.start) {
+        return range.start - line;
+    }
+    return line > range.end ? line - range.end : 0;
+}
+
+/**
+ * Finds the commentable range closest to the given line
+ */
+export function findNearestRange(ranges: LineRange[], line: number): LineRange | undefined {
+    let nearest: LineRange | undefined;
+    for (const range of ranges) {
+        if (!nearest || distanceToRange(line, range) < distanceToRange(line, nearest)) {
+            nearest = range;
+        }
+    }
+    return nearest;
+}
+
+function formatRange(range: LineRange): string {
+    return range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`;
+}
+
+/**
+ * Checks that a (multi-line) comment targets lines of a single hunk on the given diff side.
+ * When the position misses, the nearest valid range is returned so the comment can be moved there.
+ */
+export function validateCommentPosition(
+    positions: PullRequestDiffPositions,
+    filePath: string,
+    line: number,
+    side: DiffSide,
+    startLine?: number,
+): PositionValidationResult {
+    if (!positions.has(filePath)) {
+        const changedFiles = [...positions.keys()];
+        return {
+            valid: false,
+            error: `File '${filePath}' is not part of the PR changes. Changed files: ${changedFiles.slice(0, 20).join(", ")}${changedFiles.length > 20 ? ", ..." : ""}`,
+        };
+    }
+
+    const filePositions = positions.get(filePath);
+    if (!filePositions) {
+        // No patch available, let GitHub decide
+        return {valid: true};
+    }
+
+    const ranges = filePositions[side];
+    const firstLine = startLine ?? line;
+    if (ranges.some(range => range.start <= firstLine && line <= range.end)) {
+        return {valid: true};
+    }
+
+    const nearestRange = findNearestRange(ranges, firstLine);
+    if (!nearestRange) {
+        return {
+            valid: false,
+            error: `'${filePath}' has no commentable lines on the ${side} side of the diff. ${side === "LEFT" ? "Use RIGHT for added files." : "Use LEFT for deleted files."}`,
+        };
+    }
+
+    const requested = startLine ? `Lines ${startLine}-${line}` : `Line ${line}`;
+    return {
+        valid: false,
+        error: `${requested} of '${filePath}' ${startLine ? "are" : "is"} not within a single hunk on the ${side} side of the diff. Nearest valid range: ${formatRange(nearestRange)}. Valid ranges: ${ranges.map(formatRange).join(", ")}`,
+        nearestRange,
+    };
+}
@@ -0,0 +1,124 @@
+#!/usr/bin/env bun
+
+import * as core from "@actions/core";
+import {
+    AutomationEventContext,
+    JunieExecutionContext,
+    isCheckSuiteEvent,
+    isWorkflowRunEvent,
+} from "../context";
+import type {Octokits} from "../api/client";
+import {OUTPUT_VARS} from "../../constants/environment";
+import {FIX_ATTEMPT_COMMIT_TRAILER} from "../../constants/github";
+import {appendCommitTrailers} from "./commit-message";
+import {postFixAttemptsExhaustedComment} from "./comments/feedback";
+
+/**
+ * Checks whether this run is a built-in "fix failing checks" run
+ * (enabled via `fix_failing_checks` and triggered by a workflow_run or check_suite event)
+ */
+export function isFixFailingChecksRun(context: JunieExecutionContext): context is AutomationEventContext {
+    return context.inputs.fixFailingChecks && (isWorkflowRunEvent(context) || isCheckSuiteEvent(context));
+}
+
+/**
+ * Returns the conclusion and the head commit of the workflow run or check suite that triggered the workflow
+ */
+export function getCompletedChecksInfo(context: JunieExecutionContext): { conclusion: string | null, headSha: string } | undefined {
+    if (isWorkflowRunEvent(context)) {
+        return {conclusion: context.payload.workflow_run.conclusion, headSha: context.payload.workflow_run.head_sha};
+    }
+    if (isCheckSuiteEvent(context)) {
+        return {conclusion: context.payload.check_suite.conclusion, headSha: context.payload.check_suite.head_sha};
+    }
+    return undefined;
+}
+
+/**
+ * Counts fix attempts pushed by Junie on top of the branch.
+ * Only the most recent consecutive attempts count: any other commit (e.g. pushed by a human) resets the streak.
+ *
+ * @param commitMessages - Commit messages ordered from the newest to the oldest
+ */
+export function countConsecutiveFixAttempts(commitMessages: string[]): number {
+    const trailerRegex = new RegExp(`^${FIX_ATTEMPT_COMMIT_TRAILER}:`, 'm');
+    let attempts = 0;
+    for (const message of commitMessages) {
+        if (!trailerRegex.test(message)) {
+            break;
+        }
+        attempts++;
+    }
+    return attempts;
+}
+
+/**
+ * Appends the fix attempt trailer to a commit message
+ */
+export function addFixAttemptTrailer(commitMessage: string, attempt: number): string {
+    return appendCommitTrailers(commitMessage, [[FIX_ATTEMPT_COMMIT_TRAILER, String(attempt)]]);
+}
+
+/**
+ * Decides whether Junie should try to fix the failing checks of the linked pull request.
+ *
+ * Junie only runs when:
+ * - the workflow run / check suite concluded with `failure`
+ * - it belongs to an open PR from this repository and was run for the current PR head
+ * - the number of consecutive fix attempts is below `max_fix_attempts`
+ *
+ * The number of the upcoming attempt is exported as an output so the commit can be marked with it.
+ */
+export async function shouldFixFailingChecks(context: JunieExecutionContext, octokit: Octokits): Promise<boolean> {
+    const checksInfo = getCompletedChecksInfo(context);
+    if (!checksInfo || checksInfo.conclusion !== "failure") {
+        console.log(`Checks did not fail (conclusion: ${checksInfo?.conclusion}), nothing to fix`);
+        return false;
+    }
+
+    if (!context.isPR || !context.entityNumber) {
+        console.log('Failed checks are not linked to a pull request, nothing to fix');
+        return false;
+    }
+
+    const {owner, name} = context.payload.repository;
+    const {data: pr} = await octokit.rest.pulls.get({
+        owner: owner.login,
+        repo: name,
+        pull_number: context.entityNumber,
+    });
+
+    if (pr.state !== "open") {
+        console.log(`PR #${pr.number} is ${pr.state}, skipping fix of failing checks`);
+        return false;
+    }
+
+    if (pr.head.repo?.full_name !== pr.base.repo.full_name) {
+        console.log(`PR #${pr.number} comes from a fork, Junie can't push fixes to it`);
+        return false;
+    }
+
+    if (pr.head.sha !== checksInfo.headSha) {
+        console.log(`Failed checks ran for ${checksInfo.headSha}, but PR #${pr.number} head is ${pr.head.sha} - skipping outdated failure`);
+        return false;
+    }
+
+    const commits = await octokit.rest.paginate(octokit.rest.pulls.listCommits, {
+        owner: owner.login,
+        repo: name,
+        pull_number: pr.number,
+        per_page: 100,
+    });
+    const attempts = countConsecutiveFixAttempts(commits.map(commit => commit.commit.message).reverse());
+    const maxAttempts = context.inputs.maxFixAttempts;
+    console.log(`Consecutive fix attempts for PR #${pr.number}: ${attempts}/${maxAttempts}`);
+
+    if (attempts >= maxAttempts) {
+        console.log(`Maximum number of fix attempts reached for PR #${pr.number}`);
+        await postFixAttemptsExhaustedComment(octokit.rest, context, maxAttempts, pr.head.sha);
+        return false;
+    }
+
+    core.setOutput(OUTPUT_VARS.FIX_ATTEMPT, String(attempts + 1));
+    return true;
+}
@@ -0,0 +1,77 @@
+import type {Octokit} from "@octokit/rest";
+import {createIssuePullRequestMarker} from "../../constants/github";
+import {JunieExecutionContext, isIssueCommentEvent, isIssuesEvent} from "../context";
+import {getEntityBranchNamePrefix} from "./branch-name";
+
+export type IssuePullRequest = {
+    number: number;
+    url: string;
+    headRef: string;
+    headSha: string;
+    baseRef: string;
+};
+
+type PullRequestCandidate = {
+    body: string | null;
+    head: { ref: string; repo: { full_name: string } | null };
+    user: { id: number } | null;
+};
+
+/**
+ * Checks if an open PR was created by Junie for the issue:
+ * it was opened with Junie's token and its body has the issue marker or its branch was named after the issue
+ *
+ * @param authorId - ID of the token owner, anyone can copy the marker or the branch name into their own PR
+ */
+export function isIssuePullRequest(
+    pr: PullRequestCandidate,
+    issueNumber: number,
+    repoFullName: string,
+    authorId: number,
+    branchPrefix?: string,
+): boolean {
+    // Branches of forks can't be pushed to
+    if (pr.head.repo?.full_name !== repoFullName || pr.user?.id !== authorId) {
+        return false;
+    }
+    if (pr.body?.includes(createIssuePullRequestMarker(issueNumber))) {
+        return true;
+    }
+    return branchPrefix !== undefined && (pr.head.ref === branchPrefix || pr.head.ref.startsWith(`${branchPrefix}-`));
+}
+
+/**
+ * Finds the open PR created by a previous Junie run for the same issue,
+ * so follow-up requests are added to it instead of opening another PR
+ *
+ * @returns The most recently updated matching PR, or `undefined` for non-issue events and when there is none
+ */
+export async function findIssuePullRequest(octokit: Octokit, context: JunieExecutionContext): Promise<IssuePullRequest | undefined> {
+    if (!(isIssuesEvent(context) || isIssueCommentEvent(context)) || context.isPR || !context.entityNumber) {
+        return undefined;
+    }
+
+    const issueNumber = context.entityNumber;
+    const repository = context.payload.repository;
+    const branchPrefix = getEntityBranchNamePrefix(context, "issue");
+    const pullRequests = await octokit.paginate(octokit.rest.pulls.list, {
+        owner: repository.owner.login,
+        repo: repository.name,
+        state: "open",
+        sort: "updated",
+        direction: "desc",
+        per_page: 100,
+    });
+
+    const pr = pullRequests.find(pr => isIssuePullRequest(pr, issueNumber, repository.full_name, context.tokenOwner.id, branchPrefix));
+    if (!pr) {
+        return undefined;
+    }
+    return {
+        number: pr.number,
+        url: pr.html_url,
+        headRef: pr.head.ref,
+        headSha: pr.head.sha,
+        baseRef: pr.base.ref,
+    };
+}
@@ -0,0 +1,115 @@
+import {$} from "bun";
+import {mkdirSync, writeFileSync} from "fs";
+import {join} from "path";
+
+export type PatchFileStatus = "added" | "modified" | "deleted" | "type-changed";
+
+export type PatchFileEntry = {
+    path: string;
+    status: PatchFileStatus;
+    // null for binary files
+    additions: number | null;
+    deletions: number | null;
+};
+
+export type PatchManifest = {
+    // Commit the patch applies to
+    base: string;
+    files: PatchFileEntry[];
+    additions: number;
+    deletions: number;
+};
+
+export type PatchOutput = {
+    patchPath: string;
+    manifestPath: string;
+    manifest: PatchManifest;
+};
+
+export const PATCH_FILE_NAME = "junie-changes.patch";
+export const PATCH_MANIFEST_FILE_NAME = "junie-changes.json";
+
+const FILE_STATUSES: Record<string, PatchFileStatus> = {
+    A: "added",
+    M: "modified",
+    D: "deleted",
+    T: "type-changed",
+};
+
+/**
+ * Finds the commit Junie started from: the base branch for a new branch,
+ * otherwise the upstream of the working branch
+ */
+export async function resolvePatchBase(isNewBranch: boolean, baseBranch: string): Promise<string> {
+    if (isNewBranch) {
+        return (await $`git rev-parse origin/${baseBranch}`.text()).trim();
+    }
+    const upstream = await $`git rev-parse @{u}`.nothrow().quiet();
+    if (upstream.exitCode === 0) {
+        return upstream.text().trim();
+    }
+    return (await $`git rev-parse HEAD`.text()).trim();
+}
+
+/**
+ * Parses `git diff --numstat -z --no-renames` and `git diff --name-status -z --no-renames` output
+ */
+export function parsePatchFiles(numstat: string, nameStatus: string): PatchFileEntry[] {
+    const statuses = new Map<string, PatchFileStatus>();
+    const nameStatusParts = nameStatus.split("\0");
+    for (let i = 0; i + 1 < nameStatusParts.length; i += 2) {
+        statuses.set(nameStatusParts[i + 1], FILE_STATUSES[nameStatusParts[i]] ?? "modified");
+    }
+
+    return numstat.split("\0").filter(Boolean).map(line => {
+        // Format: "<additions>\t<deletions>\t<path>", "-" instead of the numbers for binary files
+        const [additions, deletions, ...path] = line.split("\t");
+        const filePath = path.join("\t");
+        return {
+            path: filePath,
+            status: statuses.get(filePath) ?? "modified",
+            additions: additions === "-" ? null : +additions,
+            deletions: deletions === "-" ? null : +deletions,
+        };
+    });
+}
+
+/**
+ * Writes all changes between `base` and the working tree to a patch file applicable with `git apply`,
+ * and a JSON manifest of the changed files with line stats.
+ * Local commits, staged, unstaged and untracked files are included. The working tree is left as it is.
+ *
+ * @returns The written files, or undefined if there are no changes
+ */
+export async function writeChangesPatch(base: string, outputDir: string): Promise<PatchOutput | undefined> {
+    await $`git add -A`;
+    try {
+        const patch = await $`git diff --cached --binary --no-renames ${base}`.text();
+        if (!patch.trim()) {
+            console.log(`No changes since ${base}, no patch written`);
+            return undefined;
+        }
+        const numstat = await $`git diff --cached --numstat -z --no-renames ${base}`.text();
+        const nameStatus = await $`git diff --cached --name-status -z --no-renames ${base}`.text();
+
+        const files = parsePatchFiles(numstat, nameStatus);
+        const manifest: PatchManifest = {
+            base,
+            files,
+            additions: files.reduce((sum, file) => sum + (file.additions ?? 0), 0),
+            deletions: files.reduce((sum, file) => sum + (file.deletions ?? 0), 0),
+        };
+
+        mkdirSync(outputDir, {recursive: true});
+        const patchPath = join(outputDir, PATCH_FILE_NAME);
+        const manifestPath = join(outputDir, PATCH_MANIFEST_FILE_NAME);
+        writeFileSync(patchPath, patch);
+        writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+        console.log(`✓ Wrote patch of ${files.length} file(s) to ${patchPath}`);
+
+        return {patchPath, manifestPath, manifest};
+    } finally {
+        // Only the index was used to include untracked files, the changes stay in the working tree
+        await $`git reset -q`;
+    }
+}
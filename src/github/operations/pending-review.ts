@@ -0,0 +1,161 @@
+import type {Octokit} from "@octokit/rest";
+import {
+    ADD_PULL_REQUEST_REVIEW_MUTATION,
+    ADD_PULL_REQUEST_REVIEW_THREAD_MUTATION,
+    AddPullRequestReviewMutationResponse,
+    AddPullRequestReviewThreadMutationResponse,
+    PENDING_REVIEW_QUERY,
+    PendingReviewQueryResponse,
+    SUBMIT_PULL_REQUEST_REVIEW_MUTATION,
+    SubmitPullRequestReviewMutationResponse
+} from "../api/queries";
+
+export const REVIEW_EVENTS = ["COMMENT", "REQUEST_CHANGES", "APPROVE"] as const;
+
+// The inline comment MCP server stores the ID of the pending review it created in the Junie working directory,
+// so only that review is submitted when Junie leaves it pending
+export const CREATED_PENDING_REVIEW_FILE_NAME = "junie-pending-review-id";
+
+export type ReviewEvent = (typeof REVIEW_EVENTS)[number];
+
+export interface PullRequestRef {
+    owner: string;
+    repo: string;
+    prNumber: number;
+}
+
+export interface PendingReviewComment {
+    path: string;
+    body: string;
+    line: number;
+    side: "LEFT" | "RIGHT";
+    startLine?: number;
+}
+
+export interface PendingReviewHandle {
+    reviewId: string;
+    // False when the pending review created earlier by this run was reused
+    created: boolean;
+}
+
+export interface PendingReviewInfo {
+    pullRequestId: string;
+    reviewId?: string;
+    commentsCount: number;
+}
+
+/**
+ * Finds the pending (not yet submitted) review of the token owner on the pull request.
+ * GitHub allows a single pending review per user and PR, and it is visible only to its author.
+ */
+export async function findPendingReview(octokit: Octokit, pr: PullRequestRef): Promise<PendingReviewInfo> {
+    const response = await octokit.graphql<PendingReviewQueryResponse>(PENDING_REVIEW_QUERY, {
+        owner: pr.owner,
+        repo: pr.repo,
+        number: pr.prNumber,
+    });
+    const pullRequest = response.repository.pullRequest;
+    const pendingReview = pullRequest.reviews.nodes.find(review => review.viewerDidAuthor);
+
+    return {
+        pullRequestId: pullRequest.id,
+        reviewId: pendingReview?.id,
+        commentsCount: pendingReview?.comments.totalCount ?? 0,
+    };
+}
+
+/**
+ * Returns the pending review created by this run, creating it for the given commit if there is none.
+ * Another pending review of the token owner, e.g. a draft review of a PAT owner, is never used:
+ * Junie's comments would be added to it and submitting would publish the draft.
+ *
+ * @param ownReviewId - ID of the pending review created earlier by this run
+ * @throws {Error} if the token owner has a pending review on the PR that this run did not create
+ */
+export async function getOrCreatePendingReview(octokit: Octokit, pr: PullRequestRef, commitSha: string, ownReviewId?: string): Promise<PendingReviewHandle> {
+    const pendingReview = await findPendingReview(octokit, pr);
+    if (ownReviewId && pendingReview.reviewId === ownReviewId) {
+        return {reviewId: pendingReview.reviewId, created: false};
+    }
+    if (pendingReview.reviewId) {
+        throw new Error(
+            `The token owner already has a pending review on PR #${pr.prNumber} that was not started by Junie. ` +
+            `GitHub allows a single pending review per user, submit or discard it before Junie can review the PR.`
+        );
+    }
+
+    const response = await octokit.graphql<AddPullRequestReviewMutationResponse>(ADD_PULL_REQUEST_REVIEW_MUTATION, {
+        pullRequestId: pendingReview.pullRequestId,
+        commitOID: commitSha,
+    });
+    return {reviewId: response.addPullRequestReview.pullRequestReview.id, created: true};
+}
+
+/**
+ * Adds an inline comment to the pending review. The comment stays invisible to others until the review is submitted.
+ *
+ * @returns IDs of the created review thread and its comment
+ */
+export async function addPendingReviewComment(
+    octokit: Octokit,
+    reviewId: string,
+    comment: PendingReviewComment,
+): Promise<{ threadId: string, commentId?: number }> {
+    const response = await octokit.graphql<AddPullRequestReviewThreadMutationResponse>(ADD_PULL_REQUEST_REVIEW_THREAD_MUTATION, {
+        pullRequestReviewId: reviewId,
+        path: comment.path,
+        body: comment.body,
+        line: comment.line,
+        side: comment.side,
+        startLine: comment.startLine,
+        startSide: comment.startLine !== undefined ? comment.side : undefined,
+    });
+
+    // The thread is missing when GitHub can't anchor the comment to the diff
+    const thread = response.addPullRequestReviewThread.thread;
+    if (!thread) {
+        throw new Error(`Validation Failed: line ${comment.line} of ${comment.path} is not part of the diff`);
+    }
+    return {threadId: thread.id, commentId: thread.comments.nodes[0]?.databaseId};
+}
+
+/**
+ * Publishes the pending review with all its comments at once
+ */
+export async function submitPendingReview(
+    octokit: Octokit,
+    reviewId: string,
+    event: ReviewEvent,
+    body?: string,
+): Promise<SubmitPullRequestReviewMutationResponse["submitPullRequestReview"]["pullRequestReview"]> {
+    const response = await octokit.graphql<SubmitPullRequestReviewMutationResponse>(SUBMIT_PULL_REQUEST_REVIEW_MUTATION, {
+        pullRequestReviewId: reviewId,
+        event,
+        body,
+    });
+    return response.submitPullRequestReview.pullRequestReview;
+}
+
+/**
+ * Submits the pending review left behind when Junie finished without calling `submit_review`,
+ * so the collected inline comments are not lost.
+ * Only the review created by this run is submitted, never another pending review of the token owner.
+ *
+ * @param reviewId - ID of the review created by the inline comment MCP server
+ * @returns URL of the submitted review or `undefined` if there was nothing to submit
+ */
+export async function submitLeftoverPendingReview(
+    octokit: Octokit,
+    pr: PullRequestRef,
+    reviewId: string,
+    body: string,
+): Promise<string | undefined> {
+    const pendingReview = await findPendingReview(octokit, pr);
+    if (pendingReview.reviewId !== reviewId || pendingReview.commentsCount === 0) {
+        return undefined;
+    }
+
+    console.log(`Submitting pending review with ${pendingReview.commentsCount} comment(s) on PR #${pr.prNumber}`);
+    const review = await submitPendingReview(octokit, pendingReview.reviewId, "COMMENT", body);
+    return review.url;
+}
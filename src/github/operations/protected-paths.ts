@@ -0,0 +1,127 @@
+import {execFileSync} from "child_process";
+import {existsSync, rmSync} from "fs";
+
+export type ProtectedPathsAction = "revert" | "fail";
+
+export type ProtectedPathsConfig = {
+    deny: string[];
+    allow: string[];
+    action: ProtectedPathsAction;
+};
+
+function git(args: string[]): string {
+    return execFileSync("git", args, {encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"]});
+}
+
+/**
+ * Extracts the changed paths from `git status --porcelain -z` output.
+ * Both the new and the original path of renamed files are returned.
+ */
+export function parseGitStatusPaths(porcelainOutput: string): string[] {
+    const paths: string[] = [];
+    const entries = porcelainOutput.split("\0");
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (entry.length < 4) continue;
+        const status = entry.substring(0, 2);
+        paths.push(entry.substring(3));
+        // The original path of a rename or copy is the next entry
+        if (status.includes("R") || status.includes("C")) {
+            paths.push(entries[++i]);
+        }
+    }
+    return [...new Set(paths)];
+}
+
+/**
+ * Returns the paths matching a deny glob and none of the allow globs
+ */
+export function findProtectedPaths(paths: string[], config: ProtectedPathsConfig): string[] {
+    const deny = config.deny.map(pattern => new Bun.Glob(pattern));
+    const allow = config.allow.map(pattern => new Bun.Glob(pattern));
+    return paths.filter(path =>
+        deny.some(glob => glob.match(path)) && !allow.some(glob => glob.match(path))
+    );
+}
+
+function existsInHead(path: string): boolean {
+    try {
+        git(["cat-file", "-e", `HEAD:${path}`]);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Restores the paths to their state in HEAD, files created by Junie are removed
+ */
+function revertPaths(paths: string[]): void {
+    git(["reset", "-q", "--", ...paths]);
+    for (const path of paths) {
+        if (existsInHead(path)) {
+            git(["checkout", "HEAD", "--", path]);
+        } else if (existsSync(path)) {
+            rmSync(path, {recursive: true, force: true});
+        }
+    }
+}
+
+/**
+ * Fails if commits created by Junie itself (since `base`) change protected paths.
+ * Committed changes can't be reverted without rewriting Junie's commits, so the run fails regardless of the action.
+ *
+ * @throws {Error} if a commit since `base` changed protected paths
+ */
+export function guardCommittedProtectedPaths(config: ProtectedPathsConfig, base: string): void {
+    if (config.deny.length === 0) {
+        return;
+    }
+
+    // Without rename detection both the old and the new path of a renamed file are listed
+    const committedPaths = git(["diff", "--name-only", "-z", "--no-renames", `${base}..HEAD`]).split("\0").filter(Boolean);
+    const blockedPaths = findProtectedPaths(committedPaths, config);
+    if (blockedPaths.length === 0) {
+        return;
+    }
+
+    const pathList = blockedPaths.map(path => `• ${path}`).join("\n");
+    throw new Error(
+        `❌ Junie committed changes of protected paths, nothing was pushed.\n\n` +
+        `Protected paths:\n${pathList}\n\n` +
+        `Allow the paths with protected_paths_allow if Junie is expected to change them.`
+    );
+}
+
+/**
+ * Keeps changes of protected paths (workflows, CODEOWNERS, lockfiles, secrets) out of the commit.
+ * Depending on the configured action the changes are reverted or the run fails.
+ *
+ * @returns Paths whose changes were reverted
+ * @throws {Error} if protected paths were changed and the action is "fail"
+ */
+export function guardProtectedPaths(config: ProtectedPathsConfig): string[] {
+    if (config.deny.length === 0) {
+        return [];
+    }
+
+    const changedPaths = parseGitStatusPaths(git(["status", "--porcelain", "-z", "--untracked-files=all"]));
+    const blockedPaths = findProtectedPaths(changedPaths, config);
+    if (blockedPaths.length === 0) {
+        console.log("✓ No protected paths were changed");
+        return [];
+    }
+
+    const pathList = blockedPaths.map(path => `• ${path}`).join("\n");
+    if (config.action === "fail") {
+        throw new Error(
+            `❌ Junie changed protected paths, nothing was committed.\n\n` +
+            `Protected paths:\n${pathList}\n\n` +
+            `Allow the paths with protected_paths_allow if Junie is expected to change them.`
+        );
+    }
+
+    console.log(`Reverting changes of protected paths:\n${pathList}`);
+    revertPaths(blockedPaths);
+    return blockedPaths;
+}
@@ -0,0 +1,325 @@
+import type {Octokit} from "@octokit/rest";
+import {CODEOWNERS_PATHS, PR_LATEST_RUN_SECTION_TEMPLATE} from "../../constants/github";
+import {isDiscussionRelatedEvent, JunieExecutionContext} from "../context";
+import {createJobRunLink} from "./comments/common";
+import type {AutoMergeConfig} from "./auto-merge";
+
+export type PullRequestConfig = {
+    draft: boolean;
+    // Labels added to every PR
+    labels: string[];
+    copyIssueLabels: boolean;
+    copyMilestone: boolean;
+    // Request reviews from the code owners of the changed paths
+    requestCodeownerReviews: boolean;
+    assignActor: boolean;
+    autoMerge: AutoMergeConfig;
+};
+
+export type PullRequestParams = {
+    owner: string;
+    repo: string;
+    title: string;
+    body: string;
+    head: string;
+    base: string;
+    draft: boolean;
+};
+
+export type CreatedPullRequest = {
+    number: number;
+    url: string;
+    // GraphQL node ID
+    nodeId: string;
+    draft: boolean;
+    // Auto-merge was already enabled on the PR
+    autoMerge: boolean;
+    // User ID of the PR author, an updated PR may have been opened by someone else
+    authorId?: number;
+    // An open PR for the same branches existed and was updated instead
+    updated: boolean;
+    // Settings that could not be applied, the PR itself was created. They are applied to created PRs only.
+    warnings: string[];
+};
+
+export type CodeownersRule = {
+    pattern: string;
+    owners: string[];
+};
+
+/**
+ * Parses a CODEOWNERS file, rules without owners are kept because they remove the ownership of earlier rules
+ */
+export function parseCodeowners(source: string): CodeownersRule[] {
+    return source.split(/\r?\n/)
+        .map(line => line.replace(/(^|\s)#.*$/, "").trim())
+        .filter(Boolean)
+        .map(line => {
+            const [pattern, ...owners] = line.split(/\s+/);
+            return {pattern, owners};
+        });
+}
+
+/**
+ * Converts a CODEOWNERS pattern (gitignore syntax) into a glob matched against repository paths
+ */
+function toCodeownersGlob(pattern: string): Bun.Glob {
+    let glob = pattern;
+    const isAnchored = glob.startsWith("/") || glob.replace(/\/$/, "").includes("/");
+    glob = glob.replace(/^\//, "");
+    if (glob.endsWith("/")) {
+        glob += "**";
+    }
+    return new Bun.Glob(isAnchored ? glob : `**/${glob}`);
+}
+
+/**
+ * Checks whether a CODEOWNERS pattern matches the path or one of its parent directories.
+ * Like on GitHub, a wildcard in the last segment (e.g. "docs/*") doesn't match nested files.
+ */
+export function matchesCodeownersPattern(pattern: string, path: string): boolean {
+    const glob = toCodeownersGlob(pattern);
+    const segments = path.split("/");
+    const matchesDirectories = !pattern.replace(/\/$/, "").split("/").pop()!.includes("*");
+    const shortest = matchesDirectories ? 1 : segments.length;
+    for (let i = segments.length; i >= shortest; i--) {
+        if (glob.match(segments.slice(0, i).join("/"))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Collects the owners of the paths, for each path the last matching rule wins
+ */
+export function findCodeowners(rules: CodeownersRule[], paths: string[]): string[] {
+    const owners = new Set<string>();
+    for (const path of paths) {
+        const rule = [...rules].reverse().find(rule => matchesCodeownersPattern(rule.pattern, path));
+        rule?.owners.forEach(owner => owners.add(owner));
+    }
+    return [...owners];
+}
+
+/**
+ * Splits code owners into users and team slugs, email owners can't be requested as reviewers
+ *
+ * @param excludedLogins - Users that can't review the PR, e.g. its author
+ */
+export function splitCodeownerReviewers(owners: string[], excludedLogins: string[]): { reviewers: string[]; teamReviewers: string[] } {
+    const excluded = new Set(excludedLogins.map(login => login.toLowerCase()));
+    const reviewers: string[] = [];
+    const teamReviewers: string[] = [];
+    for (const owner of owners) {
+        if (!owner.startsWith("@")) {
+            continue;
+        }
+        const name = owner.slice(1);
+        if (name.includes("/")) {
+            teamReviewers.push(name.split("/")[1]);
+        } else if (!excluded.has(name.toLowerCase())) {
+            reviewers.push(name);
+        }
+    }
+    return {reviewers, teamReviewers};
+}
+
+async function fetchCodeowners(octokit: Octokit, owner: string, repo: string, ref: string): Promise<CodeownersRule[] | undefined> {
+    for (const path of CODEOWNERS_PATHS) {
+        try {
+            const {data} = await octokit.rest.repos.getContent({owner, repo, path, ref});
+            if (!Array.isArray(data) && data.type === "file") {
+                return parseCodeowners(Buffer.from(data.content, "base64").toString("utf-8"));
+            }
+        } catch (error: any) {
+            if (error?.status !== 404) {
+                throw error;
+            }
+        }
+    }
+    return undefined;
+}
+
+async function requestCodeownerReviews(octokit: Octokit, context: JunieExecutionContext, params: PullRequestParams, pullNumber: number): Promise<void> {
+    const {owner, repo, base} = params;
+    const rules = await fetchCodeowners(octokit, owner, repo, base);
+    if (!rules) {
+        console.log(`No CODEOWNERS file on ${base}, no reviewers requested`);
+        return;
+    }
+
+    const files = await octokit.paginate(octokit.rest.pulls.listFiles, {owner, repo, pull_number: pullNumber, per_page: 100});
+    const codeowners = findCodeowners(rules, files.map(file => file.filename));
+    // The PR is opened with the action's token, its owner can't review it
+    const {reviewers, teamReviewers} = splitCodeownerReviewers(codeowners, [context.tokenOwner.login]);
+    if (reviewers.length === 0 && teamReviewers.length === 0) {
+        console.log('No code owners for the changed paths, no reviewers requested');
+        return;
+    }
+
+    await octokit.rest.pulls.requestReviewers({owner, repo, pull_number: pullNumber, reviewers, team_reviewers: teamReviewers});
+    console.log(`✓ Requested reviews from ${[...reviewers, ...teamReviewers].join(", ")}`);
+}
+
+/**
+ * Issue or PR the run was triggered from, its labels and milestone are carried over to the new PR
+ */
+async function fetchSourceIssue(octokit: Octokit, context: JunieExecutionContext, params: PullRequestParams) {
+    if (!context.entityNumber || isDiscussionRelatedEvent(context)) {
+        return undefined;
+    }
+    const {data} = await octokit.rest.issues.get({owner: params.owner, repo: params.repo, issue_number: context.entityNumber});
+    return data;
+}
+
+/**
+ * Runs one optional PR setting, a failure is turned into a warning so the PR is kept
+ */
+async function applySetting(name: string, warnings: string[], apply: () => Promise<void>): Promise<void> {
+    try {
+        await apply();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Failed to ${name}:`, message);
+        warnings.push(`Failed to ${name}: ${message.split("\n")[0]}`);
+    }
+}
+
+/**
+ * Applies labels, milestone, assignee and reviewers to the created PR
+ *
+ * @returns Warnings of the settings that failed
+ */
+export async function applyPullRequestSettings(
+    octokit: Octokit,
+    context: JunieExecutionContext,
+    params: PullRequestParams,
+    pullNumber: number,
+    config: PullRequestConfig,
+): Promise<string[]> {
+    const {owner, repo} = params;
+    const warnings: string[] = [];
+
+    let sourceIssue: Awaited<ReturnType<typeof fetchSourceIssue>>;
+    if (config.copyIssueLabels || config.copyMilestone) {
+        await applySetting(`read issue #${context.entityNumber}`, warnings, async () => {
+            sourceIssue = await fetchSourceIssue(octokit, context, params);
+        });
+    }
+
+    const issueLabels = config.copyIssueLabels
+        ? (sourceIssue?.labels ?? []).map(label => typeof label === "string" ? label : label.name).filter((name): name is string => !!name)
+        : [];
+    const labels = [...new Set([...config.labels, ...issueLabels])];
+    if (labels.length > 0) {
+        await applySetting("add labels", warnings, async () => {
+            await octokit.rest.issues.addLabels({owner, repo, issue_number: pullNumber, labels});
+            console.log(`✓ Added labels: ${labels.join(", ")}`);
+        });
+    }
+
+    const milestone = config.copyMilestone ? sourceIssue?.milestone : undefined;
+    if (milestone) {
+        await applySetting("set milestone", warnings, async () => {
+            await octokit.rest.issues.update({owner, repo, issue_number: pullNumber, milestone: milestone.number});
+            console.log(`✓ Set milestone: ${milestone.title}`);
+        });
+    }
+
+    // Bots can't be assigned
+    if (config.assignActor && !context.actor.endsWith("[bot]")) {
+        await applySetting("assign the PR", warnings, async () => {
+            await octokit.rest.issues.addAssignees({owner, repo, issue_number: pullNumber, assignees: [context.actor]});
+            console.log(`✓ Assigned ${context.actor}`);
+        });
+    }
+
+    if (config.requestCodeownerReviews) {
+        await applySetting("request reviews from code owners", warnings, () =>
+            requestCodeownerReviews(octokit, context, params, pullNumber));
+    }
+
+    return warnings;
+}
+
+function isDraftNotSupportedError(error: any): boolean {
+    return error?.status === 422 && /draft/i.test(error?.message ?? "");
+}
+
+function isPullRequestExistsError(error: any): boolean {
+    return error?.status === 422 && /already exists/i.test(error?.message ?? "");
+}
+
+async function findOpenPullRequest(octokit: Octokit, params: PullRequestParams) {
+    const {owner, repo, head, base} = params;
+    const {data} = await octokit.rest.pulls.list({owner, repo, head: `${owner}:${head}`, base, state: "open", per_page: 1});
+    return data[0];
+}
+
+/**
+ * Updates the title and body of the open PR with the results of this run.
+ * A draft PR stays a draft, the REST API can't change it.
+ */
+async function updateOpenPullRequest(octokit: Octokit, context: JunieExecutionContext, params: PullRequestParams, pullNumber: number): Promise<void> {
+    const {owner, repo, title} = params;
+    const date = new Date().toISOString().substring(0, 16).replace("T", " ") + " UTC";
+    const body = params.body + PR_LATEST_RUN_SECTION_TEMPLATE(createJobRunLink(owner, repo, context.runId), date);
+    await octokit.rest.pulls.update({owner, repo, pull_number: pullNumber, title, body});
+    console.log(`Successfully updated PR #${pullNumber}`);
+}
+
+async function openPullRequest(octokit: Octokit, params: PullRequestParams, warnings: string[]) {
+    const {owner, repo, title, body, head, base, draft} = params;
+    try {
+        const {data} = await octokit.rest.pulls.create({owner, repo, title, body, head, base, draft});
+        return data;
+    } catch (error) {
+        if (!draft || !isDraftNotSupportedError(error)) {
+            throw error;
+        }
+        console.warn('Draft PRs are not supported in this repository, creating a ready PR');
+        warnings.push("Draft PRs are not supported in this repository, the PR was opened as ready for review");
+        const {data} = await octokit.rest.pulls.create({owner, repo, title, body, head, base});
+        return data;
+    }
+}
+
+/**
+ * Creates the PR and applies the configured settings.
+ * If an open PR for the same head and base branches exists, e.g. from an earlier run on the same branch,
+ * only its title and body are updated, its settings and draft state are kept. Repositories without draft PR support get a ready PR,
+ * failures of the other settings are returned as warnings.
+ */
+export async function createJuniePullRequest(
+    octokit: Octokit,
+    context: JunieExecutionContext,
+    params: PullRequestParams,
+    config: PullRequestConfig,
+): Promise<CreatedPullRequest> {
+    const warnings: string[] = [];
+
+    let pr: { number: number; html_url: string; node_id: string; draft?: boolean; auto_merge?: unknown; user?: { id: number } | null } | undefined = await findOpenPullRequest(octokit, params);
+    let updated = !!pr;
+    if (!pr) {
+        try {
+            pr = await openPullRequest(octokit, params, warnings);
+            console.log(`Successfully created PR #${pr.number}: ${pr.html_url}`);
+        } catch (error) {
+            // Another run may have opened the PR in the meantime
+            const existing = isPullRequestExistsError(error) ? await findOpenPullRequest(octokit, params) : undefined;
+            if (!existing) {
+                throw error;
+            }
+            pr = existing;
+            updated = true;
+        }
+    }
+    if (updated) {
+        console.log(`PR #${pr.number} already exists for ${params.head} → ${params.base}, updating it`);
+        await updateOpenPullRequest(octokit, context, params, pr.number);
+    } else {
+        warnings.push(...await applyPullRequestSettings(octokit, context, params, pr.number, config));
+    }
+    return {number: pr.number, url: pr.html_url, nodeId: pr.node_id, draft: !!pr.draft, autoMerge: !!pr.auto_merge, authorId: pr.user?.id, updated, warnings};
+}
@@ -0,0 +1,142 @@
+import {spawnSync} from "child_process";
+import {existsSync} from "fs";
+import type {CliInput} from "../junie/types/junie";
+
+export type PushConflictAction = "report" | "resolve";
+
+export type PushResult =
+    | { status: "pushed"; sha: string }
+    | { status: "conflict"; conflictingFiles: string[] };
+
+// How many times the branch is rebased when the remote keeps moving between fetch and push
+const MAX_PUSH_ATTEMPTS = 3;
+
+const NON_FAST_FORWARD_REGEXP = /non-fast-forward|\(fetch first\)|Updates were rejected because/i;
+
+type GitResult = {
+    ok: boolean;
+    output: string;
+};
+
+function runGit(args: string[]): GitResult {
+    const result = spawnSync("git", args, {encoding: "utf-8"});
+    return {ok: result.status === 0, output: `${result.stdout ?? ""}${result.stderr ?? ""}`.trim()};
+}
+
+function git(args: string[]): string {
+    const result = runGit(args);
+    if (!result.ok) {
+        throw new Error(`git ${args.join(" ")} failed: ${result.output}`);
+    }
+    return result.output;
+}
+
+/**
+ * Checks whether `git push` was rejected because the remote branch has commits the local branch doesn't have
+ */
+export function isNonFastForwardRejection(pushOutput: string): boolean {
+    return NON_FAST_FORWARD_REGEXP.test(pushOutput);
+}
+
+/**
+ * Rebases the local commits onto the remote branch.
+ * On conflict the rebase is aborted, so the local branch stays as Junie left it.
+ *
+ * @returns Files that conflicted, empty if the rebase succeeded
+ */
+function rebaseOntoRemote(branch: string): string[] {
+    git(["fetch", "origin", `+refs/heads/${branch}:refs/remotes/origin/${branch}`]);
+    // Keep merge commits, e.g. from resolving conflicts with the base branch
+    if (runGit(["rebase", "--rebase-merges", `origin/${branch}`]).ok) {
+        return [];
+    }
+
+    const conflictingFiles = git(["diff", "--name-only", "--diff-filter=U"]).split("\n").filter(Boolean);
+    runGit(["rebase", "--abort"]);
+    // A failed rebase without conflicts (e.g. a hook failure) is still reported as a conflict of the whole branch
+    return conflictingFiles.length > 0 ? conflictingFiles : ["(rebase failed without conflicting files)"];
+}
+
+/**
+ * Pushes the current HEAD to the working branch.
+ * If the branch was updated on the remote while Junie was running, Junie's commits are rebased onto it
+ * and the push is retried.
+ *
+ * @returns The pushed commit, or the conflicting files if the rebase failed
+ * @throws {Error} if the push fails for another reason or the remote keeps moving
+ */
+export function pushWithRebase(branch: string): PushResult {
+    for (let attempt = 1; attempt <= MAX_PUSH_ATTEMPTS; attempt++) {
+        const push = runGit(["push", "--set-upstream", "origin", "HEAD"]);
+        if (push.ok) {
+            const sha = git(["rev-parse", "HEAD"]);
+            console.log(`✓ Pushed ${sha} to ${branch}`);
+            return {status: "pushed", sha};
+        }
+        if (!isNonFastForwardRejection(push.output)) {
+            throw new Error(
+                `❌ Failed to push Junie's changes to branch "${branch}". ` +
+                `This could be due to:\n` +
+                `• Insufficient token permissions (needs 'contents:write' scope)\n` +
+                `• Branch protection rules rejecting the push\n` +
+                `Original error: ${push.output}`
+            );
+        }
+
+        console.log(`Branch ${branch} was updated on the remote, rebasing Junie's commits (attempt ${attempt}/${MAX_PUSH_ATTEMPTS})`);
+        const conflictingFiles = rebaseOntoRemote(branch);
+        if (conflictingFiles.length > 0) {
+            console.log(`Rebase onto origin/${branch} failed with conflicts:\n${conflictingFiles.join("\n")}`);
+            return {status: "conflict", conflictingFiles};
+        }
+    }
+
+    throw new Error(
+        `❌ Failed to push Junie's changes to branch "${branch}": ` +
+        `the branch kept being updated on the remote after ${MAX_PUSH_ATTEMPTS} rebase attempts.`
+    );
+}
+
+/**
+ * Junie CLI task merging the updated remote branch into Junie's changes
+ */
+export function createPushConflictMergeTask(branch: string): string {
+    const task: CliInput = {mergeTask: {branch: `origin/${branch}`}};
+    return JSON.stringify(task);
+}
+
+/**
+ * Commits the merge Junie resolved, if Junie left it uncommitted
+ */
+export function commitConflictResolution(branch: string): void {
+    const isMerging = existsSync(git(["rev-parse", "--git-path", "MERGE_HEAD"]));
+    const hasChanges = git(["status", "--porcelain"]).length > 0;
+    if (!isMerging && !hasChanges) {
+        return;
+    }
+
+    git(["add", "-A"]);
+    const unresolvedFiles = git(["diff", "--cached", "--name-only", "--diff-filter=U"]);
+    if (unresolvedFiles) {
+        throw new Error(`❌ Junie did not resolve all conflicts with origin/${branch}:\n${unresolvedFiles}`);
+    }
+    if (isMerging) {
+        git(["commit", "--no-edit"]);
+    } else {
+        git(["commit", "-m", `Resolve conflicts with origin/${branch}`]);
+    }
+    console.log(`✓ Committed conflict resolution with origin/${branch}`);
+}
+
+/**
+ * Error reported in the feedback comment when Junie's changes conflict with the updated branch
+ */
+export function createPushConflictError(branch: string, conflictingFiles: string[]): Error {
+    const fileList = conflictingFiles.map(file => `• ${file}`).join("\n");
+    return new Error(
+        `❌ Branch "${branch}" was updated while Junie was working, and Junie's changes conflict with the new commits. ` +
+        `Nothing was pushed.\n\n` +
+        `Conflicting files:\n${fileList}\n\n` +
+        `Run Junie again on the updated branch, or set push_conflict_action to 'resolve' to let Junie merge the changes.`
+    );
+}
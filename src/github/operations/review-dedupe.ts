@@ -0,0 +1,86 @@
+import type {Octokit} from "@octokit/rest";
+import {REVIEW_THREADS_QUERY, ReviewThreadsQueryResponse} from "../api/queries";
+import {PullRequestRef} from "./pending-review";
+import {DiffSide} from "./diff-positions";
+
+/**
+ * Minimal similarity of two comment texts (0..1) to treat them as the same remark
+ */
+export const DUPLICATE_COMMENT_SIMILARITY_THRESHOLD = 0.8;
+
+export interface ExistingReviewComment {
+    threadId: string;
+    path: string;
+    line: number;
+    side: DiffSide;
+    body: string;
+    author?: string;
+}
+
+/**
+ * Fetches comments of all unresolved review threads of the pull request,
+ * including the pending review of the token owner.
+ * Outdated threads (without a line in the current diff) are skipped.
+ */
+export async function fetchUnresolvedReviewComments(octokit: Octokit, pr: PullRequestRef): Promise<ExistingReviewComment[]> {
+    const response = await octokit.graphql<ReviewThreadsQueryResponse>(REVIEW_THREADS_QUERY, {
+        owner: pr.owner,
+        repo: pr.repo,
+        number: pr.prNumber,
+    });
+
+    return response.repository.pullRequest.reviewThreads.nodes
+        .filter(thread => !thread.isResolved && thread.line !== null)
+        .flatMap(thread => thread.comments.nodes.map(comment => ({
+            threadId: thread.id,
+            path: thread.path,
+            line: thread.line!,
+            side: thread.diffSide,
+            body: comment.body,
+            author: comment.author?.login,
+        })));
+}
+
+/**
+ * Normalizes a comment for comparison: ignores case, punctuation, markdown and whitespace differences
+ */
+export function normalizeCommentText(text: string): string[] {
+    return text
+        .toLowerCase()
+        .replace(/```\w*/g, " ")
+        .replace(/[^a-z0-9\s]/g, " ")
+        .split(/\s+/)
+        .filter(word => word.length > 0);
+}
+
+/**
+ * Calculates the Jaccard similarity of the words of two comments
+ *
+ * @returns Value from 0 (nothing in common) to 1 (same words)
+ */
+export function calculateCommentSimilarity(first: string, second: string): number {
+    const firstWords = new Set(normalizeCommentText(first));
+    const secondWords = new Set(normalizeCommentText(second));
+    if (firstWords.size === 0 && secondWords.size === 0) {
+        return 1;
+    }
+
+    const intersection = [...firstWords].filter(word => secondWords.has(word)).length;
+    const union = new Set([...firstWords, ...secondWords]).size;
+    return intersection / union;
+}
+
+/**
+ * Finds an unresolved comment on the same line and side whose text closely matches the new comment
+ */
+export function findDuplicateComment(
+    existingComments: ExistingReviewComment[],
+    comment: Omit<ExistingReviewComment, "threadId" | "author">,
+): ExistingReviewComment | undefined {
+    return existingComments.find(existing =>
+        existing.path === comment.path
+        && existing.line === comment.line
+        && existing.side === comment.side
+        && calculateCommentSimilarity(existing.body, comment.body) >= DUPLICATE_COMMENT_SIMILARITY_THRESHOLD
+    );
+}
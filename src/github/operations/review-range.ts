@@ -0,0 +1,99 @@
+import type {Octokit} from "@octokit/rest";
+import {JunieExecutionContext} from "../context";
+import {ReviewDiffRange} from "../../constants/github";
+import {extractReviewedSha, hasJunieMarker} from "./comments/common";
+
+/**
+ * Finds the PR head SHA reviewed by the most recent Junie review of this workflow.
+ * The SHA is stored in a hidden marker of the Junie feedback comment, which is an issue comment,
+ * a reply to a review comment or a review, depending on the event that triggered the review.
+ *
+ * @returns Last reviewed SHA or `undefined` if the PR was not reviewed yet
+ */
+export async function findLastReviewedSha(octokit: Octokit, context: JunieExecutionContext): Promise<string | undefined> {
+    const {owner, name} = context.payload.repository;
+    const params = {owner: owner.login, repo: name, per_page: 100};
+
+    const [issueComments, reviewComments, reviews] = await Promise.all([
+        octokit.paginate(octokit.rest.issues.listComments, {...params, issue_number: context.entityNumber!}),
+        octokit.paginate(octokit.rest.pulls.listReviewComments, {...params, pull_number: context.entityNumber!}),
+        octokit.paginate(octokit.rest.pulls.listReviews, {...params, pull_number: context.entityNumber!}),
+    ]);
+    const comments: { body?: string | null; date?: string | null }[] = [
+        ...issueComments.map(comment => ({body: comment.body, date: comment.updated_at})),
+        ...reviewComments.map(comment => ({body: comment.body, date: comment.updated_at})),
+        ...reviews.map(review => ({body: review.body, date: review.submitted_at})),
+    ];
+
+    const reviewedShas = comments
+        .filter(comment => comment.body && hasJunieMarker(comment.body, context.workflow))
+        .sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""))
+        .map(comment => extractReviewedSha(comment.body!))
+        .filter((sha): sha is string => !!sha);
+
+    return reviewedShas[reviewedShas.length - 1];
+}
+
+/**
+ * Resolves the commits pushed since the last Junie review from the commit list of the PR.
+ * Merge commits are left out: they bring in changes of the base branch, not of the PR author.
+ * The range has no commits when nothing but merge commits (or nothing at all) was pushed since the last review.
+ *
+ * Falls back to a full review (returns `undefined`) when:
+ * - the PR was not reviewed yet
+ * - the last reviewed commit is no longer part of the PR (e.g. after a force-push or rebase)
+ * - the commits can't be listed
+ *
+ * @param headSha - Current head commit SHA of the Pull Request
+ */
+export async function getIncrementalReviewRange(
+    octokit: Octokit,
+    context: JunieExecutionContext,
+    headSha: string,
+): Promise<ReviewDiffRange | undefined> {
+    if (!context.isPR || !context.entityNumber) {
+        return undefined;
+    }
+
+    try {
+        const lastReviewedSha = await findLastReviewedSha(octokit, context);
+        if (!lastReviewedSha) {
+            console.log(`PR #${context.entityNumber} was not reviewed yet - reviewing the full diff`);
+            return undefined;
+        }
+
+        if (lastReviewedSha === headSha) {
+            console.log(`No commits pushed since the last review of ${headSha} - nothing to review`);
+            return {baseSha: lastReviewedSha, headSha, commits: []};
+        }
+
+        const {owner, name} = context.payload.repository;
+        const commits = await octokit.paginate(octokit.rest.pulls.listCommits, {
+            owner: owner.login,
+            repo: name,
+            pull_number: context.entityNumber,
+            per_page: 100,
+        });
+
+        const reviewedIndex = commits.findIndex(commit => commit.sha === lastReviewedSha);
+        if (reviewedIndex === -1 || commits[commits.length - 1]?.sha !== headSha) {
+            console.log(`Last reviewed commit ${lastReviewedSha} is not part of PR #${context.entityNumber} up to ${headSha} - reviewing the full diff`);
+            return undefined;
+        }
+
+        const newCommits = commits
+            .slice(reviewedIndex + 1)
+            .filter(commit => commit.parents.length < 2)
+            .map(commit => commit.sha);
+        if (newCommits.length === 0) {
+            console.log(`Only merge commits were pushed since ${lastReviewedSha} - nothing to review`);
+        } else {
+            console.log(`Reviewing ${newCommits.length} commit(s) pushed since ${lastReviewedSha}`);
+        }
+        return {baseSha: lastReviewedSha, headSha, commits: newCommits};
+    } catch (error) {
+        // Incremental review is an optimization, a full review is always a valid fallback
+        console.warn('Failed to resolve incremental review range - reviewing the full diff:', error);
+        return undefined;
+    }
+}
@@ -0,0 +1,108 @@
+import type {Octokit} from "@octokit/rest";
+import {
+    ADD_REVIEW_THREAD_REPLY_MUTATION,
+    RESOLVE_REVIEW_THREAD_MUTATION,
+    REVIEW_THREADS_QUERY,
+    ReviewThreadsQueryResponse
+} from "../api/queries";
+import {ADDRESSED_REVIEW_THREAD_REPLY_TEMPLATE, ADDRESSED_THREADS_PREFIX} from "../../constants/github";
+import {PullRequestRef} from "./pending-review";
+
+export interface AddressedThreadsResult {
+    replied: string[];
+    resolved: string[];
+    failed: string[];
+}
+
+/**
+ * Extracts IDs of the review threads Junie reported as addressed in its answer
+ */
+export function extractAddressedThreadIds(junieSummary: string): string[] {
+    const line = junieSummary
+        .split("\n")
+        .reverse()
+        .find(line => line.trim().startsWith(ADDRESSED_THREADS_PREFIX));
+    if (!line) {
+        return [];
+    }
+
+    const ids = line
+        .trim()
+        .slice(ADDRESSED_THREADS_PREFIX.length)
+        .split(/[\s,]+/)
+        .map(id => id.replace(/[`*]/g, ""))
+        .filter(id => id.length > 0);
+    return [...new Set(ids)];
+}
+
+/**
+ * Removes the addressed threads line from Junie's answer, it is meant for the action, not for the PR participants
+ */
+export function removeAddressedThreadsLine(junieSummary: string): string {
+    return junieSummary
+        .split("\n")
+        .filter(line => !line.trim().startsWith(ADDRESSED_THREADS_PREFIX))
+        .join("\n")
+        .trimEnd();
+}
+
+/**
+ * Fetches IDs of the review threads of the pull request that are not resolved yet
+ */
+export async function fetchUnresolvedThreadIds(octokit: Octokit, pr: PullRequestRef): Promise<Set<string>> {
+    const response = await octokit.graphql<ReviewThreadsQueryResponse>(REVIEW_THREADS_QUERY, {
+        owner: pr.owner,
+        repo: pr.repo,
+        number: pr.prNumber,
+    });
+
+    return new Set(response.repository.pullRequest.reviewThreads.nodes
+        .filter(thread => !thread.isResolved)
+        .map(thread => thread.id));
+}
+
+/**
+ * Replies in each review thread addressed by Junie with the commit that fixed it and optionally resolves the thread.
+ * Only threads that are still unresolved are touched, so IDs made up by the agent are ignored.
+ */
+export async function replyToAddressedThreads(
+    octokit: Octokit,
+    pr: PullRequestRef,
+    addressedIds: string[],
+    commitSHA: string,
+    resolve: boolean,
+): Promise<AddressedThreadsResult> {
+    const result: AddressedThreadsResult = {replied: [], resolved: [], failed: []};
+
+    if (addressedIds.length === 0) {
+        console.log("Junie didn't report any addressed review threads");
+        return result;
+    }
+
+    const unresolvedIds = await fetchUnresolvedThreadIds(octokit, pr);
+    for (const threadId of addressedIds) {
+        if (!unresolvedIds.has(threadId)) {
+            console.warn(`Skipping review thread ${threadId}: it doesn't exist or is already resolved`);
+            continue;
+        }
+
+        try {
+            await octokit.graphql(ADD_REVIEW_THREAD_REPLY_MUTATION, {
+                threadId,
+                body: ADDRESSED_REVIEW_THREAD_REPLY_TEMPLATE(commitSHA),
+            });
+            result.replied.push(threadId);
+
+            if (resolve) {
+                await octokit.graphql(RESOLVE_REVIEW_THREAD_MUTATION, {threadId});
+                result.resolved.push(threadId);
+            }
+        } catch (error) {
+            console.warn(`Failed to update review thread ${threadId}:`, error);
+            result.failed.push(threadId);
+        }
+    }
+
+    console.log(`Replied to ${result.replied.length} review thread(s), resolved ${result.resolved.length}`);
+    return result;
+}
@@ -0,0 +1,151 @@
+import {execFileSync} from "child_process";
+
+export type SecretFinding = {
+    path: string;
+    line: number;
+    // Kind of secret, e.g. "AWS access key ID". The secret itself is never kept.
+    rule: string;
+};
+
+type SecretRule = {
+    name: string;
+    pattern: RegExp;
+};
+
+// Lines with this marker are not scanned, e.g. for test fixtures with fake keys
+export const SECRET_SCAN_ALLOW_MARKER = "pragma: allowlist secret";
+
+const SECRET_RULES: SecretRule[] = [
+    {name: "AWS access key ID", pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/},
+    {name: "AWS secret access key", pattern: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?[A-Za-z0-9/+]{40}\b/i},
+    {name: "Private key", pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/},
+    {name: "Slack token", pattern: /\bxox[abposr]-[0-9A-Za-z-]{10,}/},
+    {name: "Slack webhook URL", pattern: /https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/[A-Za-z0-9]+/},
+    {name: "Stripe API key", pattern: /\b(?:sk|rk)_(?:live|test)_[0-9A-Za-z]{16,}\b/},
+    {name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/},
+    {name: "JSON Web Token", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/},
+];
+
+// Candidates for the entropy check: long runs of base64 / URL-safe base64 characters
+const HIGH_ENTROPY_CANDIDATE_REGEXP = /[A-Za-z0-9+/_-]{24,}={0,2}/g;
+// Bits per character above which a mixed-case alphanumeric string is most likely random
+const HIGH_ENTROPY_THRESHOLD = 4.5;
+const HIGH_ENTROPY_RULE = "High entropy string";
+// Subresource integrity hashes, e.g. `"integrity": "sha512-..."` in package-lock.json
+const INTEGRITY_HASH_REGEXP = /\bsha(?:256|384|512)-[A-Za-z0-9+/]+={0,2}/g;
+// Generated files full of checksums, only the rules for known secret formats apply to them
+const LOCKFILE_NAMES = new Set([
+    "package-lock.json", "npm-shrinkwrap.json", "yarn.lock", "pnpm-lock.yaml", "bun.lock",
+    "Cargo.lock", "Gemfile.lock", "composer.lock", "poetry.lock", "uv.lock", "go.sum",
+]);
+
+/**
+ * Shannon entropy of the string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+/**
+ * Checks for random looking strings like generated API keys.
+ * Hex strings (commit SHAs, checksums), integrity hashes and paths are ignored, they are common in code and not secrets.
+ */
+function hasHighEntropyString(line: string): boolean {
+    for (const candidate of line.replace(INTEGRITY_HASH_REGEXP, "").match(HIGH_ENTROPY_CANDIDATE_REGEXP) ?? []) {
+        const isMixed = /[a-z]/.test(candidate) && /[A-Z]/.test(candidate) && /[0-9]/.test(candidate);
+        if (!isMixed || candidate.includes("/")) {
+            continue;
+        }
+        if (shannonEntropy(candidate) >= HIGH_ENTROPY_THRESHOLD) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Finds the kind of secret in a line of code
+ *
+ * @param knownSecrets - Exact values that must never be committed, e.g. the Junie API key
+ * @returns Name of the first matching rule, or `undefined` if the line looks clean
+ */
+export function findSecretInLine(line: string, knownSecrets: string[] = []): string | undefined {
+    if (line.includes(SECRET_SCAN_ALLOW_MARKER)) {
+        return undefined;
+    }
+    if (knownSecrets.some(secret => line.includes(secret))) {
+        return "Junie API key";
+    }
+    const rule = SECRET_RULES.find(rule => rule.pattern.test(line));
+    if (rule) {
+        return rule.name;
+    }
+    return hasHighEntropyString(line) ? HIGH_ENTROPY_RULE : undefined;
+}
+
+/**
+ * Scans the added lines of a unified diff (`git diff -U0`)
+ */
+export function scanDiffForSecrets(diff: string, knownSecrets: string[] = []): SecretFinding[] {
+    // Short values would match ordinary code
+    const secrets = knownSecrets.filter(secret => secret && secret.length >= 16);
+    const findings: SecretFinding[] = [];
+    let path: string | undefined;
+    let lineNumber = 0;
+
+    for (const line of diff.split("\n")) {
+        if (line.startsWith("+++ ")) {
+            path = line === "+++ /dev/null" ? undefined : line.slice(4).replace(/^b\//, "");
+            continue;
+        }
+        const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+        if (hunk) {
+            lineNumber = +hunk[1];
+            continue;
+        }
+        if (!path || !line.startsWith("+")) {
+            continue;
+        }
+        const rule = findSecretInLine(line.slice(1), secrets);
+        const isLockfile = LOCKFILE_NAMES.has(path.split("/").pop()!);
+        if (rule && !(rule === HIGH_ENTROPY_RULE && isLockfile)) {
+            findings.push({path, line: lineNumber, rule});
+        }
+        lineNumber++;
+    }
+    return findings;
+}
+
+/**
+ * Stages all changes and scans what would be pushed: the diff between `base` and the index
+ */
+export function scanStagedChangesForSecrets(base: string, knownSecrets: string[] = []): SecretFinding[] {
+    execFileSync("git", ["add", "-A"]);
+    const diff = execFileSync("git", ["diff", "--cached", "-U0", "--no-color", "--no-ext-diff", base], {
+        encoding: "utf-8",
+        maxBuffer: 256 * 1024 * 1024,
+    });
+    return scanDiffForSecrets(diff, knownSecrets);
+}
+
+/**
+ * Error failing the run when secrets were found, it only names the location and kind of each secret
+ */
+export function createSecretsFoundError(findings: SecretFinding[]): Error {
+    const findingList = findings.map(finding => `• ${finding.path}:${finding.line} (${finding.rule})`).join("\n");
+    return new Error(
+        `❌ Junie's changes contain what looks like secrets, nothing was committed or pushed.\n\n` +
+        `Findings:\n${findingList}\n\n` +
+        `Remove the secrets and run Junie again. If a finding is a false positive, ` +
+        `add a "${SECRET_SCAN_ALLOW_MARKER}" comment to the line or disable secret_scanning.`
+    );
+}
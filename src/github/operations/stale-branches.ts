@@ -0,0 +1,179 @@
+import type {Octokit} from "@octokit/rest";
+import {appendFileSync} from "fs";
+import {STALE_PR_CLOSED_COMMENT_TEMPLATE} from "../../constants/github";
+import {JunieExecutionContext} from "../context";
+import {createBranchNamePattern} from "./branch-name";
+
+export type StaleBranchCleanupOptions = {
+    owner: string;
+    repo: string;
+    branchPrefix: string;
+    // Template of Junie's working branch names, only branches matching it are cleaned up
+    branchTemplate: string;
+    // User ID of the token owner, PRs opened by someone else are never closed
+    authorId: number;
+    staleDays: number;
+    dryRun: boolean;
+    now?: Date;
+};
+
+export type StaleBranchCleanupAction = "delete-branch" | "close-pr";
+
+export type StaleBranchCleanupEntry = {
+    branch: string;
+    lastActivity: string;
+    action: StaleBranchCleanupAction;
+    pullRequest?: { number: number; url: string };
+    error?: string;
+};
+
+export type StaleBranchCleanupReport = {
+    dryRun: boolean;
+    staleDays: number;
+    entries: StaleBranchCleanupEntry[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Finds Junie branches without an open PR and Junie PRs that had no activity for `staleDays`.
+ * Junie's branches are recognized by the branch name template, PRs additionally by their author.
+ * Protected branches, PRs from forks and PRs opened by someone else (with their branches) are never touched.
+ */
+export async function findStaleJunieBranches(octokit: Octokit, options: StaleBranchCleanupOptions): Promise<StaleBranchCleanupEntry[]> {
+    const {owner, repo} = options;
+    const branchPattern = createBranchNamePattern(options.branchTemplate, options.branchPrefix);
+    const cutoff = (options.now ?? new Date()).getTime() - options.staleDays * DAY_MS;
+    const isStale = (date: string) => new Date(date).getTime() < cutoff;
+
+    const [branches, pullRequests] = await Promise.all([
+        octokit.paginate(octokit.rest.repos.listBranches, {owner, repo, per_page: 100}),
+        octokit.paginate(octokit.rest.pulls.list, {owner, repo, state: "open", per_page: 100}),
+    ]);
+
+    const entries: StaleBranchCleanupEntry[] = [];
+    const branchesWithOpenPr = new Set<string>();
+    for (const pr of pullRequests) {
+        if (!branchPattern.test(pr.head.ref) || pr.head.repo?.full_name !== `${owner}/${repo}`) {
+            continue;
+        }
+        branchesWithOpenPr.add(pr.head.ref);
+        if (pr.user?.id !== options.authorId) {
+            console.log(`PR #${pr.number} (${pr.head.ref}) was not opened by Junie, skipping it`);
+            continue;
+        }
+        if (isStale(pr.updated_at)) {
+            entries.push({
+                branch: pr.head.ref,
+                lastActivity: pr.updated_at,
+                action: "close-pr",
+                pullRequest: {number: pr.number, url: pr.html_url},
+            });
+        }
+    }
+
+    for (const branch of branches) {
+        if (!branchPattern.test(branch.name) || branch.protected || branchesWithOpenPr.has(branch.name)) {
+            continue;
+        }
+        const {data: commit} = await octokit.rest.repos.getCommit({owner, repo, ref: branch.commit.sha});
+        const lastActivity = commit.commit.committer?.date;
+        if (lastActivity && isStale(lastActivity)) {
+            entries.push({branch: branch.name, lastActivity, action: "delete-branch"});
+        }
+    }
+
+    return entries;
+}
+
+async function removeStaleEntry(octokit: Octokit, options: StaleBranchCleanupOptions, entry: StaleBranchCleanupEntry): Promise<void> {
+    const {owner, repo} = options;
+    if (entry.pullRequest) {
+        await octokit.rest.issues.createComment({
+            owner,
+            repo,
+            issue_number: entry.pullRequest.number,
+            body: STALE_PR_CLOSED_COMMENT_TEMPLATE(options.staleDays),
+        });
+        await octokit.rest.pulls.update({owner, repo, pull_number: entry.pullRequest.number, state: "closed"});
+    }
+    await octokit.rest.git.deleteRef({owner, repo, ref: `heads/${entry.branch}`});
+}
+
+/**
+ * Deletes stale Junie branches and closes stale Junie PRs with an explanatory comment.
+ * In dry-run mode nothing is changed, the report lists what would be removed.
+ * A failure to remove one branch doesn't stop the cleanup, it is recorded in the report.
+ */
+export async function cleanupStaleJunieBranches(octokit: Octokit, options: StaleBranchCleanupOptions): Promise<StaleBranchCleanupReport> {
+    console.log(`Looking for ${options.branchTemplate} branches without activity for ${options.staleDays} day(s)${options.dryRun ? " (dry run)" : ""}`);
+    const entries = await findStaleJunieBranches(octokit, options);
+
+    for (const entry of entries) {
+        const target = entry.pullRequest ? `PR #${entry.pullRequest.number} (${entry.branch})` : `branch ${entry.branch}`;
+        if (options.dryRun) {
+            console.log(`Would remove ${target}, last activity ${entry.lastActivity}`);
+            continue;
+        }
+        try {
+            await removeStaleEntry(octokit, options, entry);
+            console.log(`✓ Removed ${target}`);
+        } catch (error) {
+            entry.error = error instanceof Error ? error.message : String(error);
+            console.warn(`Failed to remove ${target}:`, entry.error);
+        }
+    }
+
+    return {dryRun: options.dryRun, staleDays: options.staleDays, entries};
+}
+
+function describeAction(entry: StaleBranchCleanupEntry, dryRun: boolean): string {
+    if (entry.error) {
+        return `❌ Failed: ${entry.error.split("\n")[0]}`;
+    }
+    if (entry.action === "close-pr") {
+        return dryRun ? "Would close PR and delete branch" : "PR closed, branch deleted";
+    }
+    return dryRun ? "Would delete branch" : "Branch deleted";
+}
+
+/**
+ * Formats the cleanup report as markdown for the job summary
+ */
+export function formatStaleBranchCleanupReport(report: StaleBranchCleanupReport): string {
+    const title = `## 🧹 Junie stale branch cleanup${report.dryRun ? " (dry run)" : ""}`;
+    const description = `Junie branches and PRs without activity for ${report.staleDays} day(s).`;
+    if (report.entries.length === 0) {
+        return `${title}\n\n${description}\n\nNo stale branches found.\n`;
+    }
+
+    const rows = report.entries.map(entry => {
+        const pullRequest = entry.pullRequest ? `[#${entry.pullRequest.number}](${entry.pullRequest.url})` : "-";
+        return `| \`${entry.branch}\` | ${entry.lastActivity.substring(0, 10)} | ${pullRequest} | ${describeAction(entry, report.dryRun)} |`;
+    });
+    return `${title}\n\n${description}\n\n` +
+        `| Branch | Last activity | Pull request | Action |\n` +
+        `|--------|---------------|--------------|--------|\n` +
+        `${rows.join("\n")}\n`;
+}
+
+/**
+ * Runs the cleanup for the repository of the scheduled workflow and writes the report to the job summary
+ */
+export async function runStaleBranchCleanup(octokit: Octokit, context: JunieExecutionContext): Promise<StaleBranchCleanupReport> {
+    const report = await cleanupStaleJunieBranches(octokit, {
+        owner: context.payload.repository.owner.login,
+        repo: context.payload.repository.name,
+        branchPrefix: context.inputs.config.branch.prefix,
+        branchTemplate: context.inputs.config.branch.template,
+        authorId: context.tokenOwner.id,
+        staleDays: context.inputs.staleBranchDays,
+        dryRun: context.inputs.cleanupDryRun,
+    });
+
+    const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+    if (summaryFile) {
+        appendFileSync(summaryFile, formatStaleBranchCleanupReport(report));
+    }
+    return report;
+}
@@ -0,0 +1,220 @@
+import {execFileSync, spawnSync} from "child_process";
+import {mkdirSync, readFileSync, rmSync, writeFileSync} from "fs";
+import {dirname} from "path";
+import {ENV_VARS} from "../../constants/environment";
+import {
+    createVerificationRepairPrompt,
+    VERIFICATION_COMMAND_TIMEOUT_MS,
+    VERIFICATION_OUTPUT_MAX_LENGTH,
+} from "../../constants/github";
+import {runJunieCli} from "../junie/junie-cli";
+
+export type VerificationFailureAction = "draft" | "skip-push" | "retry";
+
+export type VerificationConfig = {
+    // Shell commands run in the repository root, e.g. "npm run build"
+    commands: string[];
+    onFailure: VerificationFailureAction;
+    // Number of repair runs of Junie when `onFailure` is "retry"
+    maxRepairAttempts: number;
+};
+
+export type VerificationCommandResult = {
+    command: string;
+    passed: boolean;
+    exitCode: number | null;
+    timedOut: boolean;
+    // Tail of the combined stdout and stderr
+    output: string;
+};
+
+export type VerificationResult = {
+    passed: boolean;
+    commands: VerificationCommandResult[];
+    repairAttempts: number;
+};
+
+// Tokens of the action are removed from the environment of the commands, they run code Junie has just written.
+// Git credentials in .git/config (the token in the origin URL or the checkout auth header) stay readable,
+// the push after verification needs them.
+const SECRET_ENV_VARS = [
+    ENV_VARS.CLI_TOKEN,
+    ENV_VARS.GITHUB_TOKEN,
+    ENV_VARS.OVERRIDE_GITHUB_TOKEN,
+    ENV_VARS.DEFAULT_WORKFLOW_TOKEN,
+    ENV_VARS.APP_TOKEN,
+    ENV_VARS.APP_PRIVATE_KEY,
+    "GH_TOKEN",
+    "EJ_AUTH_GITHUB_TOKEN",
+    "ACTIONS_RUNTIME_TOKEN",
+    "ACTIONS_ID_TOKEN_REQUEST_TOKEN",
+];
+
+type WorkingTreeSnapshot = {
+    head: string;
+    // Stash commit with the tracked changes, empty if there were none
+    stash: string;
+    // Contents of the untracked files, e.g. files Junie created
+    untrackedFiles: Map<string, Buffer>;
+};
+
+function git(args: string[]): string {
+    return execFileSync("git", args, {encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"]});
+}
+
+function listUntrackedPaths(): string[] {
+    return git(["ls-files", "--others", "--exclude-standard", "-z"]).split("\0").filter(Boolean);
+}
+
+function snapshotWorkingTree(): WorkingTreeSnapshot {
+    return {
+        head: git(["rev-parse", "HEAD"]).trim(),
+        stash: git(["stash", "create"]).trim(),
+        untrackedFiles: new Map(listUntrackedPaths().map(path => [path, readFileSync(path)])),
+    };
+}
+
+/**
+ * Drops the changes made since the snapshot: tracked files and the index are reset, untracked files are restored or removed
+ */
+function restoreWorkingTree(snapshot: WorkingTreeSnapshot): void {
+    git(["reset", "-q", "--hard", snapshot.head]);
+    if (snapshot.stash) {
+        git(["stash", "apply", "-q", "--index", snapshot.stash]);
+    }
+    for (const path of listUntrackedPaths()) {
+        if (!snapshot.untrackedFiles.has(path)) {
+            rmSync(path, {force: true});
+        }
+    }
+    for (const [path, content] of snapshot.untrackedFiles) {
+        mkdirSync(dirname(path), {recursive: true});
+        writeFileSync(path, content);
+    }
+}
+
+/**
+ * Keeps the end of the output, where build tools and test runners print the failures
+ */
+export function trimCommandOutput(output: string, maxLength: number = VERIFICATION_OUTPUT_MAX_LENGTH): string {
+    const trimmed = output.trim();
+    if (trimmed.length <= maxLength) {
+        return trimmed;
+    }
+    return `...(truncated)\n${trimmed.slice(trimmed.length - maxLength)}`;
+}
+
+function getCommandEnv(): NodeJS.ProcessEnv {
+    const env = {...process.env};
+    for (const name of SECRET_ENV_VARS) {
+        delete env[name];
+    }
+    return env;
+}
+
+export function runVerificationCommand(command: string): VerificationCommandResult {
+    console.log(`Running verification command: ${command}`);
+    const result = spawnSync("bash", ["-c", `{\n${command}\n} 2>&1`], {
+        encoding: "utf-8",
+        env: getCommandEnv(),
+        timeout: VERIFICATION_COMMAND_TIMEOUT_MS,
+        maxBuffer: 64 * 1024 * 1024,
+    });
+    const timedOut = (result.error as NodeJS.ErrnoException | undefined)?.code === "ETIMEDOUT";
+    const passed = result.status === 0 && !result.error;
+    console.log(`${passed ? "✓" : "✗"} ${command} (exit code: ${result.status ?? "none"})`);
+    return {
+        command,
+        passed,
+        exitCode: result.status,
+        timedOut,
+        output: trimCommandOutput(`${result.stdout ?? ""}${result.error && !timedOut ? `\n${result.error.message}` : ""}`),
+    };
+}
+
+/**
+ * Runs all commands, also after a failure, so the report covers every command
+ */
+export function runVerificationCommands(commands: string[]): VerificationCommandResult[] {
+    return commands.map(runVerificationCommand);
+}
+
+/**
+ * Runs the commands and restores the working tree afterwards, so their side effects (build output,
+ * rewritten lockfiles, generated files) are neither pushed nor bypass the protected paths check
+ */
+function runVerificationCommandsOnSnapshot(commands: string[]): VerificationCommandResult[] {
+    const snapshot = snapshotWorkingTree();
+    try {
+        return runVerificationCommands(commands);
+    } finally {
+        restoreWorkingTree(snapshot);
+    }
+}
+
+function formatFailedCommandsOutput(commands: VerificationCommandResult[]): string {
+    return commands
+        .filter(command => !command.passed)
+        .map(command => `$ ${command.command}\n${command.output}`)
+        .join("\n\n");
+}
+
+/**
+ * Runs the verification commands against Junie's changes, the working tree is restored after each run.
+ * With the "retry" action Junie gets the output of the failed commands and another attempt to fix them,
+ * `onRepaired` is called after each repair run so the caller can re-check the changes.
+ */
+export async function verifyJunieChanges(config: VerificationConfig, onRepaired: () => Promise<void> = async () => {}): Promise<VerificationResult> {
+    let commands = runVerificationCommandsOnSnapshot(config.commands);
+    let repairAttempts = 0;
+
+    while (commands.some(command => !command.passed) && config.onFailure === "retry" && repairAttempts < config.maxRepairAttempts) {
+        repairAttempts++;
+        console.log(`Verification failed, asking Junie to repair the changes (attempt ${repairAttempts}/${config.maxRepairAttempts})`);
+        try {
+            runJunieCli({task: createVerificationRepairPrompt(formatFailedCommandsOutput(commands))});
+        } catch (error) {
+            console.warn("Junie repair run failed:", error instanceof Error ? error.message : error);
+            break;
+        }
+        await onRepaired();
+        commands = runVerificationCommandsOnSnapshot(config.commands);
+    }
+
+    return {passed: commands.every(command => command.passed), commands, repairAttempts};
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function describeCommandResult(command: VerificationCommandResult): string {
+    if (command.passed) {
+        return "✅ Passed";
+    }
+    return command.timedOut ? "❌ Timed out" : `❌ Failed (exit code ${command.exitCode ?? "none"})`;
+}
+
+/**
+ * Formats the verification results for the PR body and the feedback comment
+ *
+ * @param outcome - What happened to the changes because of the result, e.g. "The PR was opened as a draft."
+ */
+export function formatVerificationReport(result: VerificationResult, outcome?: string): string {
+    const status = result.passed ? "All verification commands passed." : "⚠️ Verification failed.";
+    const repairs = result.repairAttempts > 0 ? ` Junie made ${result.repairAttempts} repair attempt(s).` : "";
+    const rows = result.commands.map(command => `| \`${command.command.replace(/\|/g, "\\|")}\` | ${describeCommandResult(command)} |`);
+    const outputs = result.commands
+        .filter(command => !command.passed)
+        .map(command =>
+            `<details>\n<summary>Output of <code>${escapeHtml(command.command)}</code></summary>\n\n` +
+            `\`\`\`\n${command.output.replace(/```/g, "'''")}\n\`\`\`\n</details>`
+        );
+
+    return [
+        `### 🧪 Verification`,
+        `${status}${repairs}${outcome ? ` ${outcome}` : ""}`,
+        `| Command | Result |\n|---------|--------|\n${rows.join("\n")}`,
+        ...outputs,
+    ].join("\n\n");
+}
@@ -0,0 +1,175 @@
+import {$} from "bun";
+import {readFileSync} from "fs";
+import type {Octokits} from "../api/client";
+import {CREATE_COMMIT_ON_BRANCH_MUTATION, CreateCommitOnBranchMutationResponse} from "../api/queries";
+
+export type FileChanges = {
+    additions: Array<{ path: string; contents: string }>;
+    deletions: Array<{ path: string }>;
+};
+
+export type RawDiffEntry = {
+    status: string;
+    newMode: string;
+    path: string;
+};
+
+export type VerifiedCommitParams = {
+    owner: string;
+    repo: string;
+    workingBranch: string;
+    baseBranch: string;
+    isNewBranch: boolean;
+    message: string;
+};
+
+export type VerifiedCommitResult = {
+    sha: string;
+    url: string;
+};
+
+// File types createCommitOnBranch can't represent, file additions only carry the content
+const UNSUPPORTED_FILE_MODES: Record<string, string> = {
+    "120000": "symlink",
+    "160000": "submodule",
+};
+
+/**
+ * Parses `git diff --raw -z` output
+ */
+export function parseRawDiff(output: string): RawDiffEntry[] {
+    const entries: RawDiffEntry[] = [];
+    const parts = output.split("\0");
+    for (let i = 0; i + 1 < parts.length; i += 2) {
+        // Format: ":<old mode> <new mode> <old sha> <new sha> <status>"
+        const [, newMode, , , status] = parts[i].replace(/^:/, "").split(" ");
+        entries.push({status, newMode, path: parts[i + 1]});
+    }
+    return entries;
+}
+
+/**
+ * Splits the commit message into the headline and body expected by createCommitOnBranch
+ */
+export function splitCommitMessage(message: string): { headline: string; body?: string } {
+    const [headline, ...rest] = message.trim().split("\n");
+    const body = rest.join("\n").trim();
+    return body ? {headline, body} : {headline};
+}
+
+/**
+ * Collects all changes between the parent commit and the working tree:
+ * unpushed local commits, staged, unstaged and untracked files
+ *
+ * @throws {Error} if the changes contain symlinks or submodules
+ */
+export async function collectFileChanges(parentSha: string): Promise<FileChanges> {
+    await $`git add -A`;
+    const rawDiff = await $`git diff --cached --raw -z --no-renames ${parentSha}`.text();
+
+    const changes: FileChanges = {additions: [], deletions: []};
+    for (const entry of parseRawDiff(rawDiff)) {
+        if (entry.status === "D") {
+            changes.deletions.push({path: entry.path});
+            continue;
+        }
+        const unsupportedType = UNSUPPORTED_FILE_MODES[entry.newMode];
+        if (unsupportedType) {
+            throw new Error(
+                `❌ Can't create a verified commit: ${entry.path} is a ${unsupportedType}.\n\n` +
+                `Verified commits only support regular files. Disable verified_commits to commit it with git.`
+            );
+        }
+        if (entry.newMode === "100755") {
+            console.warn(`Executable mode of ${entry.path} is not preserved by verified commits`);
+        }
+        changes.additions.push({path: entry.path, contents: readFileSync(entry.path).toString("base64")});
+    }
+    return changes;
+}
+
+async function getParentCommit(params: VerifiedCommitParams): Promise<string> {
+    // New branches start from the base branch, existing ones from the state they were checked out in
+    const parentBranch = params.isNewBranch ? params.baseBranch : params.workingBranch;
+    const parentSha = (await $`git rev-parse ${`origin/${parentBranch}`}`.text()).trim();
+
+    const merges = (await $`git rev-list --merges ${`${parentSha}..HEAD`}`.text()).trim();
+    if (merges) {
+        throw new Error(
+            `❌ Can't create a verified commit: the local changes contain merge commits.\n\n` +
+            `Merge commits can't be created through the GitHub API. Disable verified_commits to push them with git.`
+        );
+    }
+    return parentSha;
+}
+
+/**
+ * Creates the working branch on GitHub, pointing to the parent commit
+ */
+async function ensureRemoteBranch(octokits: Octokits, params: VerifiedCommitParams, parentSha: string): Promise<void> {
+    const {owner, repo, workingBranch} = params;
+    try {
+        await octokits.rest.git.createRef({owner, repo, ref: `refs/heads/${workingBranch}`, sha: parentSha});
+        console.log(`✓ Created branch ${workingBranch} at ${parentSha}`);
+    } catch (error: any) {
+        if (error?.status !== 422) {
+            throw error;
+        }
+        // Already created, e.g. when the step is re-run
+        const {data} = await octokits.rest.git.getRef({owner, repo, ref: `heads/${workingBranch}`});
+        if (data.object.sha !== parentSha) {
+            throw new Error(`Branch ${workingBranch} already exists and points to ${data.object.sha} instead of ${parentSha}`);
+        }
+    }
+}
+
+/**
+ * Commits all local changes to the working branch through the GraphQL `createCommitOnBranch` mutation,
+ * so GitHub signs the commit and shows it as verified. Unpushed local commits are squashed into it.
+ * The local branch is reset to the created commit afterward.
+ *
+ * @returns The created commit, or `undefined` if there is nothing to commit
+ * @throws {Error} if the branch moved on GitHub since it was checked out or the API rejects the commit
+ */
+export async function createVerifiedCommit(octokits: Octokits, params: VerifiedCommitParams): Promise<VerifiedCommitResult | undefined> {
+    const {owner, repo, workingBranch} = params;
+    const parentSha = await getParentCommit(params);
+    const fileChanges = await collectFileChanges(parentSha);
+    if (fileChanges.additions.length === 0 && fileChanges.deletions.length === 0) {
+        console.log("No changes to commit");
+        return undefined;
+    }
+
+    console.log(`Creating verified commit on ${workingBranch}: ${fileChanges.additions.length} file(s) changed, ${fileChanges.deletions.length} file(s) deleted`);
+    try {
+        if (params.isNewBranch) {
+            await ensureRemoteBranch(octokits, params, parentSha);
+        }
+
+        const response = await octokits.graphql<CreateCommitOnBranchMutationResponse>(CREATE_COMMIT_ON_BRANCH_MUTATION, {
+            input: {
+                branch: {repositoryNameWithOwner: `${owner}/${repo}`, branchName: workingBranch},
+                message: splitCommitMessage(params.message),
+                expectedHeadOid: parentSha,
+                fileChanges,
+            },
+        });
+        const commit = response.createCommitOnBranch.commit;
+        console.log(`✓ Created verified commit ${commit.oid}: ${commit.url}`);
+
+        await $`git fetch origin ${`+${workingBranch}:refs/remotes/origin/${workingBranch}`}`;
+        await $`git reset -q --hard ${`origin/${workingBranch}`}`;
+        await $`git branch -q --set-upstream-to=${`origin/${workingBranch}`}`;
+
+        return {sha: commit.oid, url: commit.url};
+    } catch (error) {
+        throw new Error(
+            `❌ Failed to create verified commit on branch "${workingBranch}". ` +
+            `This could be due to:\n` +
+            `• Branch "${workingBranch}" was updated on GitHub while Junie was working\n` +
+            `• Insufficient token permissions (needs 'contents:write' scope)\n` +
+            `• Branch protection rules rejecting the commit\n` +
+            `Original error: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
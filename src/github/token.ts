@@ -1,25 +1,66 @@
 #!/usr/bin/env bun
 import * as core from "@actions/core";
+import * as github from "@actions/github";
 import {ENV_VARS, OUTPUT_VARS} from "../constants/environment";
+import {createInstallationToken} from "./operations/app-token";
 
 export interface GitHubTokenConfig {
     workingToken: string;
     defaultToken: string;
     isDefaultToken: (token?: string) => boolean;
+    // Permissions of the working token when they are known upfront (minted GitHub App token)
+    permissions?: Record<string, string>;
+    // The working token was minted by the action and must be revoked when the workflow finishes
+    isAppInstallationToken?: boolean;
+}
+
+/**
+ * Mints an installation token of the GitHub App for the current repository
+ */
+async function mintGitHubAppToken(appId: string, privateKey: string): Promise<{ token: string, permissions: Record<string, string> }> {
+    const {owner, repo} = github.context.repo;
+    try {
+        return await createInstallationToken({
+            appId,
+            privateKey,
+            installationId: process.env[ENV_VARS.APP_INSTALLATION_ID] || undefined,
+        }, owner, repo);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(
+            `❌ Failed to create GitHub App installation token.\n\n` +
+            `This could be due to:\n` +
+            `• Invalid app_id or app_private_key\n` +
+            `• The GitHub App is not installed on ${owner}/${repo}\n` +
+            `• Wrong app_installation_id\n\n` +
+            `Original error: ${errorMessage}`
+        );
+    }
 }
 
 /**
  * Acquires and configures GitHub authentication token for Junie workflow
- * Prioritizes custom token if provided, otherwise uses default workflow token
+ * Prioritizes custom token if provided, then a token minted from GitHub App credentials,
+ * otherwise uses default workflow token
  */
 export async function acquireGitHubAuthentication(): Promise<GitHubTokenConfig> {
     const defaultToken = process.env[ENV_VARS.DEFAULT_WORKFLOW_TOKEN]!;
     const providedToken = process.env[ENV_VARS.OVERRIDE_GITHUB_TOKEN];
+    const appId = process.env[ENV_VARS.APP_ID];
+    const appPrivateKey = process.env[ENV_VARS.APP_PRIVATE_KEY];
 
     let workingToken: string;
+    let permissions: Record<string, string> | undefined;
+    let isAppInstallationToken = false;
     if (providedToken) {
         console.log("Using provided OVERRIDE_GITHUB_TOKEN for authentication");
         workingToken = providedToken;
+    } else if (appId && appPrivateKey) {
+        console.log(`Using installation token of GitHub App ${appId} for authentication`);
+        ({token: workingToken, permissions} = await mintGitHubAppToken(appId, appPrivateKey));
+        isAppInstallationToken = true;
+        // The feedback step revokes the token at the end of the workflow, or prepare when the event is skipped
+        core.setOutput(OUTPUT_VARS.IS_APP_INSTALLATION_TOKEN, "true");
     } else {
         console.log("Using DEFAULT_WORKFLOW_TOKEN for authentication");
         workingToken = defaultToken;
@@ -33,6 +74,8 @@ export async function acquireGitHubAuthentication(): Promise<GitHubTokenConfig>
         defaultToken,
         isDefaultToken: () => {
             return workingToken === defaultToken;
-        }
+        },
+        permissions,
+        isAppInstallationToken,
     };
 }
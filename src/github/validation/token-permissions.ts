@@ -0,0 +1,190 @@
+import {appendFileSync} from "fs";
+import {isDiscussionRelatedEvent, JunieExecutionContext} from "../context";
+import type {Octokits} from "../api/client";
+import type {GitHubTokenConfig} from "../token";
+import type {PermissionLevel} from "../operations/app-token";
+import {isReadOnlyJunieCommand} from "./trigger";
+import {isFixFailingChecksRun} from "../operations/fix-checks";
+
+export interface GrantedPermissions {
+    source: string;
+    permissions: Record<string, string>;
+}
+
+export interface PermissionCheck {
+    name: string;
+    required: PermissionLevel;
+    granted?: string;
+    satisfied: boolean;
+}
+
+// Repository permissions covered by the classic `repo` scope
+const CLASSIC_REPO_SCOPE_PERMISSIONS = ["contents", "pull_requests", "issues", "discussions", "actions", "checks", "statuses"];
+
+/**
+ * Works out which permissions the token needs for this event and inputs
+ */
+export function getRequiredPermissions(context: JunieExecutionContext): Record<string, PermissionLevel> {
+    const required: Record<string, PermissionLevel> = {contents: "read"};
+    const isDiscussion = isDiscussionRelatedEvent(context);
+    const isReadOnly = isReadOnlyJunieCommand(context);
+
+    if (!context.inputs.silentMode) {
+        if (isDiscussion) {
+            // Discussions are only answered with a comment
+            required.discussions = "write";
+        } else {
+            // Feedback comments, PR comments use the issues API as well
+            required.issues = "write";
+            // Patch mode only writes the changes to a file, nothing is pushed
+            const pushesChanges = !isReadOnly && !context.inputs.patchMode;
+            if (pushesChanges) {
+                required.contents = "write";
+            }
+            if (pushesChanges || context.isPR) {
+                // Creating PRs or posting inline review comments
+                required.pull_requests = "write";
+            }
+        }
+    }
+
+    if (isFixFailingChecksRun(context)) {
+        required.actions = "read";
+        required.checks = "read";
+    }
+
+    return required;
+}
+
+/**
+ * Maps classic OAuth/PAT scopes to repository permissions
+ */
+export function mapOAuthScopesToPermissions(scopes: string[], isPrivateRepo: boolean): Record<string, string> {
+    const permissions: Record<string, string> = {};
+    const hasRepoScope = scopes.includes("repo") || (!isPrivateRepo && scopes.includes("public_repo"));
+    for (const name of CLASSIC_REPO_SCOPE_PERMISSIONS) {
+        if (hasRepoScope) {
+            permissions[name] = "write";
+        } else if (!isPrivateRepo) {
+            // Public repositories are readable by any token
+            permissions[name] = "read";
+        }
+    }
+    return permissions;
+}
+
+/**
+ * Reads the permissions granted to the working token.
+ *
+ * Known for minted GitHub App tokens and classic PATs (`x-oauth-scopes` header).
+ * The permissions of the default workflow token and fine-grained PATs can't be read back.
+ *
+ * @returns Granted permissions or `undefined` if they can't be determined
+ */
+export async function getGrantedPermissions(
+    octokit: Octokits,
+    tokenConfig: GitHubTokenConfig,
+    context: JunieExecutionContext,
+): Promise<GrantedPermissions | undefined> {
+    if (tokenConfig.permissions) {
+        return {source: "GitHub App installation token", permissions: tokenConfig.permissions};
+    }
+    if (tokenConfig.isDefaultToken()) {
+        return undefined;
+    }
+
+    const response = await octokit.rest.request("GET /rate_limit");
+    const scopesHeader = response.headers["x-oauth-scopes"];
+    const scopes = String(scopesHeader ?? "").split(",").map(scope => scope.trim()).filter(Boolean);
+    // Fine-grained tokens send an empty header, their permissions can't be read upfront
+    if (scopes.length === 0) {
+        return undefined;
+    }
+
+    return {
+        source: `token scopes: ${scopes.join(", ")}`,
+        permissions: mapOAuthScopesToPermissions(scopes, context.payload.repository.private),
+    };
+}
+
+function isLevelSatisfied(required: PermissionLevel, granted?: string): boolean {
+    if (required === "read") {
+        return granted === "read" || granted === "write" || granted === "admin";
+    }
+    return granted === "write" || granted === "admin";
+}
+
+/**
+ * Compares required permissions with the granted ones
+ */
+export function checkPermissions(required: Record<string, PermissionLevel>, granted: Record<string, string>): PermissionCheck[] {
+    return Object.entries(required).map(([name, level]) => ({
+        name,
+        required: level,
+        granted: granted[name],
+        satisfied: isLevelSatisfied(level, granted[name]),
+    }));
+}
+
+/**
+ * Formats the required vs granted permissions as a markdown table
+ */
+export function formatPermissionsTable(checks: PermissionCheck[]): string {
+    const rows = checks.map(check =>
+        `| \`${check.name}\` | ${check.required} | ${check.granted || "none"} | ${check.satisfied ? "✅" : "❌"} |`
+    );
+    return [
+        "| Permission | Required | Granted | |",
+        "|------------|----------|---------|---|",
+        ...rows,
+    ].join("\n");
+}
+
+/**
+ * Fails early when the token lacks permissions needed for this event,
+ * instead of failing later with a generic error from the GitHub API.
+ * The required vs granted permissions are written to the job summary.
+ *
+ * @throws {Error} if any required permission is missing
+ */
+export async function verifyTokenPermissions(
+    octokit: Octokits,
+    tokenConfig: GitHubTokenConfig,
+    context: JunieExecutionContext,
+): Promise<void> {
+    let granted: GrantedPermissions | undefined;
+    try {
+        granted = await getGrantedPermissions(octokit, tokenConfig, context);
+    } catch (error) {
+        console.warn("Failed to read token permissions, skipping preflight check:", error);
+        return;
+    }
+
+    if (!granted) {
+        console.log("Token permissions can't be determined, skipping preflight check");
+        return;
+    }
+
+    const checks = checkPermissions(getRequiredPermissions(context), granted.permissions);
+    const missing = checks.filter(check => !check.satisfied);
+    if (missing.length === 0) {
+        console.log(`✓ Token has all required permissions (${granted.source})`);
+        return;
+    }
+
+    const table = formatPermissionsTable(checks);
+    const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+    if (summaryFile) {
+        appendFileSync(summaryFile, `## ❌ Missing GitHub token permissions\n\nGranted permissions are based on the ${granted.source}.\n\n${table}\n`);
+    }
+
+    const missingList = missing.map(check => `• ${check.name}: ${check.required} (granted: ${check.granted || "none"})`).join("\n");
+    throw new Error(
+        `❌ The GitHub token is missing permissions required for this event.\n\n` +
+        `Missing permissions:\n${missingList}\n\n` +
+        `This could be due to:\n` +
+        `• Custom token or GitHub App without these permissions\n` +
+        `• Permissions of the GitHub App not accepted for the installation\n\n` +
+        `See the job summary for the full list of required and granted permissions.`
+    );
+}
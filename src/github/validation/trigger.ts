@@ -1,7 +1,9 @@
 #!/usr/bin/env bun
 
-import type {JunieExecutionContext} from "../context";
+import type {JunieCommand, JunieExecutionContext} from "../context";
 import {
+    isDiscussionCommentEvent,
+    isDiscussionEvent,
     isIssueCommentEvent,
     isIssuesAssignedEvent,
     isIssuesEvent,
@@ -9,7 +11,12 @@ import {
     isPullRequestReviewCommentEvent,
     isPullRequestReviewEvent,
 } from "../context";
-import {CODE_REVIEW_TRIGGER_PHRASE_REGEXP, RESOLVE_CONFLICTS_TRIGGER_PHRASE_REGEXP} from "../../constants/github";
+import {
+    JUNIE_COMMANDS,
+    JunieCommandName,
+    LEGACY_COMMAND_PHRASES,
+    UNKNOWN_COMMAND
+} from "../../constants/github";
 
 /**
  * Detects if the Junie trigger phrase is present in the workflow context
@@ -19,7 +26,7 @@ export function detectJunieTriggerPhrase(context: JunieExecutionContext): boolea
     const {
         inputs: {assigneeTrigger, labelTrigger, triggerPhrase},
     } = context;
-    const triggerPhraseRegex = new RegExp(`(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`, 'i');
+    const triggerPhraseRegex = createTriggerPhraseRegExp(triggerPhrase);
 
     if (isIssuesAssignedEvent(context)) {
         let triggerUser = assigneeTrigger.replace(/^@/, "");
@@ -77,6 +84,33 @@ export function detectJunieTriggerPhrase(context: JunieExecutionContext): boolea
             return true;
         }
     }
+    if (isDiscussionEvent(context) && context.eventAction === "labeled") {
+        const labelName = (context.payload as any).label?.name || "";
+
+        if (labelTrigger && labelName === labelTrigger) {
+            console.log(`Discussion labeled with trigger label '${labelTrigger}'`);
+            return true;
+        }
+    }
+
+    if (isDiscussionEvent(context) && context.eventAction === "created") {
+        const discussionBody = context.payload.discussion.body || "";
+        const discussionTitle = context.payload.discussion.title || "";
+
+        if (triggerPhraseRegex.test(discussionBody)) {
+            console.log(
+                `Discussion body contains exact trigger phrase '${triggerPhrase}'`,
+            );
+            return true;
+        }
+
+        if (triggerPhraseRegex.test(discussionTitle)) {
+            console.log(
+                `Discussion title contains exact trigger phrase '${triggerPhrase}'`,
+            );
+            return true;
+        }
+    }
     const hasTrigger = isReviewOrCommentHasTrigger(context, triggerPhraseRegex)
 
     if (hasTrigger) {
@@ -87,12 +121,105 @@ export function detectJunieTriggerPhrase(context: JunieExecutionContext): boolea
     return false;
 }
 
-export function isReviewOrCommentHasResolveConflictsTrigger(context: JunieExecutionContext) {
-    return isReviewOrCommentHasTrigger(context, RESOLVE_CONFLICTS_TRIGGER_PHRASE_REGEXP)
+/**
+ * Parses the command that follows the trigger phrase.
+ *
+ * Grammar: `<trigger> /<command> [key=value ...] [free text]`, where values may be quoted.
+ * The command name must end the word, so paths like `/src/foo.ts` are part of a regular prompt.
+ * Legacy phrases without a slash (`code-review`, `resolve conflicts`) are mapped to their commands.
+ *
+ * @param text - Comment, review or issue text containing the trigger phrase
+ * @param triggerPhrase - Configured trigger phrase (e.g. "@junie-agent")
+ * @returns Parsed command, a command named "unknown" for unrecognized slash commands,
+ * or `undefined` if the trigger phrase is not followed by a command
+ */
+export function parseJunieCommand(text: string, triggerPhrase: string): JunieCommand | undefined {
+    const triggerMatch = createTriggerPhraseRegExp(triggerPhrase).exec(text);
+    if (!triggerMatch) {
+        return undefined;
+    }
+
+    let rest = text.slice(triggerMatch.index + triggerMatch[0].length).trimStart();
+    let rawName: string;
+
+    const legacyPhrase = Object.keys(LEGACY_COMMAND_PHRASES).find(phrase =>
+        new RegExp(`^${escapeRegExp(phrase)}([\\s.,!?;:]|$)`, 'i').test(rest)
+    );
+    if (legacyPhrase) {
+        rawName = legacyPhrase;
+        rest = rest.slice(legacyPhrase.length);
+    } else {
+        const slashMatch = /^\/([A-Za-z][\w-]*)(?=[\s,!?;:]|$)/.exec(rest);
+        if (!slashMatch) {
+            return undefined;
+        }
+        rawName = slashMatch[1].toLowerCase();
+        rest = rest.slice(slashMatch[0].length);
+    }
+
+    // Arguments are only read from the command line itself, free text may follow them
+    const args: Record<string, string> = {};
+    const argRegex = /^[ \t]+([A-Za-z][\w-]*)=(?:"([^"]*)"|'([^']*)'|(\S+))/;
+    let argMatch: RegExpExecArray | null;
+    while ((argMatch = argRegex.exec(rest)) !== null) {
+        args[argMatch[1].toLowerCase()] = argMatch[2] ?? argMatch[3] ?? argMatch[4];
+        rest = rest.slice(argMatch[0].length);
+    }
+
+    let name: JunieCommand["name"];
+    if (legacyPhrase) {
+        name = LEGACY_COMMAND_PHRASES[legacyPhrase];
+    } else if (Object.prototype.hasOwnProperty.call(JUNIE_COMMANDS, rawName)) {
+        name = rawName as JunieCommandName;
+    } else {
+        name = UNKNOWN_COMMAND;
+    }
+
+    return {name, rawName, args};
+}
+
+/**
+ * Extracts the Junie command from the text that triggered the workflow
+ * (comment, review, issue or pull request body/title)
+ */
+export function extractJunieCommand(context: JunieExecutionContext): JunieCommand | undefined {
+    const triggerPhrase = context.inputs.triggerPhrase;
+    const candidates: (string | null | undefined)[] = [];
+
+    if (isIssueCommentEvent(context) || isPullRequestReviewCommentEvent(context) || isDiscussionCommentEvent(context)) {
+        candidates.push(context.payload.comment.body);
+    } else if (isPullRequestReviewEvent(context)) {
+        candidates.push(context.payload.review.body);
+    } else if (isIssuesEvent(context)) {
+        candidates.push(context.payload.issue.body, context.payload.issue.title);
+    } else if (isPullRequestEvent(context)) {
+        candidates.push(context.payload.pull_request.body, context.payload.pull_request.title);
+    } else if (isDiscussionEvent(context)) {
+        candidates.push(context.payload.discussion.body, context.payload.discussion.title);
+    }
+
+    for (const text of candidates) {
+        const command = text ? parseJunieCommand(text, triggerPhrase) : undefined;
+        if (command) {
+            return command;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks whether the workflow was triggered with the given command
+ */
+export function hasJunieCommand(context: JunieExecutionContext, name: JunieCommandName): boolean {
+    return context.command?.name === name;
 }
 
-export function isReviewOrCommentHasCodeReviewTrigger(context: JunieExecutionContext) {
-    return isReviewOrCommentHasTrigger(context, CODE_REVIEW_TRIGGER_PHRASE_REGEXP)
+/**
+ * Checks whether the triggering command must not modify the repository
+ */
+export function isReadOnlyJunieCommand(context: JunieExecutionContext): boolean {
+    const name = context.command?.name;
+    return !!name && name !== UNKNOWN_COMMAND && JUNIE_COMMANDS[name].readOnly;
 }
 
 export function isReviewOrCommentHasTrigger(context: JunieExecutionContext, regExp: RegExp) {
@@ -112,7 +239,8 @@ export function isReviewOrCommentHasTrigger(context: JunieExecutionContext, regE
 
     if (
         isIssueCommentEvent(context) ||
-        isPullRequestReviewCommentEvent(context)
+        isPullRequestReviewCommentEvent(context) ||
+        isDiscussionCommentEvent(context)
     ) {
         const commentBody = context.payload.comment.body;
 
@@ -123,6 +251,10 @@ export function isReviewOrCommentHasTrigger(context: JunieExecutionContext, regE
     }
 }
 
+function createTriggerPhraseRegExp(triggerPhrase: string): RegExp {
+    return new RegExp(`(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`, 'i');
+}
+
 export function escapeRegExp(string: string) {
     return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -2,15 +2,41 @@
 
 import {McpServer} from "@modelcontextprotocol/sdk/server/mcp.js";
 import {StdioServerTransport} from "@modelcontextprotocol/sdk/server/stdio.js";
-import {z} from "zod";
+import {z} from "zod/v4";
 import {Octokit} from "@octokit/rest";
+import {rmSync, writeFileSync} from "fs";
 import {GITHUB_API_URL} from "../github/api/config";
+import {
+    fetchPullRequestDiffPositions,
+    PullRequestDiffPositions,
+    validateCommentPosition
+} from "../github/operations/diff-positions";
+import {
+    addPendingReviewComment,
+    getOrCreatePendingReview,
+    REVIEW_EVENTS,
+    ReviewEvent,
+    submitPendingReview
+} from "../github/operations/pending-review";
+import {
+    ExistingReviewComment,
+    fetchUnresolvedReviewComments,
+    findDuplicateComment
+} from "../github/operations/review-dedupe";
 
 /**
  * GitHub Inline Comment MCP Server
  *
  * Provides MCP tools for creating inline code review comments on pull requests.
  * Supports GitHub's suggestion feature for proposing code changes directly in PR comments.
+ *
+ * Comment positions are validated against the PR diff fetched at startup, so the agent gets the nearest
+ * valid line range instead of a GitHub validation error.
+ *
+ * Comments repeating an unresolved comment on the same line (e.g. from a previous review run) are skipped.
+ *
+ * Comments are collected into a pending review and published at once with `submit_review`,
+ * so reviewers get a single notification. A review left pending is submitted when the run ends.
  */
 
 interface ServerConfig {
@@ -20,6 +46,13 @@ interface ServerConfig {
     prNumber: number;
     apiUrl: string;
     commitSha: string;
+    // File the ID of the pending review created by this server is written to, for the leftover review submission
+    createdReviewFile?: string;
+}
+
+interface ReviewState {
+    // Pending review created by this server, other pending reviews of the token owner are never touched
+    createdReviewId?: string;
 }
 
 interface InlineCommentParams {
@@ -33,7 +66,16 @@ interface InlineCommentParams {
 interface CommentResult {
     success: boolean;
     commentId?: number;
+    reviewId?: string;
+    threadId?: string;
+    error?: string;
+    details?: string;
+}
+
+interface SubmitReviewResult {
+    success: boolean;
     url?: string;
+    state?: string;
     error?: string;
     details?: string;
 }
@@ -48,6 +90,7 @@ function loadConfiguration(): ServerConfig {
     const prNumber = process.env.PR_NUMBER;
     const commitSha = process.env.COMMIT_SHA;
     const apiUrl = process.env.GITHUB_API_URL || GITHUB_API_URL;
+    const createdReviewFile = process.env.CREATED_REVIEW_FILE || undefined;
 
     if (!token || !owner || !repo || !prNumber || !commitSha) {
         process.exit(1);
@@ -65,6 +108,7 @@ function loadConfiguration(): ServerConfig {
         prNumber: parsedPrNumber,
         apiUrl,
         commitSha,
+        createdReviewFile,
     };
 }
 
@@ -104,49 +148,46 @@ function validateCommentParams(params: InlineCommentParams): {
     return {valid: true};
 }
 
+function createOctokit(config: ServerConfig): Octokit {
+    return new Octokit({
+        auth: config.token,
+        baseUrl: config.apiUrl,
+    });
+}
+
 /**
- * Creates an inline review comment on a PR
+ * Adds an inline review comment to the pending review of the PR
  */
 async function createInlineComment(
     config: ServerConfig,
+    state: ReviewState,
     params: InlineCommentParams
 ): Promise<CommentResult> {
     try {
-        const octokit = new Octokit({
-            auth: config.token,
-            baseUrl: config.apiUrl,
-        });
+        const octokit = createOctokit(config);
+        const pullRequest = {owner: config.owner, repo: config.repo, prNumber: config.prNumber};
+        const {reviewId, created} = await getOrCreatePendingReview(octokit, pullRequest, config.commitSha, state.createdReviewId);
+        if (created) {
+            state.createdReviewId = reviewId;
+            if (config.createdReviewFile) {
+                writeFileSync(config.createdReviewFile, reviewId, "utf-8");
+            }
+        }
 
-        // Prepare the comment request
-        const requestParams: any = {
-            owner: config.owner,
-            repo: config.repo,
-            pull_number: config.prNumber,
-            body: params.commentBody,
+        // Single-line comments only have an end line, multi-line comments also have a start line
+        const {threadId, commentId} = await addPendingReviewComment(octokit, reviewId, {
             path: params.filePath,
-            commit_id: config.commitSha,
+            body: params.commentBody,
+            line: params.lineNumber!,
             side: params.diffSide || "RIGHT",
-        };
-
-        // Determine if this is a single-line or multi-line comment
-        const isMultiLine = params.startLineNumber !== undefined;
-
-        if (isMultiLine) {
-            // Multi-line comment
-            requestParams.start_line = params.startLineNumber;
-            requestParams.start_side = params.diffSide || "RIGHT";
-            requestParams.line = params.lineNumber;
-        } else {
-            // Single-line comment
-            requestParams.line = params.lineNumber;
-        }
-
-        const response = await octokit.rest.pulls.createReviewComment(requestParams);
+            startLine: params.startLineNumber,
+        });
 
         return {
             success: true,
-            commentId: response.data.id,
-            url: response.data.html_url,
+            commentId,
+            reviewId,
+            threadId,
         };
     } catch (error: any) {
         let errorMsg = "Failed to create inline comment";
@@ -157,9 +198,11 @@ async function createInlineComment(
         }
 
         // Provide helpful context for common errors
-        if (errorMsg.includes("Validation Failed")) {
+        if (errorMsg.includes("not started by Junie")) {
+            details = "Inline comments can't be posted on this PR. Report the findings in the 'answer' tool instead.";
+        } else if (errorMsg.includes("Validation Failed") || errorMsg.includes("diff")) {
             details = "The specified line may not exist in the diff, or the file path may be incorrect. Ensure you're commenting on lines that are part of the PR changes.";
-        } else if (errorMsg.includes("Not Found")) {
+        } else if (errorMsg.includes("Not Found") || errorMsg.includes("Could not resolve")) {
             details = "Could not find the specified PR, repository, or file. Verify that the PR number and file path are correct.";
         } else if (error.status === 403) {
             details = "Permission denied. The GitHub token may lack required permissions for creating PR comments.";
@@ -173,22 +216,101 @@ async function createInlineComment(
     }
 }
 
+/**
+ * Publishes the pending review with all collected comments.
+ * Without inline comments, a review containing only the summary is created and submitted.
+ */
+async function submitReview(
+    config: ServerConfig,
+    state: ReviewState,
+    event: ReviewEvent,
+    body?: string
+): Promise<SubmitReviewResult> {
+    try {
+        const octokit = createOctokit(config);
+        const pullRequest = {owner: config.owner, repo: config.repo, prNumber: config.prNumber};
+        const {reviewId} = await getOrCreatePendingReview(octokit, pullRequest, config.commitSha, state.createdReviewId);
+        const review = await submitPendingReview(octokit, reviewId, event, body);
+        state.createdReviewId = undefined;
+        if (config.createdReviewFile) {
+            rmSync(config.createdReviewFile, {force: true});
+        }
+
+        return {
+            success: true,
+            url: review.url,
+            state: review.state,
+        };
+    } catch (error: any) {
+        let errorMsg = error.message || "Failed to submit review";
+        let details = "";
+
+        if (errorMsg.includes("not started by Junie")) {
+            details = "The pending review of the token owner was not submitted. Report the review in the 'answer' tool instead.";
+        } else if (errorMsg.includes("approve")) {
+            details = "The token is not allowed to approve this pull request (e.g. approving own PRs or GitHub Actions approvals are disabled). Submit with COMMENT instead.";
+        } else if (errorMsg.includes("body")) {
+            details = "A summary body is required for COMMENT and REQUEST_CHANGES reviews without inline comments.";
+        }
+
+        return {
+            success: false,
+            error: errorMsg,
+            details,
+        };
+    }
+}
+
+/**
+ * Fetches the PR diff used to validate comment positions.
+ * Validation is skipped when the diff can't be fetched, GitHub still rejects invalid positions.
+ */
+async function loadDiffPositions(config: ServerConfig): Promise<PullRequestDiffPositions | undefined> {
+    try {
+        return await fetchPullRequestDiffPositions(createOctokit(config), {
+            owner: config.owner,
+            repo: config.repo,
+            prNumber: config.prNumber,
+        });
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Loads unresolved review comments to skip duplicates of them.
+ * Deduplication is skipped when they can't be fetched.
+ */
+async function loadExistingComments(config: ServerConfig): Promise<ExistingReviewComment[]> {
+    try {
+        return await fetchUnresolvedReviewComments(createOctokit(config), {
+            owner: config.owner,
+            repo: config.repo,
+            prNumber: config.prNumber,
+        });
+    } catch {
+        return [];
+    }
+}
+
 /**
  * Starts the MCP server
  */
 async function initializeServer() {
     const config = loadConfiguration();
+    const diffPositions = await loadDiffPositions(config);
+    const existingComments = await loadExistingComments(config);
+    const reviewState: ReviewState = {};
 
     const server = new McpServer({
         name: "Junie GitHub Inline Comment Server",
         version: "1.0.0",
     });
 
-    // @ts-expect-error - MCP SDK v1.25+ has deep type instantiation issues
     server.registerTool(
         "post_inline_review_comment",
         {
-            description: "Posts an inline code review comment on a specific file and line in the pull request. Supports GitHub's suggestion syntax for proposing code changes.",
+            description: "Adds an inline code review comment on a specific file and line to the pending pull request review. Comments stay pending until 'submit_review' is called. Supports GitHub's suggestion syntax for proposing code changes.",
             inputSchema: {
                 filePath: z
                     .string()
@@ -240,14 +362,75 @@ async function initializeServer() {
                 };
             }
 
+            // Validate the position against the PR diff
+            const side = diffSide || "RIGHT";
+            if (diffPositions) {
+                const position = validateCommentPosition(
+                    diffPositions,
+                    filePath,
+                    lineNumber!,
+                    side,
+                    startLineNumber
+                );
+                if (!position.valid) {
+                    return {
+                        content: [
+                            {
+                                type: "text" as const,
+                                text: JSON.stringify({
+                                    status: "error",
+                                    error: position.error,
+                                    nearest_valid_range: position.nearestRange,
+                                }, null, 2),
+                            },
+                        ],
+                        isError: true,
+                    };
+                }
+            }
+
+            // Skip comments already posted on this line
+            const duplicate = findDuplicateComment(existingComments, {
+                path: filePath,
+                line: lineNumber!,
+                side,
+                body: commentBody,
+            });
+            if (duplicate) {
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: JSON.stringify({
+                                status: "deduplicated",
+                                message: "The same comment is already posted on this line and is not resolved yet, so it was skipped.",
+                                existing_thread_id: duplicate.threadId,
+                                existing_comment: duplicate.body,
+                                file: filePath,
+                                line: lineNumber,
+                            }, null, 2),
+                        },
+                    ],
+                };
+            }
+
             // Create the comment
-            const result = await createInlineComment(config, params);
+            const result = await createInlineComment(config, reviewState, params);
 
             if (result.success) {
+                existingComments.push({
+                    threadId: result.threadId!,
+                    path: filePath,
+                    line: lineNumber!,
+                    side,
+                    body: commentBody,
+                });
+
                 const responseData = {
-                    status: "success",
+                    status: "pending",
                     comment_id: result.commentId,
-                    html_url: result.url,
+                    review_id: result.reviewId,
+                    message: "Comment added to the pending review. Call 'submit_review' once all findings are posted.",
                     file: params.filePath,
                     line_range: params.startLineNumber
                         ? `${params.startLineNumber}-${params.lineNumber}`
@@ -282,6 +465,55 @@ async function initializeServer() {
         }
     );
 
+    server.registerTool(
+        "submit_review",
+        {
+            description: "Submits the pending pull request review, publishing all inline comments at once. Call it once after all inline comments are posted.",
+            inputSchema: {
+                event: z
+                    .enum(REVIEW_EVENTS)
+                    .optional()
+                    .describe("Review verdict: COMMENT for general feedback, REQUEST_CHANGES if there are issues that must be fixed before merging, APPROVE only if no changes are needed. Defaults to COMMENT."),
+                body: z
+                    .string()
+                    .optional()
+                    .describe("Summary of the review (supports markdown). Required for COMMENT and REQUEST_CHANGES when there are no inline comments."),
+            },
+        },
+        async ({event, body}) => {
+            const result = await submitReview(config, reviewState, event || "COMMENT", body);
+
+            if (result.success) {
+                return {
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: JSON.stringify({
+                                status: "success",
+                                state: result.state,
+                                html_url: result.url,
+                            }, null, 2),
+                        },
+                    ],
+                };
+            }
+
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify({
+                            status: "error",
+                            error: result.error,
+                            details: result.details,
+                        }, null, 2),
+                    },
+                ],
+                isError: true,
+            };
+        }
+    );
+
     const transport = new StdioServerTransport();
     await server.connect(transport);
 
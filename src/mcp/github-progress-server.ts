@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+import {McpServer} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {StdioServerTransport} from "@modelcontextprotocol/sdk/server/stdio.js";
+import {z} from "zod/v4";
+import {Octokit} from "@octokit/rest";
+import {PROGRESS_UPDATE_INTERVAL_SECONDS} from "../constants/github";
+import {
+    createProgressCommentBody,
+    createProgressReporter,
+    ProgressComment,
+    ProgressCommentKind,
+    updateProgressComment
+} from "../github/operations/comments/progress";
+import {sanitizeJunieOutput} from "../utils/sanitizer";
+
+/**
+ * GitHub Progress MCP Server
+ *
+ * Provides the report_progress tool, which shows Junie's current status in the working comment
+ * ("I started working...") while Junie runs. Updates are throttled, see createProgressReporter.
+ */
+
+const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+const GITHUB_API_URL = process.env.GITHUB_API_URL;
+const REPO_OWNER = process.env.REPO_OWNER;
+const REPO_NAME = process.env.REPO_NAME;
+const COMMENT_ID = process.env.COMMENT_ID;
+const COMMENT_KIND = process.env.COMMENT_KIND as ProgressCommentKind | undefined;
+const COMMENT_BODY = process.env.COMMENT_BODY;
+const TRIGGER_PHRASE = process.env.TRIGGER_PHRASE ?? "";
+
+if (!GITHUB_TOKEN || !GITHUB_API_URL || !REPO_OWNER || !REPO_NAME || !COMMENT_ID || !COMMENT_KIND || !COMMENT_BODY) {
+    process.exit(1);
+}
+
+const comment: ProgressComment = {
+    owner: REPO_OWNER,
+    repo: REPO_NAME,
+    commentId: COMMENT_ID,
+    kind: COMMENT_KIND,
+    body: COMMENT_BODY,
+};
+
+const client = new Octokit({
+    auth: GITHUB_TOKEN,
+    baseUrl: GITHUB_API_URL,
+});
+
+const reporter = createProgressReporter(
+    status => updateProgressComment(client, comment, createProgressCommentBody(comment.body, status)),
+    PROGRESS_UPDATE_INTERVAL_SECONDS * 1000,
+);
+
+const server = new McpServer({
+    name: "GitHub Progress Server",
+    version: "1.0.0",
+});
+
+server.registerTool(
+    "report_progress",
+    {
+        description: `Shows your current progress in the GitHub comment tracking this task. Call it when you start and finish major steps. The comment is updated at most once every ${PROGRESS_UPDATE_INTERVAL_SECONDS} seconds, more frequent reports are queued and only the latest one is shown.`,
+        inputSchema: {
+            status: z
+                .string()
+                .min(1)
+                .max(10000)
+                .describe("Current progress in markdown, e.g. a checklist of the plan (- [x] done step, - [ ] next step) or a short status text. It replaces the previously reported progress."),
+        },
+    },
+    async ({status}) => {
+        try {
+            const result = await reporter.report(sanitizeJunieOutput(status, TRIGGER_PHRASE));
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify({
+                            status: result,
+                            message: result === "updated"
+                                ? "Progress is shown in the comment."
+                                : "Progress was reported too soon after the previous update, it will be shown when the throttling interval ends.",
+                        }, null, 2),
+                    },
+                ],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                content: [
+                    {
+                        type: "text" as const,
+                        text: JSON.stringify({
+                            status: "error",
+                            error: errorMessage,
+                        }, null, 2),
+                    },
+                ],
+                isError: true,
+            };
+        }
+    }
+);
+
+async function runServer() {
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+
+    // A queued update must not overwrite the completion comment, so it is dropped once Junie disconnects
+    const shutdown = () => {
+        reporter.cancel();
+        server.close();
+        process.exit(0);
+    };
+
+    process.stdin.on("close", shutdown);
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+}
+
+runServer().catch(() => {
+    process.exit(1);
+});
@@ -9,7 +9,8 @@
 
 export const MCP_TOOL_PROMPTS = {
     mcp_github_checks_server: 'Use get_pr_failed_checks_info to retrieve detailed information about failed CI/CD checks if needed.',
-    mcp_github_inline_comment_server: 'MANDATORY for code reviews: Use post_inline_review_comment to provide inline code review comments. Supports GitHub suggestion syntax (```suggestion) for proposing code changes. Use it for every specific finding to ensure comments appear exactly where the code changed.',
+    mcp_github_progress_server: 'Use report_progress to keep the user informed while you work: report your plan as a markdown checklist when you start, and update it as you complete steps.',
+    mcp_github_inline_comment_server: 'MANDATORY for code reviews: Use post_inline_review_comment to provide inline code review comments. Supports GitHub suggestion syntax (```suggestion) for proposing code changes. Use it for every specific finding to ensure comments appear exactly where the code changed. Comments are collected into a pending review: call submit_review once at the end to publish them with a COMMENT, REQUEST_CHANGES or APPROVE verdict.',
 };
 
 /**
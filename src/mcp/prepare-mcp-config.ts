@@ -5,6 +5,8 @@ import {mkdir, writeFile} from "fs/promises";
 import {join} from "path";
 import {homedir} from 'os';
 import {BranchInfo} from "../github/operations/branch";
+import {ProgressComment} from "../github/operations/comments/progress";
+import {CREATED_PENDING_REVIEW_FILE_NAME} from "../github/operations/pending-review";
 
 type PrepareConfigParams = {
     junieWorkingDir: string;
@@ -15,6 +17,8 @@ type PrepareConfigParams = {
     allowedMcpServers: string[];
     prNumber?: number;
     commitSha?: string;
+    progressComment?: ProgressComment;
+    triggerPhrase?: string;
 };
 
 
@@ -22,6 +26,7 @@ export async function prepareMcpConfig(
     params: PrepareConfigParams,
 ): Promise<{ configPath: string; enabledServers: string[] }> {
     const {
+        junieWorkingDir,
         githubToken,
         owner,
         repo,
@@ -29,6 +34,8 @@ export async function prepareMcpConfig(
         allowedMcpServers,
         prNumber,
         commitSha,
+        progressComment,
+        triggerPhrase,
     } = params;
 
     const hasGHCheksServer = allowedMcpServers.some((name) =>
@@ -58,11 +65,35 @@ export async function prepareMcpConfig(
                 REPO_NAME: repo,
                 PR_NUMBER: String(prNumber),
                 COMMIT_SHA: commitSha,
+                CREATED_REVIEW_FILE: join(junieWorkingDir, CREATED_PENDING_REVIEW_FILE_NAME),
             },
         };
         enabledServers.push('mcp_github_inline_comment_server');
     }
 
+    // Automatically enable progress server when there is a working comment to update
+    if (progressComment) {
+        console.log(`Enabling GitHub Progress MCP Server for comment ${progressComment.commentId}`);
+        baseMcpConfig.mcpServers.github_progress = {
+            command: "bun",
+            args: [
+                "run",
+                `${process.env.GITHUB_ACTION_PATH}/src/mcp/github-progress-server.ts`,
+            ],
+            env: {
+                GITHUB_API_URL: GITHUB_API_URL,
+                GITHUB_TOKEN: githubToken,
+                REPO_OWNER: progressComment.owner,
+                REPO_NAME: progressComment.repo,
+                COMMENT_ID: String(progressComment.commentId),
+                COMMENT_KIND: progressComment.kind,
+                COMMENT_BODY: progressComment.body,
+                TRIGGER_PHRASE: triggerPhrase ?? "",
+            },
+        };
+        enabledServers.push('mcp_github_progress_server');
+    }
+
     if (hasGHCheksServer) {
         const head = branchInfo.isNewBranch ? branchInfo.baseBranch : branchInfo.workingBranch
         baseMcpConfig.mcpServers.github_checks = {
@@ -0,0 +1,55 @@
+import {describe, test, expect} from "bun:test";
+import {createVerify, generateKeyPairSync} from "crypto";
+import {createAppJwt, getRequestablePermissions} from "../src/github/operations/app-token";
+
+const {privateKey, publicKey} = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  privateKeyEncoding: {type: "pkcs8", format: "pem"},
+  publicKeyEncoding: {type: "spki", format: "pem"},
+});
+
+function decodeJwtPart(part: string): any {
+  return JSON.parse(Buffer.from(part, "base64url").toString());
+}
+
+describe("GitHub App token", () => {
+  describe("createAppJwt", () => {
+    test("should create RS256 JWT issued by the app", () => {
+      const now = Date.UTC(2024, 0, 1);
+      const [header, payload, signature] = createAppJwt("12345", privateKey, now).split(".");
+
+      expect(decodeJwtPart(header)).toEqual({alg: "RS256", typ: "JWT"});
+      const claims = decodeJwtPart(payload);
+      expect(claims.iss).toBe("12345");
+      expect(claims.iat).toBeLessThan(now / 1000);
+      expect(claims.exp - claims.iat).toBeLessThanOrEqual(600);
+
+      const verifier = createVerify("RSA-SHA256");
+      verifier.update(`${header}.${payload}`);
+      expect(verifier.verify(publicKey, Buffer.from(signature, "base64url"))).toBe(true);
+    });
+
+    test("should accept private key with escaped line breaks", () => {
+      const escapedKey = privateKey.replace(/\n/g, "\\n");
+
+      expect(createAppJwt("12345", escapedKey).split(".")).toHaveLength(3);
+    });
+  });
+
+  describe("getRequestablePermissions", () => {
+    test("should request only permissions granted to the installation", () => {
+      const permissions = getRequestablePermissions({
+        contents: "write",
+        pull_requests: "write",
+        issues: "read",
+        administration: "write",
+      });
+
+      expect(permissions).toEqual({contents: "write", pull_requests: "write", issues: "read"});
+    });
+
+    test("should not upgrade read permissions", () => {
+      expect(getRequestablePermissions({checks: "write"}, {checks: "read"})).toEqual({checks: "read"});
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import {describe, test, expect, mock} from "bun:test";
+import {
+  AutoMergeConfig,
+  AutoMergeParams,
+  updateAutoMerge,
+  findPathsOutsideAllowlist,
+  findPullRequestForBranch,
+} from "../src/github/operations/auto-merge";
+
+const config: AutoMergeConfig = {enabled: true, mergeMethod: "squash", paths: ["docs/**", "**/*.md"]};
+
+const params: AutoMergeParams = {
+  owner: "test-owner",
+  repo: "test-repo",
+  pullNumber: 7,
+  pullRequestId: "PR_7",
+  draft: false,
+  autoMergeEnabled: false,
+};
+
+function createMockOctokits(files: any[]) {
+  const graphql = mock(async () => ({
+    enablePullRequestAutoMerge: {pullRequest: {autoMergeRequest: {enabledAt: "2024-01-01T00:00:00Z", mergeMethod: "SQUASH"}}},
+  }));
+  const octokits = {
+    rest: {
+      paginate: mock(async () => files),
+      pulls: {listFiles: mock(() => {})},
+    },
+    graphql,
+  } as any;
+  return {octokits, graphql};
+}
+
+describe("Auto-merge", () => {
+  test("should find paths outside the allowlist", () => {
+    expect(findPathsOutsideAllowlist(["docs/guide.md", "README.md", "src/index.ts"], config.paths)).toEqual(["src/index.ts"]);
+    expect(findPathsOutsideAllowlist(["docs/guide.md"], [])).toEqual(["docs/guide.md"]);
+  });
+
+  test("should enable auto-merge when all changed paths are allowed", async () => {
+    const {octokits, graphql} = createMockOctokits([{filename: "docs/guide.md"}, {filename: "README.md"}]);
+
+    const result = await updateAutoMerge(octokits, params, config);
+
+    expect(result).toEqual({enabled: true, mergeMethod: "squash"});
+    expect(graphql).toHaveBeenCalledWith(expect.stringContaining("enablePullRequestAutoMerge"), {
+      pullRequestId: "PR_7",
+      mergeMethod: "SQUASH",
+    });
+  });
+
+  test("should not enable auto-merge when a path is outside the allowlist", async () => {
+    const {octokits, graphql} = createMockOctokits([
+      {filename: "docs/guide.md"},
+      {filename: "docs/setup.md", previous_filename: "src/setup.md.ts"},
+    ]);
+
+    const result = await updateAutoMerge(octokits, params, config);
+
+    expect(result).toEqual({enabled: false, reason: "changed paths outside the auto-merge allowlist: src/setup.md.ts", disabled: false});
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  test("should not enable auto-merge for draft PRs", async () => {
+    const {octokits, graphql} = createMockOctokits([{filename: "docs/guide.md"}]);
+
+    const result = await updateAutoMerge(octokits, {...params, draft: true}, config);
+
+    expect(result.enabled).toBe(false);
+    expect(octokits.rest.paginate).not.toHaveBeenCalled();
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  test("should disable auto-merge enabled earlier when later changes leave the allowlist", async () => {
+    const {octokits, graphql} = createMockOctokits([{filename: "docs/guide.md"}, {filename: ".github/workflows/ci.yml"}]);
+
+    const result = await updateAutoMerge(octokits, {...params, autoMergeEnabled: true}, config);
+
+    expect(result).toEqual({enabled: false, reason: "changed paths outside the auto-merge allowlist: .github/workflows/ci.yml", disabled: true});
+    expect(graphql).toHaveBeenCalledTimes(1);
+    expect(graphql).toHaveBeenCalledWith(expect.stringContaining("disablePullRequestAutoMerge"), {pullRequestId: "PR_7"});
+  });
+
+  test("should disable auto-merge when verification of the pushed changes failed", async () => {
+    const {octokits, graphql} = createMockOctokits([{filename: "docs/guide.md"}]);
+
+    const result = await updateAutoMerge(octokits, {...params, autoMergeEnabled: true, verificationFailed: true}, config);
+
+    expect(result).toEqual({enabled: false, reason: "verification failed", disabled: true});
+    expect(graphql).toHaveBeenCalledWith(expect.stringContaining("disablePullRequestAutoMerge"), {pullRequestId: "PR_7"});
+  });
+
+  test("should keep auto-merge enabled earlier when all paths are still allowed", async () => {
+    const {octokits, graphql} = createMockOctokits([{filename: "docs/guide.md"}]);
+
+    const result = await updateAutoMerge(octokits, {...params, autoMergeEnabled: true}, config);
+
+    expect(result).toEqual({enabled: true, mergeMethod: "squash"});
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  test("should fail when GitHub rejects auto-merge", async () => {
+    const {octokits} = createMockOctokits([{filename: "docs/guide.md"}]);
+    octokits.graphql = mock(async () => {
+      throw new Error("Auto merge is not allowed for this repository");
+    });
+
+    await expect(updateAutoMerge(octokits, params, config)).rejects.toThrow("Auto merge is not allowed");
+  });
+
+  test("should find the open PR opened by the token owner", async () => {
+    const list = mock(async () => ({data: [{number: 7, node_id: "PR_7", draft: false, auto_merge: null, user: {id: 123}}]}));
+    const octokits = {rest: {pulls: {list}}} as any;
+
+    expect(await findPullRequestForBranch(octokits, "test-owner", "test-repo", "junie/issue-1", 123)).toEqual(params);
+    expect(list).toHaveBeenCalledWith({owner: "test-owner", repo: "test-repo", head: "test-owner:junie/issue-1", state: "open", per_page: 1});
+  });
+
+  test("should skip the PR of the branch when someone else opened it", async () => {
+    const list = mock(async () => ({data: [{number: 7, node_id: "PR_7", draft: false, auto_merge: null, user: {id: 999}}]}));
+    const octokits = {rest: {pulls: {list}}} as any;
+
+    expect(await findPullRequestForBranch(octokits, "test-owner", "test-repo", "junie/issue-1", 123)).toBeUndefined();
+  });
+});
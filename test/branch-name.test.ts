@@ -0,0 +1,106 @@
+import {describe, test, expect} from "bun:test";
+import {
+  createBranchNamePattern,
+  getBranchNameVariables,
+  renderBranchName,
+  resolveBranchNameCollision,
+  sanitizeBranchName,
+  slugify,
+} from "../src/github/operations/branch-name";
+import {mockIssueCommentContext} from "./mockContext";
+import type {JunieExecutionContext} from "../src/github/context";
+
+describe("Branch name template", () => {
+  describe("slugify", () => {
+    test("should create lowercase dash separated slug", () => {
+      expect(slugify("Fix: crash when `config` is missing!")).toBe("fix-crash-when-config-is-missing");
+    });
+
+    test("should cut long titles without trailing dash", () => {
+      expect(slugify("Add support for very long titles", 12)).toBe("add-support");
+    });
+  });
+
+  describe("sanitizeBranchName", () => {
+    test("should remove characters not allowed in git refs", () => {
+      expect(sanitizeBranchName("feature/PROJ 1~2^3:4?*[x\\y")).toBe("feature/PROJ-1-2-3-4-x-y");
+      expect(sanitizeBranchName("a..b@{c")).toBe("a.b-c");
+    });
+
+    test("should clean up path components", () => {
+      expect(sanitizeBranchName("/.hidden//name.lock/")).toBe("hidden/name");
+      expect(sanitizeBranchName("junie/run--123-")).toBe("junie/run-123");
+    });
+  });
+
+  describe("renderBranchName", () => {
+    test("should replace placeholders", () => {
+      const name = renderBranchName("feature/{jiraKey}-{slug}", {jiraKey: "PROJ-123", slug: "short-slug"});
+
+      expect(name).toBe("feature/PROJ-123-short-slug");
+    });
+
+    test("should drop separators of missing values", () => {
+      expect(renderBranchName("{prefix}{type}-{number}-{runId}", {prefix: "junie/", type: "run", runId: "42"})).toBe("junie/run-42");
+    });
+
+    test("should reject unknown placeholders", () => {
+      expect(() => renderBranchName("{prefix}{title}", {prefix: "junie/"})).toThrow("unknown placeholder(s) {title}");
+    });
+
+    test("should reject empty branch name", () => {
+      expect(() => renderBranchName("{jiraKey}", {})).toThrow("produced an empty branch name");
+    });
+  });
+
+  describe("getBranchNameVariables", () => {
+    test("should collect values from the issue", () => {
+      const context = {
+        ...mockIssueCommentContext,
+        payload: {
+          ...mockIssueCommentContext.payload,
+          issue: {...(mockIssueCommentContext.payload as any).issue, title: "PROJ-7: Handle empty input"},
+        },
+      } as JunieExecutionContext;
+
+      expect(getBranchNameVariables(context, "issue")).toMatchObject({
+        prefix: "junie/",
+        type: "issue",
+        number: String(context.entityNumber),
+        runId: context.runId,
+        slug: "proj-7-handle-empty-input",
+        jiraKey: "PROJ-7",
+        actor: context.actor,
+      });
+    });
+  });
+
+  describe("resolveBranchNameCollision", () => {
+    test("should keep available name", () => {
+      expect(resolveBranchNameCollision("junie/fix", new Set(["junie/fix-other"]))).toBe("junie/fix");
+    });
+
+    test("should append first free suffix", () => {
+      expect(resolveBranchNameCollision("junie/fix", new Set(["junie/fix", "junie/fix-2"]))).toBe("junie/fix-3");
+    });
+  });
+
+  describe("createBranchNamePattern", () => {
+    test("should match names rendered from the template", () => {
+      const pattern = createBranchNamePattern("{prefix}{type}-{number}-{runId}", "junie/");
+
+      expect(pattern.test("junie/issue-42-1001")).toBe(true);
+      expect(pattern.test("junie/run-1001")).toBe(true);
+      expect(pattern.test("junie/issue-42-1001-2")).toBe(true);
+      expect(pattern.test("junie/my-experiment")).toBe(false);
+      expect(pattern.test("other/issue-42-1001")).toBe(false);
+    });
+
+    test("should match names of custom templates", () => {
+      const pattern = createBranchNamePattern("feature/{jiraKey}-{slug}", "junie/");
+
+      expect(pattern.test("feature/PROJ-123-short-slug")).toBe(true);
+      expect(pattern.test("feature/Login_Page")).toBe(false);
+    });
+  });
+});
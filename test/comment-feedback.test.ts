@@ -5,6 +5,7 @@ import {
 } from "../src/github/operations/comments/feedback";
 import type {FinishFeedbackData} from "../src/github/operations/comments/types";
 import {
+  mockDiscussionCommentContext,
   mockIssueCommentContext,
   mockPullRequestCommentContext,
   mockPullRequestReviewCommentContext,
@@ -388,6 +389,68 @@ describe("Comment Feedback Operations", () => {
       });
     });
 
+    test("should link existing PR when changes were added to it", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "COMMIT_CHANGES",
+          commitSHA: "abc123def456",
+          prLink: "https://github.com/test-owner/test-repo/pull/301",
+          junieTitle: "Handled X as well",
+          junieSummary: "Applied follow-up changes",
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      expect(updateCommentSpy).toHaveBeenCalledWith({
+        owner: "test-owner",
+        repo: "test-repo",
+        comment_id: 12345,
+        body: expect.stringContaining("added to the existing PR: [https://github.com/test-owner/test-repo/pull/301]"),
+      });
+    });
+
+    test("should list reverted protected paths", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "COMMIT_CHANGES",
+          commitSHA: "abc123def456",
+          junieTitle: "Fixed bug",
+          junieSummary: "Applied fix",
+          blockedPaths: [".github/workflows/ci.yml"],
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      expect(updateCommentSpy).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringContaining("protected paths were reverted and not committed:\n- `.github/workflows/ci.yml`"),
+      }));
+    });
+
+    test("should append the verification report", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "WRITE_COMMENT",
+          junieTitle: "Fixed bug",
+          junieSummary: "Applied fix",
+          verificationReport: "### 🧪 Verification\n\n⚠️ Verification failed. Junie's changes were not pushed.",
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      expect(updateCommentSpy).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringContaining("### 🧪 Verification\n\n⚠️ Verification failed. Junie's changes were not pushed."),
+      }));
+    });
+
     test("should update comment with success for CREATE_PR", async () => {
       const data: FinishFeedbackData = {
         ...baseFinishData,
@@ -410,6 +473,114 @@ describe("Comment Feedback Operations", () => {
       });
     });
 
+    test("should link the updated PR when an open PR existed for the branch", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "CREATE_PR",
+          prLink: "https://github.com/test-owner/test-repo/pull/300",
+          prUpdated: true,
+          junieTitle: "Fixed bug",
+          junieSummary: "Updated the fix",
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      const body = updateCommentSpy.mock.calls[0][0].body;
+      expect(body).toContain("Updated the fix");
+      expect(body).toContain("The changes were added to the existing PR: [https://github.com/test-owner/test-repo/pull/300]");
+    });
+
+    test("should tell the real draft state of the PR when verification failed", async () => {
+      const successData = {
+        actionToDo: "CREATE_PR" as const,
+        prLink: "https://github.com/test-owner/test-repo/pull/300",
+        verificationFailed: true,
+      };
+
+      await postJunieCompletionComment(mockOctokit, {...baseFinishData, isJobFailed: false, successData: {...successData, prDraft: true}});
+      await postJunieCompletionComment(mockOctokit, {...baseFinishData, isJobFailed: false, successData: {...successData, prUpdated: true}});
+
+      expect(updateCommentSpy.mock.calls[0][0].body).toContain("The PR was opened as a draft because verification failed.");
+      expect(updateCommentSpy.mock.calls[1][0].body).toContain("The existing PR is ready for review and can't be turned into a draft");
+    });
+
+    test("should note that auto-merge was enabled", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "CREATE_PR",
+          prLink: "https://github.com/test-owner/test-repo/pull/300",
+          autoMergeMethod: "squash",
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      expect(updateCommentSpy).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringContaining("Auto-merge (squash) is enabled"),
+      }));
+    });
+
+    test("should note that auto-merge was disabled after a push to the PR", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "COMMIT_CHANGES",
+          commitSHA: "abc123",
+          junieTitle: "Fixed the build",
+          junieSummary: "Updated the workflow",
+          autoMergeDisabledReason: "changed paths outside the auto-merge allowlist: .github/workflows/ci.yml",
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      expect(updateCommentSpy).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringContaining("Auto-merge was disabled for the PR: changed paths outside the auto-merge allowlist: .github/workflows/ci.yml."),
+      }));
+    });
+
+    test("should list PR settings that could not be applied", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "CREATE_PR",
+          prLink: "https://github.com/test-owner/test-repo/pull/300",
+          prWarnings: ["Failed to add labels: Resource not accessible by integration"],
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      expect(updateCommentSpy).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringContaining("Some settings of the PR could not be applied:\n- Failed to add labels: Resource not accessible by integration"),
+      }));
+    });
+
+    test("should list the auto-merge error after pushing to the PR", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "COMMIT_CHANGES",
+          commitSHA: "abc123",
+          prWarnings: ["Failed to update auto-merge: Auto merge is not allowed for this repository"],
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      expect(updateCommentSpy).toHaveBeenCalledWith(expect.objectContaining({
+        body: expect.stringContaining("- Failed to update auto-merge: Auto merge is not allowed for this repository"),
+      }));
+    });
+
     test("should update comment with manual PR creation link when no PR link", async () => {
       const data: FinishFeedbackData = {
         ...baseFinishData,
@@ -538,6 +709,25 @@ describe("Comment Feedback Operations", () => {
       expect(updateCommentSpy).not.toHaveBeenCalled();
     });
 
+    test("should store reviewed SHA marker for code reviews", async () => {
+      const data: FinishFeedbackData = {
+        ...baseFinishData,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "WRITE_COMMENT",
+          junieTitle: "Review",
+          junieSummary: "LGTM",
+          reviewedSha: "abc1234def",
+        },
+      };
+
+      await postJunieCompletionComment(mockOctokit, data);
+
+      const callArgs = updateCommentSpy.mock.calls[0][0];
+      expect(callArgs.body).toContain("<!-- junie-reviewed-sha:abc1234def -->");
+      expect(callArgs.body).toContain("LGTM");
+    });
+
     test("should handle failure without error message", async () => {
       const data: FinishFeedbackData = {
         ...baseFinishData,
@@ -555,4 +745,75 @@ describe("Comment Feedback Operations", () => {
       });
     });
   });
+
+  describe("discussions", () => {
+    let graphqlSpy: any;
+
+    beforeEach(() => {
+      graphqlSpy = mock(async (query: string) => {
+        if (query.includes("addDiscussionComment")) {
+          return { addDiscussionComment: { comment: { id: "DC_kwDOreply1", url: "https://example.com" } } };
+        }
+        if (query.includes("replyTo")) {
+          return { node: { replyTo: { id: "DC_kwDOtop" } } };
+        }
+        return {};
+      });
+      (mockOctokit as any).graphql = graphqlSpy;
+    });
+
+    const findGraphqlCall = (operation: string) =>
+      graphqlSpy.mock.calls.find(([query]: [string]) => query.includes(operation));
+
+    test("should reply in the thread of the trigger comment", async () => {
+      const commentId = await postJunieWorkingStatusComment(
+        mockOctokit,
+        mockDiscussionCommentContext
+      );
+
+      expect(commentId).toBe("DC_kwDOreply1");
+      const [, reactionVariables] = findGraphqlCall("addReaction");
+      expect(reactionVariables.subjectId).toBe("DC_kwDOcomment777");
+      const [, variables] = findGraphqlCall("addDiscussionComment");
+      expect(variables.discussionId).toBe("D_kwDOdiscussion7");
+      expect(variables.replyToId).toBe("DC_kwDOcomment777");
+      expect(variables.body).toContain("Junie");
+      expect(createCommentSpy).not.toHaveBeenCalled();
+    });
+
+    test("should reply to the top-level comment when triggered from a reply", async () => {
+      const context = {
+        ...mockDiscussionCommentContext,
+        payload: {
+          ...mockDiscussionCommentContext.payload,
+          comment: { ...(mockDiscussionCommentContext.payload as any).comment, parent_id: 700 },
+        },
+      } as JunieExecutionContext;
+
+      await postJunieWorkingStatusComment(mockOctokit, context);
+
+      const [, variables] = findGraphqlCall("addDiscussionComment");
+      expect(variables.replyToId).toBe("DC_kwDOtop");
+    });
+
+    test("should update discussion comment on completion", async () => {
+      await postJunieCompletionComment(mockOctokit, {
+        initCommentId: "DC_kwDOreply1",
+        parsedContext: mockDiscussionCommentContext,
+        isJobFailed: false,
+        successData: {
+          actionToDo: "WRITE_COMMENT",
+          junieTitle: "Answer",
+          junieSummary: "Use a single YAML file",
+        },
+      });
+
+      expect(graphqlSpy).toHaveBeenCalledTimes(1);
+      const [query, variables] = graphqlSpy.mock.calls[0];
+      expect(query).toContain("updateDiscussionComment");
+      expect(variables.commentId).toBe("DC_kwDOreply1");
+      expect(variables.body).toContain("Use a single YAML file");
+      expect(updateCommentSpy).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,87 @@
+import {describe, test, expect} from "bun:test";
+import {
+  appendCommitTrailers,
+  buildCommitMessage,
+  formatConventionalSubject,
+  getConventionalCommitType,
+} from "../src/github/operations/commit-message";
+import {addFixAttemptTrailer} from "../src/github/operations/fix-checks";
+import {mockIssueOpenedContext} from "./mockContext";
+import type {JunieExecutionContext} from "../src/github/context";
+
+const RUN_URL = "https://github.com/test-owner/test-repo/actions/runs/1234567890";
+const CO_AUTHOR = "Co-authored-by: contributor-user <67890+contributor-user@users.noreply.github.com>";
+
+function withCommitConfig(context: JunieExecutionContext, commit: Partial<JunieExecutionContext["inputs"]["config"]["commit"]>): JunieExecutionContext {
+  const config = context.inputs.config;
+  return {...context, inputs: {...context.inputs, config: {...config, commit: {...config.commit, ...commit}}}};
+}
+
+describe("Commit message", () => {
+  describe("getConventionalCommitType", () => {
+    test("should prefer labels", () => {
+      expect(getConventionalCommitType("Add login page", ["good first issue", "type: bug"])).toBe("fix");
+      expect(getConventionalCommitType("Fix typo", ["kind/documentation"], "fix")).toBe("docs");
+    });
+
+    test("should fall back to the command and then the title", () => {
+      expect(getConventionalCommitType("Cover the parser", [], "test")).toBe("test");
+      expect(getConventionalCommitType("Implement dark mode", [])).toBe("feat");
+      expect(getConventionalCommitType("Tweak settings", [])).toBe("chore");
+    });
+  });
+
+  describe("formatConventionalSubject", () => {
+    test("should prefix the title and lowercase the description", () => {
+      expect(formatConventionalSubject("fix", "Fix crash on startup.")).toBe("fix: fix crash on startup");
+      expect(formatConventionalSubject("feat", "API tokens for webhooks")).toBe("feat: API tokens for webhooks");
+    });
+
+    test("should keep titles already following the convention", () => {
+      expect(formatConventionalSubject("chore", "feat(auth)!: drop legacy login")).toBe("feat(auth)!: drop legacy login");
+    });
+  });
+
+  describe("appendCommitTrailers", () => {
+    test("should join an existing trailer block", () => {
+      const message = appendCommitTrailers("Fix tests", [["Refs", "#1"]]);
+
+      expect(message).toBe("Fix tests\n\nRefs: #1");
+      expect(addFixAttemptTrailer(message, 2)).toBe("Fix tests\n\nRefs: #1\nJunie-Fix-Attempt: 2");
+    });
+  });
+
+  describe("buildCommitMessage", () => {
+    test("should keep the default format and add enabled trailers", () => {
+      const context = withCommitConfig(mockIssueOpenedContext, {coAuthor: true, trailers: true});
+
+      expect(buildCommitMessage(context, "Fix crash", 42)).toBe(
+        `[issue-42]\n\nFix crash\n\nJunie-Run: ${RUN_URL}\nRefs: #42\n${CO_AUTHOR}`
+      );
+    });
+
+    test("should not credit the actor as co-author of their own commit", () => {
+      const context = withCommitConfig(mockIssueOpenedContext, {coAuthor: true, trailers: true});
+
+      expect(buildCommitMessage(context, "Fix crash", 42, true)).toBe(`[issue-42]\n\nFix crash\n\nJunie-Run: ${RUN_URL}\nRefs: #42`);
+    });
+
+    test("should build a conventional commit with the Jira key", () => {
+      const context = withCommitConfig({
+        ...mockIssueOpenedContext,
+        payload: {
+          ...mockIssueOpenedContext.payload,
+          issue: {...(mockIssueOpenedContext.payload as any).issue, title: "PROJ-12 Broken login", labels: [{name: "bug"}]},
+        } as any,
+      }, {format: "conventional", trailers: true});
+
+      expect(buildCommitMessage(context, "Handle expired sessions", 42)).toBe(
+        `fix: handle expired sessions\n\nJunie-Run: ${RUN_URL}\nRefs: #42\nJira: PROJ-12`
+      );
+    });
+
+    test("should omit trailers by default", () => {
+      expect(buildCommitMessage(mockIssueOpenedContext, "Fix crash")).toBe("Fix crash");
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {describe, test, expect, mock} from "bun:test";
+import {
+  fetchPullRequestDiffPositions,
+  parsePatchPositions,
+  validateCommentPosition,
+} from "../src/github/operations/diff-positions";
+
+const PATCH = [
+  "@@ -1,4 +1,5 @@",
+  " import {a} from \"a\";",
+  "-import {b} from \"b\";",
+  "+import {b} from \"./b\";",
+  "+import {c} from \"./c\";",
+  " ",
+  " export function f() {",
+  "@@ -20,3 +21,2 @@ export function g() {",
+  "     const x = 1;",
+  "-    const y = 2;",
+  "     return x;",
+  "\\ No newline at end of file",
+].join("\n");
+
+describe("Diff positions", () => {
+  describe("parsePatchPositions", () => {
+    test("should collect commentable lines of each side per hunk", () => {
+      const positions = parsePatchPositions(PATCH);
+
+      expect(positions.RIGHT).toEqual([{start: 1, end: 5}, {start: 21, end: 22}]);
+      expect(positions.LEFT).toEqual([{start: 1, end: 4}, {start: 20, end: 22}]);
+    });
+
+    test("should have no LEFT lines for added files", () => {
+      const positions = parsePatchPositions("@@ -0,0 +1,2 @@\n+line 1\n+line 2");
+
+      expect(positions.RIGHT).toEqual([{start: 1, end: 2}]);
+      expect(positions.LEFT).toEqual([]);
+    });
+  });
+
+  describe("validateCommentPosition", () => {
+    const positions = new Map([
+      ["src/index.ts", parsePatchPositions(PATCH)],
+      ["assets/logo.png", null],
+    ]);
+
+    test("should accept lines inside a hunk", () => {
+      expect(validateCommentPosition(positions, "src/index.ts", 3, "RIGHT").valid).toBe(true);
+      expect(validateCommentPosition(positions, "src/index.ts", 22, "RIGHT", 21).valid).toBe(true);
+    });
+
+    test("should return nearest range for lines outside the diff", () => {
+      const result = validateCommentPosition(positions, "src/index.ts", 18, "RIGHT");
+
+      expect(result.valid).toBe(false);
+      expect(result.nearestRange).toEqual({start: 21, end: 22});
+      expect(result.error).toContain("Nearest valid range: 21-22");
+    });
+
+    test("should reject ranges spanning multiple hunks", () => {
+      const result = validateCommentPosition(positions, "src/index.ts", 21, "RIGHT", 4);
+
+      expect(result.valid).toBe(false);
+      expect(result.nearestRange).toEqual({start: 1, end: 5});
+    });
+
+    test("should validate against the requested side", () => {
+      expect(validateCommentPosition(positions, "src/index.ts", 2, "LEFT").valid).toBe(true);
+      expect(validateCommentPosition(positions, "src/index.ts", 22, "LEFT").valid).toBe(true);
+      expect(validateCommentPosition(positions, "src/index.ts", 23, "LEFT").valid).toBe(false);
+    });
+
+    test("should reject files outside of the PR", () => {
+      const result = validateCommentPosition(positions, "src/other.ts", 1, "RIGHT");
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("Changed files: src/index.ts, assets/logo.png");
+    });
+
+    test("should skip validation for files without patch", () => {
+      expect(validateCommentPosition(positions, "assets/logo.png", 1, "RIGHT").valid).toBe(true);
+    });
+  });
+
+  describe("fetchPullRequestDiffPositions", () => {
+    test("should parse patches of all PR files", async () => {
+      const listFiles = mock(async () => ({data: []}));
+      const mockOctokit: any = {
+        rest: {pulls: {listFiles}},
+        paginate: mock(async () => [
+          {filename: "src/index.ts", patch: PATCH},
+          {filename: "assets/logo.png"},
+        ]),
+      };
+
+      const positions = await fetchPullRequestDiffPositions(mockOctokit, {owner: "o", repo: "r", prNumber: 7});
+
+      expect(mockOctokit.paginate.mock.calls[0][0]).toBe(listFiles);
+      expect(mockOctokit.paginate.mock.calls[0][1]).toMatchObject({owner: "o", repo: "r", pull_number: 7});
+      expect(positions.get("src/index.ts")?.RIGHT).toEqual([{start: 1, end: 5}, {start: 21, end: 22}]);
+      expect(positions.get("assets/logo.png")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import {describe, test, expect, beforeEach, afterEach, spyOn, mock} from "bun:test";
+import * as core from "@actions/core";
+import {
+  addFixAttemptTrailer,
+  countConsecutiveFixAttempts,
+  isFixFailingChecksRun,
+  shouldFixFailingChecks,
+} from "../src/github/operations/fix-checks";
+import {createMockContext, mockPullRequestCommentContext} from "./mockContext";
+import type {JunieExecutionContext} from "../src/github/context";
+
+const HEAD_SHA = "abc123";
+
+function createWorkflowRunContext(conclusion: string, inputs: any = {}): JunieExecutionContext {
+  const basePayload = createMockContext().payload;
+  return createMockContext({
+    eventName: "workflow_run",
+    eventAction: "completed",
+    entityNumber: 42,
+    isPR: true,
+    inputs: {fixFailingChecks: true, maxFixAttempts: 2, ...inputs},
+    payload: {
+      ...basePayload,
+      action: "completed",
+      workflow_run: {
+        conclusion,
+        head_sha: HEAD_SHA,
+        pull_requests: [{number: 42}],
+      },
+    },
+  });
+}
+
+describe("Fix failing checks", () => {
+  describe("countConsecutiveFixAttempts", () => {
+    test("should count only the most recent consecutive attempts", () => {
+      const messages = [
+        addFixAttemptTrailer("Fix tests", 2),
+        addFixAttemptTrailer("Fix lint", 1),
+        "Add feature",
+        addFixAttemptTrailer("Older fix", 1),
+      ];
+
+      expect(countConsecutiveFixAttempts(messages)).toBe(2);
+    });
+
+    test("should return 0 when the latest commit is not a fix attempt", () => {
+      expect(countConsecutiveFixAttempts(["Human commit", addFixAttemptTrailer("Fix", 1)])).toBe(0);
+    });
+
+    test("should not count trailer mentioned in the middle of a line", () => {
+      expect(countConsecutiveFixAttempts(["Mention Junie-Fix-Attempt: 1 in text"])).toBe(0);
+    });
+  });
+
+  describe("isFixFailingChecksRun", () => {
+    test("should be enabled for workflow_run when input is set", () => {
+      expect(isFixFailingChecksRun(createWorkflowRunContext("failure"))).toBe(true);
+    });
+
+    test("should be disabled when input is not set", () => {
+      expect(isFixFailingChecksRun(createWorkflowRunContext("failure", {fixFailingChecks: false}))).toBe(false);
+    });
+
+    test("should be disabled for user-triggered events", () => {
+      const context = {
+        ...mockPullRequestCommentContext,
+        inputs: {...mockPullRequestCommentContext.inputs, fixFailingChecks: true},
+      } as JunieExecutionContext;
+      expect(isFixFailingChecksRun(context)).toBe(false);
+    });
+  });
+
+  describe("shouldFixFailingChecks", () => {
+    let mockOctokit: any;
+    let setOutputSpy: any;
+    let commitMessages: string[];
+    let comments: any[];
+    let pr: any;
+
+    beforeEach(() => {
+      commitMessages = ["Add feature"];
+      comments = [];
+      pr = {
+        number: 42,
+        state: "open",
+        head: {sha: HEAD_SHA, repo: {full_name: "test-owner/test-repo"}},
+        base: {repo: {full_name: "test-owner/test-repo"}},
+      };
+      mockOctokit = {
+        rest: {
+          pulls: {
+            get: mock(async () => ({data: pr})),
+            listCommits: mock(async () => ({data: []})),
+          },
+          issues: {
+            createComment: mock(async () => ({data: {id: 1}})),
+            listComments: mock(async () => ({data: []})),
+          },
+          paginate: mock(async (method: any) => method === mockOctokit.rest.issues.listComments
+            ? comments
+            : commitMessages.map(message => ({commit: {message}}))),
+        },
+      };
+      // The REST Octokit exposes its endpoints under `.rest` as well
+      mockOctokit.rest.rest = mockOctokit.rest;
+      setOutputSpy = spyOn(core, "setOutput").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      setOutputSpy.mockRestore();
+    });
+
+    test("should run and export the next attempt number", async () => {
+      commitMessages = ["Add feature", addFixAttemptTrailer("Fix tests", 1)];
+
+      expect(await shouldFixFailingChecks(createWorkflowRunContext("failure"), mockOctokit)).toBe(true);
+      expect(setOutputSpy).toHaveBeenCalledWith("FIX_ATTEMPT", "2");
+    });
+
+    test("should skip when checks did not fail", async () => {
+      expect(await shouldFixFailingChecks(createWorkflowRunContext("success"), mockOctokit)).toBe(false);
+      expect(mockOctokit.rest.pulls.get).not.toHaveBeenCalled();
+    });
+
+    test("should skip outdated failures", async () => {
+      pr.head.sha = "newer-sha";
+
+      expect(await shouldFixFailingChecks(createWorkflowRunContext("failure"), mockOctokit)).toBe(false);
+    });
+
+    test("should skip pull requests from forks", async () => {
+      pr.head.repo.full_name = "fork-owner/test-repo";
+
+      expect(await shouldFixFailingChecks(createWorkflowRunContext("failure"), mockOctokit)).toBe(false);
+    });
+
+    test("should stop and comment when maximum attempts are reached", async () => {
+      commitMessages = ["Add feature", addFixAttemptTrailer("Fix 1", 1), addFixAttemptTrailer("Fix 2", 2)];
+
+      expect(await shouldFixFailingChecks(createWorkflowRunContext("failure"), mockOctokit)).toBe(false);
+      expect(setOutputSpy).not.toHaveBeenCalled();
+      expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
+      const callArgs = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+      expect(callArgs.issue_number).toBe(42);
+      expect(callArgs.body).toContain("2 consecutive fix attempt(s)");
+      expect(callArgs.body).toContain(`<!-- junie-fix-attempts-exhausted:${HEAD_SHA} -->`);
+    });
+
+    test("should comment only once per head commit", async () => {
+      commitMessages = ["Add feature", addFixAttemptTrailer("Fix 1", 1), addFixAttemptTrailer("Fix 2", 2)];
+      comments = [{body: `Junie has already pushed 2 consecutive fix attempt(s)\n<!-- junie-fix-attempts-exhausted:${HEAD_SHA} -->`}];
+
+      expect(await shouldFixFailingChecks(createWorkflowRunContext("failure"), mockOctokit)).toBe(false);
+      expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import {describe, test, expect, mock} from "bun:test";
+import {findIssuePullRequest, isIssuePullRequest} from "../src/github/operations/issue-branch";
+import {PR_BODY_TEMPLATE} from "../src/constants/github";
+import {mockIssueCommentContext, mockPullRequestCommentContext} from "./mockContext";
+
+const REPO = "test-owner/test-repo";
+
+// ID of the token owner in the mock context
+const TOKEN_OWNER_ID = 123;
+
+function createPullRequest(number: number, ref: string, body: string | null, repo: string = REPO, authorId: number = TOKEN_OWNER_ID) {
+  return {
+    number,
+    html_url: `https://github.com/${REPO}/pull/${number}`,
+    body,
+    head: {ref, sha: `sha-${number}`, repo: {full_name: repo}},
+    base: {ref: "main"},
+    user: {id: authorId},
+  };
+}
+
+function createMockOctokit(pullRequests: any[]) {
+  const list = mock(() => {});
+  return {
+    list,
+    octokit: {
+      paginate: mock(async () => pullRequests),
+      rest: {pulls: {list}},
+    } as any,
+  };
+}
+
+describe("Issue branch reuse", () => {
+  describe("isIssuePullRequest", () => {
+    test("should match PR created for the issue by its marker", () => {
+      const pr = createPullRequest(5, "feature/custom-name", PR_BODY_TEMPLATE("Summary", 42));
+
+      expect(isIssuePullRequest(pr, 42, REPO, TOKEN_OWNER_ID)).toBe(true);
+      expect(isIssuePullRequest(pr, 4, REPO, TOKEN_OWNER_ID)).toBe(false);
+    });
+
+    test("should match PR by the branch prefix of the issue", () => {
+      expect(isIssuePullRequest(createPullRequest(5, "junie/issue-42-1001", null), 42, REPO, TOKEN_OWNER_ID, "junie/issue-42")).toBe(true);
+      expect(isIssuePullRequest(createPullRequest(5, "junie/issue-421-1001", null), 42, REPO, TOKEN_OWNER_ID, "junie/issue-42")).toBe(false);
+    });
+
+    test("should ignore PRs not opened with Junie's token", () => {
+      const pr = createPullRequest(5, "junie/issue-42-1001", PR_BODY_TEMPLATE("Summary", 42), REPO, 999);
+
+      expect(isIssuePullRequest(pr, 42, REPO, TOKEN_OWNER_ID, "junie/issue-42")).toBe(false);
+    });
+
+    test("should ignore PRs from forks", () => {
+      const pr = createPullRequest(5, "junie/issue-42-1001", PR_BODY_TEMPLATE("Summary", 42), "fork/test-repo");
+
+      expect(isIssuePullRequest(pr, 42, REPO, TOKEN_OWNER_ID, "junie/issue-42")).toBe(false);
+    });
+  });
+
+  describe("findIssuePullRequest", () => {
+    test("should return open PR of a previous run for the issue", async () => {
+      const issueNumber = mockIssueCommentContext.entityNumber!;
+      const {octokit, list} = createMockOctokit([
+        createPullRequest(7, "feature/other", "Unrelated"),
+        createPullRequest(8, `junie/issue-${issueNumber}-1001`, PR_BODY_TEMPLATE("Summary", issueNumber)),
+      ]);
+
+      const pr = await findIssuePullRequest(octokit, mockIssueCommentContext);
+
+      expect(pr).toEqual({
+        number: 8,
+        url: `https://github.com/${REPO}/pull/8`,
+        headRef: `junie/issue-${issueNumber}-1001`,
+        headSha: "sha-8",
+        baseRef: "main",
+      });
+      expect(octokit.paginate).toHaveBeenCalledWith(list, expect.objectContaining({state: "open"}));
+    });
+
+    test("should return undefined when there is no matching PR", async () => {
+      const {octokit} = createMockOctokit([createPullRequest(7, "feature/other", "Unrelated")]);
+
+      expect(await findIssuePullRequest(octokit, mockIssueCommentContext)).toBeUndefined();
+    });
+
+    test("should not look up PRs for pull request events", async () => {
+      const {octokit} = createMockOctokit([]);
+
+      expect(await findIssuePullRequest(octokit, mockPullRequestCommentContext)).toBeUndefined();
+      expect(octokit.paginate).not.toHaveBeenCalled();
+    });
+  });
+});
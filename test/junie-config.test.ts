@@ -0,0 +1,187 @@
+import {describe, test, expect, mock} from "bun:test";
+import {
+  fetchJunieConfig,
+  findYamlLine,
+  parseJunieConfig,
+  resolveJunieConfig,
+} from "../src/github/config/loader";
+import {DEFAULT_PROTECTED_PATHS} from "../src/constants/github";
+
+const CONFIG = `version: 1
+triggers:
+  phrase: "@junie"
+  label: ai
+mcp_servers:
+  - mcp_github_checks_server
+branch:
+  prefix: bot/
+review:
+  criteria:
+    - Public APIs must be documented
+profiles:
+  pull_request:
+    review:
+      criteria:
+        - Every change must have tests
+    mcp_servers: []
+`;
+
+describe("Repository config", () => {
+  describe("parseJunieConfig", () => {
+    test("should parse valid config", () => {
+      const config = parseJunieConfig(CONFIG);
+
+      expect(config.triggers?.phrase).toBe("@junie");
+      expect(config.profiles?.pull_request?.review?.criteria).toEqual(["Every change must have tests"]);
+    });
+
+    test("should report location of invalid values", () => {
+      const source = `version: 1
+profiles:
+  issues:
+    review:
+      criteria:
+        - Keep it short
+        - 42
+`;
+
+      expect(() => parseJunieConfig(source)).toThrow("• line 7, profiles.issues.review.criteria[1]: Invalid input: expected string, received number");
+    });
+
+    test("should report unknown settings and events", () => {
+      const source = `version: 1
+branch:
+  prefx: bot/
+profiles:
+  issue:
+    triggers: {}
+`;
+
+      expect(() => parseJunieConfig(source)).toThrow(/• line 3, branch\.prefx: Unknown setting "prefx"/);
+      expect(() => parseJunieConfig(source)).toThrow(/• line 5, profiles\.issue: Unknown event/);
+    });
+
+    test("should require supported version", () => {
+      expect(() => parseJunieConfig("triggers:\n  label: ai\n")).toThrow("• version: Invalid input: expected 1");
+      expect(() => parseJunieConfig("version: 2\n")).toThrow("• line 1, version:");
+    });
+
+    test("should fail on invalid YAML", () => {
+      expect(() => parseJunieConfig("version: [1\n")).toThrow("is not a valid YAML document");
+    });
+  });
+
+  describe("findYamlLine", () => {
+    test("should find keys inside sequence items", () => {
+      const source = "steps:\n- name: a\n  run: x\n- name: b\n  run: y\n";
+
+      expect(findYamlLine(source, ["steps", 1, "run"])).toBe(5);
+      expect(findYamlLine(source, ["steps", 1, "name"])).toBe(4);
+    });
+
+    test("should fall back to the deepest existing parent", () => {
+      expect(findYamlLine("a:\n  b: 1\n", ["a", "c"])).toBe(1);
+      expect(findYamlLine("a: 1\n", ["b"])).toBeUndefined();
+    });
+  });
+
+  describe("resolveJunieConfig", () => {
+    test("should apply event profile on top of repository config", () => {
+      const config = resolveJunieConfig(parseJunieConfig(CONFIG), "pull_request_target", {});
+
+      expect(config).toEqual({
+        triggers: {phrase: "@junie", assignee: "", label: "ai"},
+        mcpServers: [],
+        branch: {prefix: "bot/", base: undefined, template: "{prefix}{type}-{number}-{runId}"},
+        review: {criteria: ["Every change must have tests"]},
+        protectedPaths: {deny: DEFAULT_PROTECTED_PATHS, allow: [], action: "revert"},
+        commit: {format: "default", coAuthor: false, trailers: false},
+        verification: {commands: [], onFailure: "draft", maxRepairAttempts: 1},
+        pullRequest: {
+          draft: false,
+          labels: [],
+          copyIssueLabels: false,
+          copyMilestone: false,
+          requestCodeownerReviews: false,
+          assignActor: false,
+          autoMerge: {enabled: false, mergeMethod: "squash", paths: []},
+        },
+      });
+    });
+
+    test("should prefer non-empty inputs", () => {
+      const config = resolveJunieConfig(parseJunieConfig(CONFIG), "issues", {
+        triggerPhrase: "@bot",
+        labelTrigger: "",
+        allowedMcpServers: "mcp_github_inline_comment_server",
+        baseBranch: "develop",
+      });
+
+      expect(config.triggers).toEqual({phrase: "@bot", assignee: "", label: "ai"});
+      expect(config.mcpServers).toEqual(["mcp_github_inline_comment_server"]);
+      expect(config.branch).toEqual({prefix: "bot/", base: "develop", template: "{prefix}{type}-{number}-{runId}"});
+      expect(config.review.criteria).toEqual(["Public APIs must be documented"]);
+    });
+
+    test("should split protected path inputs by commas and lines", () => {
+      const config = resolveJunieConfig(undefined, "issues", {
+        protectedPaths: ".github/**\n**/*.lock, secrets/**",
+        protectedPathsAction: "fail",
+      });
+
+      expect(config.protectedPaths).toEqual({deny: [".github/**", "**/*.lock", "secrets/**"], allow: [], action: "fail"});
+    });
+
+    test("should let the commit message format input override the config file", () => {
+      const configFile = parseJunieConfig("version: 1\ncommit:\n  format: conventional\n  co_author: false\n");
+
+      expect(resolveJunieConfig(configFile, "issues", {}).commit).toEqual({format: "conventional", coAuthor: false, trailers: false});
+      expect(resolveJunieConfig(configFile, "issues", {commitMessageFormat: "default"}).commit.format).toBe("default");
+    });
+
+    test("should let the PR inputs override the config file", () => {
+      const configFile = parseJunieConfig("version: 1\npull_request:\n  labels: [junie]\n  copy_milestone: true\n  assign_actor: true\n");
+
+      const config = resolveJunieConfig(configFile, "issues", {prLabels: "ai, bot", prAssignActor: "false", prDraft: ""});
+
+      expect(config.pullRequest).toEqual({
+        draft: false,
+        labels: ["ai", "bot"],
+        copyIssueLabels: false,
+        copyMilestone: true,
+        requestCodeownerReviews: false,
+        assignActor: false,
+        autoMerge: {enabled: false, mergeMethod: "squash", paths: []},
+      });
+    });
+
+    test("should use defaults without config file", () => {
+      const config = resolveJunieConfig(undefined, "issues", {});
+
+      expect(config.triggers).toEqual({phrase: "@junie-agent", assignee: "", label: "junie"});
+      expect(config.branch.prefix).toBe("junie/");
+    });
+  });
+
+  describe("fetchJunieConfig", () => {
+    test("should read config from the given ref", async () => {
+      const getContent = mock(async () => ({
+        data: {type: "file", content: Buffer.from(CONFIG).toString("base64")},
+      }));
+      const octokit = {rest: {repos: {getContent}}} as any;
+
+      const config = await fetchJunieConfig(octokit, "owner", "repo", "main");
+
+      expect(config?.branch?.prefix).toBe("bot/");
+      expect(getContent).toHaveBeenCalledWith({owner: "owner", repo: "repo", path: ".github/junie.yml", ref: "main"});
+    });
+
+    test("should return undefined when config file is missing", async () => {
+      const octokit = {
+        rest: {repos: {getContent: mock(async () => { throw Object.assign(new Error("Not Found"), {status: 404}); })}},
+      } as any;
+
+      expect(await fetchJunieConfig(octokit, "owner", "repo", "main")).toBeUndefined();
+    });
+  });
+});
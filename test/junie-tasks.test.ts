@@ -3,6 +3,7 @@ import {prepareJunieTask} from "../src/github/junie/junie-tasks";
 import {JunieExecutionContext} from "../src/github/context";
 import {BranchInfo} from "../src/github/operations/branch";
 import {Octokits} from "../src/github/api/client";
+import {parseJunieCommand} from "../src/github/validation/trigger";
 import * as core from "@actions/core";
 
 // Mock modules
@@ -20,6 +21,8 @@ describe("prepareJunieTask", () => {
             resolveConflicts: false,
             createNewBranchForPR: false,
             silentMode: false,
+            patchMode: false,
+            secretScanning: true,
             useSingleComment: false,
             attachGithubContextToCustomPrompt: true,
             junieWorkingDir: "/tmp",
@@ -28,7 +31,25 @@ describe("prepareJunieTask", () => {
             triggerPhrase: "@junie-agent",
             assigneeTrigger: "",
             labelTrigger: "",
-            allowedMcpServers: ""
+            allowedMcpServers: "",
+            config: {
+                triggers: {phrase: "@junie-agent", assignee: "", label: ""},
+                mcpServers: [],
+                branch: {prefix: "junie/", template: "{prefix}{type}-{number}-{runId}"},
+                review: {criteria: []},
+                protectedPaths: {deny: [], allow: [], action: "revert"},
+                commit: {format: "default", coAuthor: false, trailers: false},
+                verification: {commands: [], onFailure: "draft", maxRepairAttempts: 1},
+                pullRequest: {
+                    draft: false,
+                    labels: [],
+                    copyIssueLabels: false,
+                    copyMilestone: false,
+                    requestCodeownerReviews: false,
+                    assignActor: false,
+                    autoMerge: {enabled: false, mergeMethod: "squash", paths: []},
+                },
+            },
         };
 
         const { inputs: _, ...restOverrides } = overrides;
@@ -438,7 +459,8 @@ describe("prepareJunieTask", () => {
                         owner: {login: "owner"},
                         name: "repo"
                     }
-                } as any
+                } as any,
+                command: parseJunieCommand("@junie-agent code-review", "@junie-agent")
             });
             const octokit = createMockOctokit();
 
@@ -522,6 +544,57 @@ describe("prepareJunieTask", () => {
         });
     });
 
+    describe("commands", () => {
+        test("should add command block with arguments to the prompt", async () => {
+            const context = createMockContext({
+                eventName: "issue_comment",
+                isPR: false,
+                command: parseJunieCommand("@junie-agent /explain depth=short", "@junie-agent")
+            });
+            const octokit = createMockOctokit();
+
+            const result = await prepareJunieTask(context, branchInfo, octokit);
+
+            expect(result.task).toContain("<command>");
+            expect(result.task).toContain("Command: /explain");
+            expect(result.task).toContain("Do NOT modify any files.");
+            expect(result.task).toContain("depth: short");
+        });
+
+        test("should use default code review prompt for /review command", async () => {
+            const context = createMockContext({
+                eventName: "issue_comment",
+                isPR: true,
+                entityNumber: 123,
+                command: parseJunieCommand("@junie-agent /review", "@junie-agent")
+            });
+            const octokit = createMockOctokit();
+
+            const result = await prepareJunieTask(context, branchInfo, octokit);
+
+            expect(result.task).toContain("Get the Pull Request diff");
+        });
+
+        test("should add review criteria from repository config", async () => {
+            const defaultInputs = createMockContext().inputs;
+            const context = createMockContext({
+                eventName: "issue_comment",
+                isPR: true,
+                entityNumber: 123,
+                command: parseJunieCommand("@junie-agent /review", "@junie-agent"),
+                inputs: {
+                    ...defaultInputs,
+                    config: {...defaultInputs.config, review: {criteria: ["Public APIs must be documented"]}},
+                },
+            });
+            const octokit = createMockOctokit();
+
+            const result = await prepareJunieTask(context, branchInfo, octokit);
+
+            expect(result.task).toContain("### Repository Review Criteria\n- Public APIs must be documented");
+        });
+    });
+
     describe("merge task", () => {
         test("should set merge task when resolveConflicts input is true", async () => {
             const context = createMockContext({
@@ -560,7 +633,8 @@ describe("prepareJunieTask", () => {
                         owner: {login: "owner"},
                         name: "repo"
                     }
-                } as any
+                } as any,
+                command: parseJunieCommand("@junie-agent resolve conflicts", "@junie-agent")
             });
             const octokit = createMockOctokit();
 
@@ -1,5 +1,6 @@
 import type {JunieExecutionContext} from "../src/github/context";
 import type {
+    DiscussionCommentEvent,
     IssueCommentEvent,
     IssuesEvent,
     PullRequestEvent,
@@ -12,17 +13,44 @@ const defaultInputs = {
     resolveConflicts: false,
     createNewBranchForPR: false,
     silentMode: false,
+    patchMode: false,
+    secretScanning: true,
     useSingleComment: false,
     attachGithubContextToCustomPrompt: true,
     junieWorkingDir: "/tmp/junie-work",
     appToken: "test-token",
     prompt: "",
     triggerPhrase: "@junie-agent",
+    fixFailingChecks: false,
+    maxFixAttempts: 3,
+    resolveReviewThreads: false,
+    reuseIssueBranch: false,
+    cleanupStaleBranches: false,
+    staleBranchDays: 14,
+    cleanupDryRun: false,
     assigneeTrigger: "",
     labelTrigger: "junie",
     baseBranch: "main",
     targetBranch: undefined,
     allowedMcpServers: undefined,
+    config: {
+        triggers: {phrase: "@junie-agent", assignee: "", label: "junie"},
+        mcpServers: [],
+        branch: {prefix: "junie/", base: "main", template: "{prefix}{type}-{number}-{runId}"},
+        review: {criteria: []},
+        protectedPaths: {deny: [".github/workflows/**"], allow: [], action: "revert"},
+        commit: {format: "default", coAuthor: false, trailers: false},
+        verification: {commands: [], onFailure: "draft", maxRepairAttempts: 1},
+        pullRequest: {
+            draft: false,
+            labels: [],
+            copyIssueLabels: false,
+            copyMilestone: false,
+            requestCodeownerReviews: false,
+            assignActor: false,
+            autoMerge: {enabled: false, mergeMethod: "squash", paths: []},
+        },
+    },
 };
 
 // Default repository info
@@ -370,3 +398,37 @@ export const mockPullRequestReviewCommentContext: JunieExecutionContext = create
         sender: mockSender,
     } as PullRequestReviewCommentEvent,
 });
+
+export const mockDiscussionCommentContext: JunieExecutionContext = createMockContext({
+    eventName: "discussion_comment",
+    eventAction: "created",
+    entityNumber: 7,
+    isPR: false,
+    payload: {
+        action: "created",
+        discussion: {
+            id: 70,
+            node_id: "D_kwDOdiscussion7",
+            number: 7,
+            title: "How should we structure the config?",
+            body: "Looking for ideas",
+            html_url: "https://github.com/test-owner/test-repo/discussions/7",
+            user: mockUser,
+            category: {name: "Q&A"},
+            created_at: "2024-01-15T10:00:00Z",
+            updated_at: "2024-01-15T10:00:00Z",
+        },
+        comment: {
+            id: 777,
+            node_id: "DC_kwDOcomment777",
+            parent_id: null,
+            body: "@junie-agent what do you think?",
+            html_url: "https://github.com/test-owner/test-repo/discussions/7#discussioncomment-777",
+            user: mockUser,
+            created_at: "2024-01-15T11:00:00Z",
+            updated_at: "2024-01-15T11:00:00Z",
+        },
+        repository: defaultRepository,
+        sender: mockSender,
+    } as unknown as DiscussionCommentEvent,
+});
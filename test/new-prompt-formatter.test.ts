@@ -20,6 +20,8 @@ describe("NewGitHubPromptFormatter", () => {
             resolveConflicts: false,
             createNewBranchForPR: false,
             silentMode: false,
+            patchMode: false,
+            secretScanning: true,
             useSingleComment: false,
             attachGithubContextToCustomPrompt: true,
             junieWorkingDir: "/tmp",
@@ -277,6 +279,54 @@ describe("NewGitHubPromptFormatter", () => {
         expect(prompt).toContain("</reviews>");
     });
 
+    test("generatePrompt shows review threads with their resolution state", async () => {
+        const context = createMockContext();
+        const reviewComment = (id: string, body: string) => ({
+            id,
+            databaseId: 1,
+            body,
+            path: "src/index.ts",
+            position: 1,
+            diffHunk: "@@ -1 +1 @@",
+            author: {login: "reviewer"},
+            createdAt: "2024-01-03T00:00:00Z",
+            lastEditedAt: null,
+            url: "https://github.com/test/test/pull/1#discussion_r1",
+            replyTo: null
+        });
+        const fetchedData: FetchedData = {
+            pullRequest: {
+                ...createMockPR(),
+                reviews: {
+                    nodes: [
+                        {
+                            id: "1",
+                            databaseId: 1,
+                            author: {login: "reviewer"},
+                            body: "",
+                            state: "CHANGES_REQUESTED",
+                            submittedAt: "2024-01-03T00:00:00Z",
+                            lastEditedAt: null,
+                            url: "https://github.com/test/test/pull/1#pullrequestreview-1",
+                            comments: {nodes: [reviewComment("C_1", "Rename this"), reviewComment("C_2", "Add a null check")]}
+                        }
+                    ]
+                },
+                reviewThreads: {
+                    nodes: [
+                        {id: "PRRT_1", isResolved: true, isOutdated: false, path: "src/index.ts", line: 1, comments: {nodes: [{id: "C_1"}]}},
+                        {id: "PRRT_2", isResolved: false, isOutdated: false, path: "src/index.ts", line: 1, comments: {nodes: [{id: "C_2"}]}}
+                    ]
+                }
+            }
+        };
+
+        const prompt = await formatter.generatePrompt(context, fetchedData);
+
+        expect(prompt).toContain("src/index.ts: [thread PRRT_1, resolved]");
+        expect(prompt).toContain("src/index.ts: [thread PRRT_2, unresolved]");
+    });
+
     test("generatePrompt omits empty sections", async () => {
         const context = createMockContext();
         const fetchedData: FetchedData = {};
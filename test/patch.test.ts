@@ -0,0 +1,114 @@
+import {describe, test, expect, beforeEach, afterEach} from "bun:test";
+import {execFileSync} from "child_process";
+import {mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  parsePatchFiles,
+  PATCH_FILE_NAME,
+  PATCH_MANIFEST_FILE_NAME,
+  resolvePatchBase,
+  writeChangesPatch,
+} from "../src/github/operations/patch";
+
+describe("Patch mode", () => {
+  describe("parsePatchFiles", () => {
+    test("should combine line stats with the file status", () => {
+      const numstat = "2\t1\tsrc/index.ts\0" + "-\t-\tlogo.png\0" + "0\t3\told file.txt\0";
+      const nameStatus = "M\0src/index.ts\0" + "A\0logo.png\0" + "D\0old file.txt\0";
+
+      expect(parsePatchFiles(numstat, nameStatus)).toEqual([
+        {path: "src/index.ts", status: "modified", additions: 2, deletions: 1},
+        {path: "logo.png", status: "added", additions: null, deletions: null},
+        {path: "old file.txt", status: "deleted", additions: 0, deletions: 3},
+      ]);
+    });
+  });
+
+  describe("with a local repository", () => {
+    let workDir: string;
+    let repoDir: string;
+    let outputDir: string;
+    let originalCwd: string;
+
+    const git = (...args: string[]) => execFileSync("git", args, {cwd: repoDir, encoding: "utf-8"});
+
+    beforeEach(() => {
+      originalCwd = process.cwd();
+      workDir = mkdtempSync(join(tmpdir(), "junie-patch-"));
+      repoDir = join(workDir, "repo");
+      outputDir = join(workDir, "junie-work");
+      execFileSync("git", ["init", "-q", "--bare", join(workDir, "origin.git")]);
+      execFileSync("git", ["init", "-q", repoDir]);
+      git("remote", "add", "origin", join(workDir, "origin.git"));
+      git("config", "user.email", "test@example.com");
+      git("config", "user.name", "Test");
+      git("checkout", "-q", "-b", "main");
+      writeFileSync(join(repoDir, "README.md"), "readme\n");
+      writeFileSync(join(repoDir, "old.txt"), "old\n");
+      git("add", "-A");
+      git("commit", "-q", "-m", "init");
+      git("push", "-q", "origin", "main");
+      git("checkout", "-q", "-b", "junie/issue-1");
+      process.chdir(repoDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      rmSync(workDir, {recursive: true, force: true});
+    });
+
+    test("should resolve the base branch for a new branch and the upstream otherwise", async () => {
+      const mainSha = git("rev-parse", "origin/main").trim();
+      writeFileSync(join(repoDir, "committed.txt"), "committed\n");
+      git("add", "committed.txt");
+      git("commit", "-q", "-m", "local commit");
+
+      expect(await resolvePatchBase(true, "main")).toBe(mainSha);
+      expect(await resolvePatchBase(false, "main")).toBe(git("rev-parse", "HEAD").trim());
+
+      git("branch", "-q", "--set-upstream-to=origin/main");
+      expect(await resolvePatchBase(false, "main")).toBe(mainSha);
+    });
+
+    test("should write a patch including commits and untracked files, and a manifest", async () => {
+      const base = git("rev-parse", "origin/main").trim();
+      writeFileSync(join(repoDir, "committed.txt"), "committed\n");
+      git("add", "committed.txt");
+      git("commit", "-q", "-m", "local commit");
+      writeFileSync(join(repoDir, "README.md"), "updated\nreadme\n");
+      writeFileSync(join(repoDir, "new.txt"), "new\n");
+      unlinkSync(join(repoDir, "old.txt"));
+
+      const result = await writeChangesPatch(base, outputDir);
+
+      expect(result!.patchPath).toBe(join(outputDir, PATCH_FILE_NAME));
+      expect(result!.manifestPath).toBe(join(outputDir, PATCH_MANIFEST_FILE_NAME));
+      expect(JSON.parse(readFileSync(result!.manifestPath, "utf-8"))).toEqual({
+        base,
+        files: [
+          {path: "README.md", status: "modified", additions: 1, deletions: 0},
+          {path: "committed.txt", status: "added", additions: 1, deletions: 0},
+          {path: "new.txt", status: "added", additions: 1, deletions: 0},
+          {path: "old.txt", status: "deleted", additions: 0, deletions: 1},
+        ],
+        additions: 3,
+        deletions: 1,
+      });
+      // The changes stay unstaged in the working tree
+      expect(git("diff", "--cached", "--name-only")).toBe("");
+      expect(git("status", "--porcelain")).toContain("?? new.txt");
+
+      // The patch applies cleanly to the base commit
+      git("checkout", "-q", "-f", "main");
+      git("clean", "-q", "-fd");
+      git("apply", "--index", result!.patchPath);
+      expect(readFileSync(join(repoDir, "new.txt"), "utf-8")).toBe("new\n");
+      expect(readFileSync(join(repoDir, "committed.txt"), "utf-8")).toBe("committed\n");
+    });
+
+    test("should not write a patch without changes", async () => {
+      expect(await writeChangesPatch(git("rev-parse", "HEAD").trim(), outputDir)).toBeUndefined();
+    });
+  });
+});
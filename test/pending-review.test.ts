@@ -0,0 +1,122 @@
+import {describe, test, expect, beforeEach, mock} from "bun:test";
+import {
+  addPendingReviewComment,
+  getOrCreatePendingReview,
+  submitLeftoverPendingReview,
+} from "../src/github/operations/pending-review";
+
+const PR = {owner: "test-owner", repo: "test-repo", prNumber: 42};
+const REVIEW_URL = "https://github.com/test-owner/test-repo/pull/42#pullrequestreview-1";
+
+describe("Pending review", () => {
+  let mockOctokit: any;
+  let pendingReviews: any[];
+  let thread: any;
+
+  beforeEach(() => {
+    pendingReviews = [];
+    thread = {id: "PRRT_thread", comments: {nodes: [{id: "PRRC_comment", databaseId: 101}]}};
+    mockOctokit = {
+      graphql: mock(async (query: string) => {
+        if (query.includes("reviews(states: PENDING")) {
+          return {repository: {pullRequest: {id: "PR_node", reviews: {nodes: pendingReviews}}}};
+        }
+        if (query.includes("addPullRequestReviewThread")) {
+          return {addPullRequestReviewThread: {thread}};
+        }
+        if (query.includes("addPullRequestReview")) {
+          return {addPullRequestReview: {pullRequestReview: {id: "PRR_new"}}};
+        }
+        if (query.includes("submitPullRequestReview")) {
+          return {submitPullRequestReview: {pullRequestReview: {id: "PRR_pending", url: REVIEW_URL, state: "COMMENTED"}}};
+        }
+        throw new Error(`Unexpected query: ${query}`);
+      }),
+    };
+  });
+
+  const findCall = (operation: string) =>
+    mockOctokit.graphql.mock.calls.find((call: any[]) => call[0].includes(operation));
+
+  describe("getOrCreatePendingReview", () => {
+    test("should reuse the pending review created by this run", async () => {
+      pendingReviews = [{id: "PRR_pending", viewerDidAuthor: true, comments: {totalCount: 2}}];
+
+      expect(await getOrCreatePendingReview(mockOctokit, PR, "abc123", "PRR_pending")).toEqual({reviewId: "PRR_pending", created: false});
+      expect(findCall("addPullRequestReview(")).toBeUndefined();
+    });
+
+    test("should refuse a pending review not created by this run", async () => {
+      pendingReviews = [{id: "PRR_draft", viewerDidAuthor: true, comments: {totalCount: 2}}];
+
+      await expect(getOrCreatePendingReview(mockOctokit, PR, "abc123")).rejects.toThrow("already has a pending review on PR #42 that was not started by Junie");
+      await expect(getOrCreatePendingReview(mockOctokit, PR, "abc123", "PRR_other")).rejects.toThrow("not started by Junie");
+      expect(findCall("addPullRequestReview(")).toBeUndefined();
+    });
+
+    test("should create pending review for the commit", async () => {
+      expect(await getOrCreatePendingReview(mockOctokit, PR, "abc123")).toEqual({reviewId: "PRR_new", created: true});
+      expect(findCall("addPullRequestReview(")[1]).toEqual({pullRequestId: "PR_node", commitOID: "abc123"});
+    });
+  });
+
+  describe("addPendingReviewComment", () => {
+    test("should add multi-line comment on the same side", async () => {
+      const result = await addPendingReviewComment(mockOctokit, "PRR_pending", {
+        path: "src/index.ts",
+        body: "Consider extracting this",
+        line: 12,
+        side: "RIGHT",
+        startLine: 10,
+      });
+
+      expect(result).toEqual({threadId: "PRRT_thread", commentId: 101});
+      const variables = findCall("addPullRequestReviewThread")[1];
+      expect(variables.startLine).toBe(10);
+      expect(variables.startSide).toBe("RIGHT");
+    });
+
+    test("should fail when the line is not part of the diff", async () => {
+      thread = null;
+
+      await expect(addPendingReviewComment(mockOctokit, "PRR_pending", {
+        path: "src/index.ts",
+        body: "Comment",
+        line: 999,
+        side: "RIGHT",
+      })).rejects.toThrow("Validation Failed");
+    });
+  });
+
+  describe("submitLeftoverPendingReview", () => {
+    test("should submit pending review with comments", async () => {
+      pendingReviews = [{id: "PRR_pending", viewerDidAuthor: true, comments: {totalCount: 3}}];
+
+      expect(await submitLeftoverPendingReview(mockOctokit, PR, "PRR_pending", "Auto-submitted")).toBe(REVIEW_URL);
+      expect(findCall("submitPullRequestReview")[1]).toEqual({
+        pullRequestReviewId: "PRR_pending",
+        event: "COMMENT",
+        body: "Auto-submitted",
+      });
+    });
+
+    test("should do nothing without pending review", async () => {
+      expect(await submitLeftoverPendingReview(mockOctokit, PR, "PRR_pending", "Auto-submitted")).toBeUndefined();
+      expect(findCall("submitPullRequestReview")).toBeUndefined();
+    });
+
+    test("should not submit a pending review created outside the run", async () => {
+      pendingReviews = [{id: "PRR_user_draft", viewerDidAuthor: true, comments: {totalCount: 3}}];
+
+      expect(await submitLeftoverPendingReview(mockOctokit, PR, "PRR_pending", "Auto-submitted")).toBeUndefined();
+      expect(findCall("submitPullRequestReview")).toBeUndefined();
+    });
+
+    test("should not submit empty pending review", async () => {
+      pendingReviews = [{id: "PRR_pending", viewerDidAuthor: true, comments: {totalCount: 0}}];
+
+      expect(await submitLeftoverPendingReview(mockOctokit, PR, "PRR_pending", "Auto-submitted")).toBeUndefined();
+      expect(findCall("submitPullRequestReview")).toBeUndefined();
+    });
+  });
+});
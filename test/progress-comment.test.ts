@@ -0,0 +1,106 @@
+import {describe, test, expect, mock} from "bun:test";
+import {
+  createProgressComment,
+  createProgressCommentBody,
+  createProgressReporter,
+  updateProgressComment,
+} from "../src/github/operations/comments/progress";
+import {
+  mockDiscussionCommentContext,
+  mockIssueCommentContext,
+  mockPullRequestReviewCommentContext,
+} from "./mockContext";
+
+const INITIAL_BODY = "Hey, it's Junie by JetBrains! I started working...\n\n[View job run](https://github.com/o/r/actions/runs/1)";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("Progress comment", () => {
+  test("should append the progress section to the working comment", () => {
+    const body = createProgressCommentBody(INITIAL_BODY, "- [x] Explore\n- [ ] Fix the bug\n", new Date("2024-05-01T10:20:30Z"));
+
+    expect(body).toBe(`${INITIAL_BODY}\n\n### Progress\n\n- [x] Explore\n- [ ] Fix the bug\n\n<sub>Updated at 10:20:30 UTC</sub>`);
+  });
+
+  test("should describe the working comment of the event", () => {
+    const comment = createProgressComment(mockIssueCommentContext, 123);
+
+    expect(comment.kind).toBe("issue");
+    expect(comment.commentId).toBe(123);
+    expect(comment.body).toContain("I started working...");
+    expect(comment.body).toContain("<!-- junie-bot-comment:Test Workflow -->");
+    expect(createProgressComment(mockPullRequestReviewCommentContext, 456).kind).toBe("review");
+    expect(createProgressComment(mockDiscussionCommentContext, "DC_1").kind).toBe("discussion");
+  });
+
+  test("should update the comment with the API of its kind", async () => {
+    const octokit = {
+      rest: {
+        issues: {updateComment: mock(async () => ({}))},
+        pulls: {updateReviewComment: mock(async () => ({}))},
+      },
+      graphql: mock(async () => ({})),
+    } as any;
+    const comment = {owner: "o", repo: "r", body: INITIAL_BODY};
+
+    await updateProgressComment(octokit, {...comment, commentId: 1, kind: "issue"}, "issue body");
+    await updateProgressComment(octokit, {...comment, commentId: "2", kind: "review"}, "review body");
+    await updateProgressComment(octokit, {...comment, commentId: "DC_3", kind: "discussion"}, "discussion body");
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith({owner: "o", repo: "r", comment_id: 1, body: "issue body"});
+    expect(octokit.rest.pulls.updateReviewComment).toHaveBeenCalledWith({owner: "o", repo: "r", comment_id: 2, body: "review body"});
+    expect(octokit.graphql).toHaveBeenCalledWith(expect.stringContaining("updateDiscussionComment"), {
+      commentId: "DC_3",
+      body: "discussion body",
+    });
+  });
+
+  describe("createProgressReporter", () => {
+    test("should post the first report immediately and throttle the next ones", async () => {
+      const update = mock(async (_status: string) => {});
+      const reporter = createProgressReporter(update, 50);
+
+      expect(await reporter.report("step 1")).toBe("updated");
+      expect(await reporter.report("step 2")).toBe("queued");
+      expect(await reporter.report("step 3")).toBe("queued");
+      expect(update.mock.calls).toEqual([["step 1"]]);
+
+      await sleep(80);
+
+      // Only the latest queued status is posted
+      expect(update.mock.calls).toEqual([["step 1"], ["step 3"]]);
+    });
+
+    test("should post again once the interval has passed", async () => {
+      let time = 0;
+      const update = mock(async (_status: string) => {});
+      const reporter = createProgressReporter(update, 1000, () => time);
+
+      await reporter.report("step 1");
+      time = 1000;
+
+      expect(await reporter.report("step 2")).toBe("updated");
+      expect(update).toHaveBeenCalledTimes(2);
+    });
+
+    test("should drop the queued report when cancelled", async () => {
+      const update = mock(async (_status: string) => {});
+      const reporter = createProgressReporter(update, 20);
+
+      await reporter.report("step 1");
+      await reporter.report("step 2");
+      reporter.cancel();
+      await sleep(40);
+
+      expect(update.mock.calls).toEqual([["step 1"]]);
+    });
+
+    test("should fail the report when the immediate update fails", async () => {
+      const reporter = createProgressReporter(async () => {
+        throw new Error("Not Found");
+      }, 20);
+
+      await expect(reporter.report("step 1")).rejects.toThrow("Not Found");
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import {describe, test, expect, beforeEach, afterEach} from "bun:test";
+import {execFileSync} from "child_process";
+import {existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  findProtectedPaths,
+  guardCommittedProtectedPaths,
+  guardProtectedPaths,
+  parseGitStatusPaths,
+  ProtectedPathsConfig,
+} from "../src/github/operations/protected-paths";
+import {DEFAULT_PROTECTED_PATHS} from "../src/constants/github";
+
+const config: ProtectedPathsConfig = {
+  deny: DEFAULT_PROTECTED_PATHS,
+  allow: ["frontend/package-lock.json"],
+  action: "revert",
+};
+
+describe("Protected paths", () => {
+  describe("parseGitStatusPaths", () => {
+    test("should return changed, untracked and renamed paths", () => {
+      const output = " M src/index.ts\0?? .env\0R  CODEOWNERS\0docs/CODEOWNERS\0";
+
+      expect(parseGitStatusPaths(output)).toEqual(["src/index.ts", ".env", "CODEOWNERS", "docs/CODEOWNERS"]);
+    });
+  });
+
+  describe("findProtectedPaths", () => {
+    test("should match deny globs except allowed paths", () => {
+      const paths = [
+        "src/index.ts",
+        ".github/workflows/ci.yml",
+        ".github/CODEOWNERS",
+        "package-lock.json",
+        "frontend/package-lock.json",
+        "config/.env.production",
+      ];
+
+      expect(findProtectedPaths(paths, config)).toEqual([
+        ".github/workflows/ci.yml",
+        ".github/CODEOWNERS",
+        "package-lock.json",
+        "config/.env.production",
+      ]);
+    });
+  });
+
+  describe("guardProtectedPaths", () => {
+    let repoDir: string;
+    let originalCwd: string;
+
+    const git = (...args: string[]) => execFileSync("git", args, {cwd: repoDir, encoding: "utf-8"});
+
+    beforeEach(() => {
+      originalCwd = process.cwd();
+      repoDir = mkdtempSync(join(tmpdir(), "junie-protected-"));
+      git("init", "-q");
+      git("config", "user.email", "test@example.com");
+      git("config", "user.name", "Test");
+      mkdirSync(join(repoDir, ".github/workflows"), {recursive: true});
+      writeFileSync(join(repoDir, ".github/workflows/ci.yml"), "on: push\n");
+      writeFileSync(join(repoDir, "README.md"), "readme\n");
+      git("add", "-A");
+      git("commit", "-q", "-m", "init");
+      process.chdir(repoDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      rmSync(repoDir, {recursive: true, force: true});
+    });
+
+    test("should revert protected changes and keep the others", () => {
+      writeFileSync(join(repoDir, ".github/workflows/ci.yml"), "on: pull_request\n");
+      writeFileSync(join(repoDir, ".env"), "SECRET=1\n");
+      writeFileSync(join(repoDir, "id.pem"), "key\n");
+      writeFileSync(join(repoDir, "README.md"), "updated\n");
+      git("add", ".env");
+
+      const reverted = guardProtectedPaths(config);
+
+      expect(reverted.sort()).toEqual([".env", ".github/workflows/ci.yml", "id.pem"]);
+      expect(readFileSync(join(repoDir, ".github/workflows/ci.yml"), "utf-8")).toBe("on: push\n");
+      expect(existsSync(join(repoDir, ".env"))).toBe(false);
+      expect(git("status", "--porcelain").trim()).toBe("M README.md");
+    });
+
+    test("should fail without reverting in fail mode", () => {
+      writeFileSync(join(repoDir, ".github/workflows/ci.yml"), "on: pull_request\n");
+
+      expect(() => guardProtectedPaths({...config, action: "fail"})).toThrow("• .github/workflows/ci.yml");
+      expect(readFileSync(join(repoDir, ".github/workflows/ci.yml"), "utf-8")).toBe("on: pull_request\n");
+    });
+
+    test("should fail when Junie committed changes of protected paths", () => {
+      const base = git("rev-parse", "HEAD").trim();
+      writeFileSync(join(repoDir, "README.md"), "updated\n");
+      git("add", "-A");
+      git("commit", "-q", "-m", "docs");
+
+      expect(() => guardCommittedProtectedPaths(config, base)).not.toThrow();
+
+      git("mv", ".github/workflows/ci.yml", "ci.yml");
+      git("commit", "-q", "-m", "move workflow");
+
+      expect(() => guardCommittedProtectedPaths(config, base)).toThrow("• .github/workflows/ci.yml");
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import {describe, test, expect, mock} from "bun:test";
+import {
+  createJuniePullRequest,
+  findCodeowners,
+  matchesCodeownersPattern,
+  parseCodeowners,
+  PullRequestConfig,
+  PullRequestParams,
+  splitCodeownerReviewers,
+} from "../src/github/operations/pull-request";
+import {mockIssueCommentContext} from "./mockContext";
+
+const CODEOWNERS = `# Owners
+*            @org/maintainers
+*.ts         @ts-dev   # TypeScript
+/docs/       docs@example.com @writer
+src/api/*    @api-dev
+/generated
+`;
+
+const params: PullRequestParams = {
+  owner: "test-owner",
+  repo: "test-repo",
+  title: "[issue-55] Fix bug",
+  body: "Body",
+  head: "junie/issue-55",
+  base: "main",
+  draft: false,
+};
+
+const allSettings: PullRequestConfig = {
+  draft: false,
+  labels: ["junie"],
+  copyIssueLabels: true,
+  copyMilestone: true,
+  requestCodeownerReviews: true,
+  assignActor: true,
+  autoMerge: {enabled: false, mergeMethod: "squash", paths: []},
+};
+
+function createMockOctokit(overrides: Record<string, any> = {}) {
+  const calls = {
+    create: mock(async () => ({data: {number: 7, html_url: "https://github.com/test-owner/test-repo/pull/7", node_id: "PR_7", draft: false}})),
+    addLabels: mock(async () => ({})),
+    update: mock(async () => ({})),
+    addAssignees: mock(async () => ({})),
+    requestReviewers: mock(async () => ({})),
+    list: mock(async () => ({data: [] as any[]})),
+    updatePullRequest: mock(async () => ({})),
+    ...overrides,
+  };
+  const listFiles = mock(() => {});
+  const octokit = {
+    paginate: mock(async () => [{filename: "src/api/user.ts"}, {filename: "docs/guide.md"}]),
+    rest: {
+      pulls: {
+        create: calls.create,
+        list: calls.list,
+        update: calls.updatePullRequest,
+        listFiles,
+        requestReviewers: calls.requestReviewers,
+      },
+      issues: {
+        get: mock(async () => ({
+          data: {labels: [{name: "bug"}, "junie"], milestone: {number: 3, title: "v1.0"}},
+        })),
+        addLabels: calls.addLabels,
+        update: calls.update,
+        addAssignees: calls.addAssignees,
+      },
+      repos: {
+        getContent: mock(async ({path}: any) => {
+          if (path !== "CODEOWNERS") {
+            throw Object.assign(new Error("Not Found"), {status: 404});
+          }
+          return {data: {type: "file", content: Buffer.from(CODEOWNERS).toString("base64")}};
+        }),
+      },
+    },
+  } as any;
+  return {octokit, calls};
+}
+
+describe("Pull request creation", () => {
+  describe("CODEOWNERS", () => {
+    const rules = parseCodeowners(CODEOWNERS);
+
+    test("should parse rules without comments", () => {
+      expect(rules).toEqual([
+        {pattern: "*", owners: ["@org/maintainers"]},
+        {pattern: "*.ts", owners: ["@ts-dev"]},
+        {pattern: "/docs/", owners: ["docs@example.com", "@writer"]},
+        {pattern: "src/api/*", owners: ["@api-dev"]},
+        {pattern: "/generated", owners: []},
+      ]);
+    });
+
+    test("should match patterns like GitHub", () => {
+      expect(matchesCodeownersPattern("*.ts", "src/deep/index.ts")).toBe(true);
+      expect(matchesCodeownersPattern("/docs/", "docs/a/b.md")).toBe(true);
+      expect(matchesCodeownersPattern("/docs/", "src/docs/b.md")).toBe(false);
+      expect(matchesCodeownersPattern("apps/", "src/apps/main.ts")).toBe(true);
+      expect(matchesCodeownersPattern("src/api/*", "src/api/user.ts")).toBe(true);
+      expect(matchesCodeownersPattern("src/api/*", "src/api/v2/user.ts")).toBe(false);
+      expect(matchesCodeownersPattern("/generated", "generated/client.ts")).toBe(true);
+    });
+
+    test("should use the last matching rule of each path", () => {
+      expect(findCodeowners(rules, ["src/api/user.ts"])).toEqual(["@api-dev"]);
+      expect(findCodeowners(rules, ["src/index.ts", "README.md"])).toEqual(["@ts-dev", "@org/maintainers"]);
+      expect(findCodeowners(rules, ["generated/client.ts"])).toEqual([]);
+    });
+
+    test("should split users and teams and skip emails and excluded users", () => {
+      expect(splitCodeownerReviewers(["@org/maintainers", "docs@example.com", "@Writer", "@junie-bot"], ["junie-bot"]))
+        .toEqual({reviewers: ["Writer"], teamReviewers: ["maintainers"]});
+    });
+  });
+
+  describe("createJuniePullRequest", () => {
+    test("should apply labels, milestone, assignee and code owner reviewers", async () => {
+      const {octokit, calls} = createMockOctokit();
+
+      const pr = await createJuniePullRequest(octokit, mockIssueCommentContext, params, allSettings);
+
+      expect(pr).toEqual({
+        number: 7,
+        url: "https://github.com/test-owner/test-repo/pull/7",
+        nodeId: "PR_7",
+        draft: false,
+        autoMerge: false,
+        updated: false,
+        warnings: [],
+      });
+      expect(calls.addLabels).toHaveBeenCalledWith({owner: "test-owner", repo: "test-repo", issue_number: 7, labels: ["junie", "bug"]});
+      expect(calls.update).toHaveBeenCalledWith({owner: "test-owner", repo: "test-repo", issue_number: 7, milestone: 3});
+      expect(calls.addAssignees).toHaveBeenCalledWith({
+        owner: "test-owner",
+        repo: "test-repo",
+        issue_number: 7,
+        assignees: [mockIssueCommentContext.actor],
+      });
+      expect(calls.requestReviewers).toHaveBeenCalledWith({
+        owner: "test-owner",
+        repo: "test-repo",
+        pull_number: 7,
+        reviewers: ["api-dev", "writer"],
+        team_reviewers: [],
+      });
+    });
+
+    test("should only create the PR without extra settings", async () => {
+      const {octokit, calls} = createMockOctokit();
+
+      await createJuniePullRequest(octokit, mockIssueCommentContext, {...params, draft: true}, {
+        ...allSettings,
+        labels: [],
+        copyIssueLabels: false,
+        copyMilestone: false,
+        requestCodeownerReviews: false,
+        assignActor: false,
+      });
+
+      expect(calls.create).toHaveBeenCalledWith({...params, draft: true});
+      expect(octokit.rest.issues.get).not.toHaveBeenCalled();
+      expect(calls.addLabels).not.toHaveBeenCalled();
+      expect(calls.requestReviewers).not.toHaveBeenCalled();
+    });
+
+    test("should keep the PR and report failed settings", async () => {
+      const {octokit, calls} = createMockOctokit({
+        requestReviewers: mock(async () => {
+          throw new Error("Reviews may only be requested from collaborators");
+        }),
+        addLabels: mock(async () => {
+          throw new Error("Resource not accessible by integration");
+        }),
+      });
+
+      const pr = await createJuniePullRequest(octokit, mockIssueCommentContext, params, allSettings);
+
+      expect(pr.url).toBe("https://github.com/test-owner/test-repo/pull/7");
+      expect(pr.warnings).toEqual([
+        "Failed to add labels: Resource not accessible by integration",
+        "Failed to request reviews from code owners: Reviews may only be requested from collaborators",
+      ]);
+      expect(calls.addAssignees).toHaveBeenCalled();
+    });
+
+    test("should open a ready PR when drafts are not supported", async () => {
+      const create = mock(async ({draft}: any) => {
+        if (draft) {
+          throw Object.assign(new Error("Draft pull requests are not supported in this repository."), {status: 422});
+        }
+        return {data: {number: 8, html_url: "https://github.com/test-owner/test-repo/pull/8"}};
+      });
+      const {octokit} = createMockOctokit({create});
+
+      const pr = await createJuniePullRequest(octokit, mockIssueCommentContext, {...params, draft: true}, {
+        ...allSettings,
+        labels: [],
+        copyIssueLabels: false,
+        copyMilestone: false,
+        requestCodeownerReviews: false,
+        assignActor: false,
+      });
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(pr.number).toBe(8);
+      expect(pr.warnings).toEqual(["Draft PRs are not supported in this repository, the PR was opened as ready for review"]);
+    });
+
+    test("should update the open PR of the branch instead of creating one", async () => {
+      const existingPr = {number: 5, html_url: "https://github.com/test-owner/test-repo/pull/5", node_id: "PR_5", draft: true, auto_merge: {merge_method: "squash"}};
+      const {octokit, calls} = createMockOctokit({list: mock(async () => ({data: [existingPr]}))});
+
+      const pr = await createJuniePullRequest(octokit, mockIssueCommentContext, params, {...allSettings, requestCodeownerReviews: false});
+
+      expect(pr).toEqual({
+        number: 5,
+        url: "https://github.com/test-owner/test-repo/pull/5",
+        nodeId: "PR_5",
+        draft: true,
+        autoMerge: true,
+        updated: true,
+        warnings: [],
+      });
+      expect(calls.list).toHaveBeenCalledWith({
+        owner: "test-owner",
+        repo: "test-repo",
+        head: "test-owner:junie/issue-55",
+        base: "main",
+        state: "open",
+        per_page: 1,
+      });
+      expect(calls.create).not.toHaveBeenCalled();
+      const update = (calls.updatePullRequest.mock.calls[0] as any)[0];
+      expect(update).toMatchObject({owner: "test-owner", repo: "test-repo", pull_number: 5, title: "[issue-55] Fix bug"});
+      expect(update.body).toStartWith("Body\n### 🔄 Latest Junie run\n");
+      expect(update.body).toContain("/actions/runs/1234567890");
+      // Settings of the existing PR are kept
+      expect(calls.addLabels).not.toHaveBeenCalled();
+    });
+
+    test("should update the PR another run opened in the meantime", async () => {
+      const existingPr = {number: 6, html_url: "https://github.com/test-owner/test-repo/pull/6"};
+      const list = mock(async () => ({data: list.mock.calls.length > 1 ? [existingPr] : []}));
+      const {octokit, calls} = createMockOctokit({
+        list,
+        create: mock(async () => {
+          throw Object.assign(new Error("A pull request already exists for test-owner:junie/issue-55."), {status: 422});
+        }),
+      });
+
+      const pr = await createJuniePullRequest(octokit, mockIssueCommentContext, params, {...allSettings, requestCodeownerReviews: false});
+
+      expect(pr.number).toBe(6);
+      expect(pr.updated).toBe(true);
+      expect(calls.updatePullRequest).toHaveBeenCalledTimes(1);
+    });
+
+    test("should fail when the PR can't be created", async () => {
+      const {octokit} = createMockOctokit({
+        create: mock(async () => {
+          throw Object.assign(new Error("No commits between main and junie/issue-55"), {status: 422});
+        }),
+      });
+
+      await expect(createJuniePullRequest(octokit, mockIssueCommentContext, params, allSettings)).rejects.toThrow("No commits");
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import {describe, test, expect, beforeEach, afterEach} from "bun:test";
+import {execFileSync} from "child_process";
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  commitConflictResolution,
+  createPushConflictMergeTask,
+  isNonFastForwardRejection,
+  pushWithRebase,
+} from "../src/github/operations/push";
+
+describe("Push with rebase", () => {
+  test("should detect non-fast-forward rejections", () => {
+    expect(isNonFastForwardRejection(" ! [rejected]        HEAD -> junie/issue-1 (fetch first)")).toBe(true);
+    expect(isNonFastForwardRejection(" ! [rejected]        HEAD -> main (non-fast-forward)")).toBe(true);
+    expect(isNonFastForwardRejection("remote: Permission to owner/repo.git denied")).toBe(false);
+  });
+
+  test("should create a merge task for the remote branch", () => {
+    expect(JSON.parse(createPushConflictMergeTask("junie/issue-1"))).toEqual({mergeTask: {branch: "origin/junie/issue-1"}});
+  });
+
+  describe("with a remote", () => {
+    let workDir: string;
+    let repoDir: string;
+    let otherDir: string;
+    let originalCwd: string;
+
+    const run = (cwd: string, ...args: string[]) => execFileSync("git", args, {cwd, encoding: "utf-8", stdio: "pipe"}).trim();
+    const git = (...args: string[]) => run(repoDir, ...args);
+    const commitFile = (cwd: string, file: string, content: string) => {
+      writeFileSync(join(cwd, file), content);
+      run(cwd, "add", file);
+      run(cwd, "commit", "-q", "-m", `Update ${file}`);
+    };
+
+    beforeEach(() => {
+      originalCwd = process.cwd();
+      workDir = mkdtempSync(join(tmpdir(), "junie-push-"));
+      const origin = join(workDir, "origin.git");
+      repoDir = join(workDir, "repo");
+      otherDir = join(workDir, "other");
+      run(workDir, "init", "-q", "--bare", "-b", "junie/issue-1", origin);
+      for (const dir of [repoDir, otherDir]) {
+        run(workDir, "init", "-q", "-b", "junie/issue-1", dir);
+        run(dir, "config", "user.email", "test@example.com");
+        run(dir, "config", "user.name", "Test");
+        run(dir, "remote", "add", "origin", origin);
+      }
+      commitFile(repoDir, "README.md", "readme\n");
+      git("push", "-q", "origin", "junie/issue-1");
+      run(otherDir, "pull", "-q", "origin", "junie/issue-1");
+      process.chdir(repoDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      rmSync(workDir, {recursive: true, force: true});
+    });
+
+    test("should push directly when the remote did not move", () => {
+      commitFile(repoDir, "a.txt", "a\n");
+
+      const result = pushWithRebase("junie/issue-1");
+
+      expect(result).toEqual({status: "pushed", sha: git("rev-parse", "HEAD")});
+      expect(git("rev-parse", "origin/junie/issue-1")).toBe(git("rev-parse", "HEAD"));
+    });
+
+    test("should rebase onto commits pushed during the run", () => {
+      commitFile(otherDir, "b.txt", "b\n");
+      run(otherDir, "push", "-q", "origin", "junie/issue-1");
+      commitFile(repoDir, "a.txt", "a\n");
+
+      const result = pushWithRebase("junie/issue-1");
+
+      expect(result.status).toBe("pushed");
+      expect(git("log", "--format=%s", "origin/junie/issue-1")).toBe("Update a.txt\nUpdate b.txt\nUpdate README.md");
+    });
+
+    test("should return conflicting files and keep the local commits", () => {
+      commitFile(otherDir, "README.md", "theirs\n");
+      run(otherDir, "push", "-q", "origin", "junie/issue-1");
+      commitFile(repoDir, "README.md", "ours\n");
+      const localHead = git("rev-parse", "HEAD");
+
+      const result = pushWithRebase("junie/issue-1");
+
+      expect(result).toEqual({status: "conflict", conflictingFiles: ["README.md"]});
+      expect(git("rev-parse", "HEAD")).toBe(localHead);
+      expect(readFileSync(join(repoDir, "README.md"), "utf-8")).toBe("ours\n");
+    });
+
+    test("should commit a resolved merge before pushing", () => {
+      commitFile(otherDir, "README.md", "theirs\n");
+      run(otherDir, "push", "-q", "origin", "junie/issue-1");
+      commitFile(repoDir, "README.md", "ours\n");
+      git("fetch", "-q", "origin");
+      expect(() => git("merge", "origin/junie/issue-1")).toThrow();
+      writeFileSync(join(repoDir, "README.md"), "merged\n");
+
+      commitConflictResolution("junie/issue-1");
+      const result = pushWithRebase("junie/issue-1");
+
+      expect(result.status).toBe("pushed");
+      expect(git("show", "origin/junie/issue-1:README.md")).toBe("merged");
+      expect(git("rev-list", "--parents", "-n", "1", "HEAD").split(" ")).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import {describe, test, expect, mock} from "bun:test";
+import {
+  calculateCommentSimilarity,
+  ExistingReviewComment,
+  fetchUnresolvedReviewComments,
+  findDuplicateComment,
+} from "../src/github/operations/review-dedupe";
+
+const EXISTING: ExistingReviewComment[] = [
+  {
+    threadId: "PRRT_1",
+    path: "src/index.ts",
+    line: 10,
+    side: "RIGHT",
+    body: "Avoid swallowing the exception here, rethrow it or log it.",
+  },
+];
+
+describe("Review comments deduplication", () => {
+  describe("calculateCommentSimilarity", () => {
+    test("should ignore case, punctuation and whitespace", () => {
+      expect(calculateCommentSimilarity("Use `const` here!", "use const   here")).toBe(1);
+    });
+
+    test("should return low similarity for different remarks", () => {
+      expect(calculateCommentSimilarity("Use const here", "Missing null check for user")).toBeLessThan(0.2);
+    });
+  });
+
+  describe("findDuplicateComment", () => {
+    test("should find similar comment on the same line", () => {
+      const duplicate = findDuplicateComment(EXISTING, {
+        path: "src/index.ts",
+        line: 10,
+        side: "RIGHT",
+        body: "Avoid swallowing the exception here - rethrow it or log it",
+      });
+
+      expect(duplicate?.threadId).toBe("PRRT_1");
+    });
+
+    test("should keep similar comment on another line", () => {
+      expect(findDuplicateComment(EXISTING, {
+        path: "src/index.ts",
+        line: 11,
+        side: "RIGHT",
+        body: EXISTING[0].body,
+      })).toBeUndefined();
+    });
+
+    test("should keep different comment on the same line", () => {
+      expect(findDuplicateComment(EXISTING, {
+        path: "src/index.ts",
+        line: 10,
+        side: "RIGHT",
+        body: "This variable name is misleading, rename it to userCount.",
+      })).toBeUndefined();
+    });
+  });
+
+  describe("fetchUnresolvedReviewComments", () => {
+    test("should return comments of unresolved threads in the current diff", async () => {
+      const thread = (id: string, isResolved: boolean, line: number | null) => ({
+        id,
+        isResolved,
+        path: "src/index.ts",
+        line,
+        diffSide: "RIGHT",
+        comments: {nodes: [{body: `Comment ${id}`, author: {login: "junie-bot"}}]},
+      });
+      const mockOctokit: any = {
+        graphql: mock(async () => ({
+          repository: {
+            pullRequest: {
+              reviewThreads: {
+                nodes: [thread("open", false, 5), thread("resolved", true, 6), thread("outdated", false, null)],
+              },
+            },
+          },
+        })),
+      };
+
+      const comments = await fetchUnresolvedReviewComments(mockOctokit, {owner: "o", repo: "r", prNumber: 1});
+
+      expect(comments).toEqual([{
+        threadId: "open",
+        path: "src/index.ts",
+        line: 5,
+        side: "RIGHT",
+        body: "Comment open",
+        author: "junie-bot",
+      }]);
+      expect(mockOctokit.graphql.mock.calls[0][1]).toEqual({owner: "o", repo: "r", number: 1});
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import {describe, test, expect, beforeEach, mock} from "bun:test";
+import {getIncrementalReviewRange} from "../src/github/operations/review-range";
+import {addJunieMarker, addReviewedShaMarker, extractReviewedSha} from "../src/github/operations/comments/common";
+import {createCodeReviewPrompt} from "../src/constants/github";
+import {mockPullRequestCommentContext} from "./mockContext";
+
+const OLD_SHA = "1111111111111111111111111111111111111111";
+const NEW_SHA = "2222222222222222222222222222222222222222";
+const MIDDLE_SHA = "3333333333333333333333333333333333333333";
+const MERGE_SHA = "4444444444444444444444444444444444444444";
+
+describe("Incremental review", () => {
+  describe("reviewed SHA marker", () => {
+    test("should store and extract reviewed SHA", () => {
+      const body = addReviewedShaMarker("Review finished", OLD_SHA);
+
+      expect(body).toContain("Review finished");
+      expect(extractReviewedSha(body)).toBe(OLD_SHA);
+    });
+
+    test("should replace previously stored SHA", () => {
+      const body = addReviewedShaMarker(addReviewedShaMarker("Review finished", OLD_SHA), NEW_SHA);
+
+      expect(extractReviewedSha(body)).toBe(NEW_SHA);
+      expect(body).not.toContain(OLD_SHA);
+    });
+
+    test("should return undefined for comments without marker", () => {
+      expect(extractReviewedSha("Just a comment")).toBeUndefined();
+    });
+  });
+
+  describe("createCodeReviewPrompt", () => {
+    test("should review full PR diff without range", () => {
+      const prompt = createCodeReviewPrompt("42");
+
+      expect(prompt).toContain("gh pr diff 42");
+      expect(prompt).not.toContain("already reviewed");
+    });
+
+    test("should review only new commits with range", () => {
+      const prompt = createCodeReviewPrompt("42", {baseSha: OLD_SHA, headSha: NEW_SHA, commits: [MIDDLE_SHA, NEW_SHA]});
+
+      expect(prompt).toContain(`repos/{owner}/{repo}/commits/<sha>\` for these commits: ${MIDDLE_SHA}, ${NEW_SHA}.`);
+      expect(prompt).toContain(`already reviewed up to commit ${OLD_SHA}`);
+      expect(prompt).not.toContain("gh pr diff");
+    });
+
+    test("should only report that nothing is new with an empty range", () => {
+      const prompt = createCodeReviewPrompt("42", {baseSha: OLD_SHA, headSha: NEW_SHA, commits: []});
+
+      expect(prompt).toContain(`"No new commits since ${OLD_SHA}."`);
+      expect(prompt).not.toContain("gh pr diff");
+      expect(prompt).not.toContain("gh api");
+    });
+  });
+
+  describe("getIncrementalReviewRange", () => {
+    let comments: any[];
+    let reviewComments: any[];
+    let reviews: any[];
+    let commits: any[];
+    let mockOctokit: any;
+
+    const commit = (sha: string, parents: number = 1) => ({sha, parents: Array.from({length: parents}, () => ({sha: "parent"}))});
+
+    beforeEach(() => {
+      comments = [];
+      reviewComments = [];
+      reviews = [];
+      commits = [commit("0000000"), commit(OLD_SHA), commit(MIDDLE_SHA), commit(NEW_SHA)];
+      mockOctokit = {
+        rest: {
+          issues: {listComments: mock(async () => ({data: []}))},
+          pulls: {
+            listReviewComments: mock(async () => ({data: []})),
+            listReviews: mock(async () => ({data: []})),
+            listCommits: mock(async () => ({data: []})),
+          },
+        },
+      };
+      mockOctokit.paginate = mock(async (method: any) => {
+        switch (method) {
+          case mockOctokit.rest.issues.listComments:
+            return comments;
+          case mockOctokit.rest.pulls.listReviewComments:
+            return reviewComments;
+          case mockOctokit.rest.pulls.listReviews:
+            return reviews;
+          default:
+            return commits;
+        }
+      });
+    });
+
+    const junieComment = (body: string, date: string = "2024-05-01T10:00:00Z") => ({
+      body: addJunieMarker(body, mockPullRequestCommentContext.workflow),
+      updated_at: date,
+    });
+
+    test("should return the commits pushed since the latest reviewed SHA", async () => {
+      comments = [
+        junieComment(addReviewedShaMarker("First review", "0000000"), "2024-05-01T10:00:00Z"),
+        {body: "Human comment", updated_at: "2024-05-02T10:00:00Z"},
+        junieComment(addReviewedShaMarker("Second review", OLD_SHA), "2024-05-03T10:00:00Z"),
+      ];
+
+      const range = await getIncrementalReviewRange(mockOctokit, mockPullRequestCommentContext, NEW_SHA);
+
+      expect(range).toEqual({baseSha: OLD_SHA, headSha: NEW_SHA, commits: [MIDDLE_SHA, NEW_SHA]});
+      const listCommitsCall = mockOctokit.paginate.mock.calls.find(([method]: any[]) => method === mockOctokit.rest.pulls.listCommits);
+      expect(listCommitsCall[1]).toMatchObject({pull_number: mockPullRequestCommentContext.entityNumber});
+    });
+
+    test("should find the marker in review comment replies", async () => {
+      comments = [junieComment(addReviewedShaMarker("Older review", "0000000"), "2024-05-01T10:00:00Z")];
+      reviewComments = [junieComment(addReviewedShaMarker("Review reply", OLD_SHA), "2024-05-02T10:00:00Z")];
+
+      expect((await getIncrementalReviewRange(mockOctokit, mockPullRequestCommentContext, NEW_SHA))?.baseSha).toBe(OLD_SHA);
+    });
+
+    test("should leave out merge commits of the base branch", async () => {
+      commits = [commit(OLD_SHA), commit(MERGE_SHA, 2), commit(NEW_SHA)];
+      comments = [junieComment(addReviewedShaMarker("Review", OLD_SHA))];
+
+      expect((await getIncrementalReviewRange(mockOctokit, mockPullRequestCommentContext, NEW_SHA))?.commits).toEqual([NEW_SHA]);
+    });
+
+    test("should ignore markers in comments not created by Junie", async () => {
+      comments = [{body: addReviewedShaMarker("Forged", OLD_SHA)}];
+
+      expect(await getIncrementalReviewRange(mockOctokit, mockPullRequestCommentContext, NEW_SHA)).toBeUndefined();
+    });
+
+    test("should return an empty range when nothing was pushed since last review", async () => {
+      comments = [junieComment(addReviewedShaMarker("Review", NEW_SHA))];
+
+      expect(await getIncrementalReviewRange(mockOctokit, mockPullRequestCommentContext, NEW_SHA)).toEqual({baseSha: NEW_SHA, headSha: NEW_SHA, commits: []});
+      expect(mockOctokit.paginate.mock.calls.some(([method]: any[]) => method === mockOctokit.rest.pulls.listCommits)).toBe(false);
+    });
+
+    test("should review full diff after force-push", async () => {
+      comments = [junieComment(addReviewedShaMarker("Review", OLD_SHA))];
+      commits = [commit(MIDDLE_SHA), commit(NEW_SHA)];
+
+      expect(await getIncrementalReviewRange(mockOctokit, mockPullRequestCommentContext, NEW_SHA)).toBeUndefined();
+    });
+
+    test("should return an empty range when only merge commits were pushed", async () => {
+      comments = [junieComment(addReviewedShaMarker("Review", OLD_SHA))];
+      commits = [commit(OLD_SHA), commit(NEW_SHA, 2)];
+
+      expect(await getIncrementalReviewRange(mockOctokit, mockPullRequestCommentContext, NEW_SHA)).toEqual({baseSha: OLD_SHA, headSha: NEW_SHA, commits: []});
+    });
+
+    test("should review full diff when range can't be resolved", async () => {
+      comments = [junieComment(addReviewedShaMarker("Review", OLD_SHA))];
+      const paginate = mockOctokit.paginate;
+      mockOctokit.paginate = mock(async (method: any, params: any) => {
+        if (method === mockOctokit.rest.pulls.listCommits) {
+          throw new Error("Not Found");
+        }
+        return paginate(method, params);
+      });
+
+      expect(await getIncrementalReviewRange(mockOctokit, mockPullRequestCommentContext, NEW_SHA)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {describe, test, expect, beforeEach, mock} from "bun:test";
+import {
+  extractAddressedThreadIds,
+  removeAddressedThreadsLine,
+  replyToAddressedThreads,
+} from "../src/github/operations/review-threads";
+
+const PR = {owner: "test-owner", repo: "test-repo", prNumber: 42};
+const THREAD_IDS = ["PRRT_1", "PRRT_2", "PRRT_unknown"];
+const SUMMARY = [
+  "Renamed the helper and added the null check.",
+  "",
+  "Addressed review threads: PRRT_1, `PRRT_2`, PRRT_unknown",
+].join("\n");
+
+describe("Address review threads", () => {
+  describe("extractAddressedThreadIds", () => {
+    test("should parse thread IDs from the Junie answer", () => {
+      expect(extractAddressedThreadIds(SUMMARY)).toEqual(["PRRT_1", "PRRT_2", "PRRT_unknown"]);
+    });
+
+    test("should return empty list without the threads line", () => {
+      expect(extractAddressedThreadIds("Nothing to do")).toEqual([]);
+    });
+  });
+
+  describe("removeAddressedThreadsLine", () => {
+    test("should remove the threads line from the Junie answer", () => {
+      expect(removeAddressedThreadsLine(SUMMARY)).toBe("Renamed the helper and added the null check.");
+      expect(removeAddressedThreadsLine("Nothing to do")).toBe("Nothing to do");
+    });
+  });
+
+  describe("replyToAddressedThreads", () => {
+    let mockOctokit: any;
+
+    beforeEach(() => {
+      mockOctokit = {
+        graphql: mock(async (query: string) => {
+          if (query.includes("reviewThreads")) {
+            return {
+              repository: {
+                pullRequest: {
+                  reviewThreads: {
+                    nodes: [
+                      {id: "PRRT_1", isResolved: false},
+                      {id: "PRRT_2", isResolved: false},
+                      {id: "PRRT_3", isResolved: true},
+                    ],
+                  },
+                },
+              },
+            };
+          }
+          return {};
+        }),
+      };
+    });
+
+    const calls = (operation: string) =>
+      mockOctokit.graphql.mock.calls.filter((call: any[]) => call[0].includes(operation));
+
+    test("should reply with the commit in each addressed unresolved thread", async () => {
+      const result = await replyToAddressedThreads(mockOctokit, PR, THREAD_IDS, "abc123", false);
+
+      expect(result.replied).toEqual(["PRRT_1", "PRRT_2"]);
+      expect(result.resolved).toEqual([]);
+      const replies = calls("addPullRequestReviewThreadReply");
+      expect(replies.map((call: any[]) => call[1].threadId)).toEqual(["PRRT_1", "PRRT_2"]);
+      expect(replies[0][1].body).toContain("abc123");
+      expect(calls("resolveReviewThread")).toHaveLength(0);
+    });
+
+    test("should resolve threads when enabled", async () => {
+      const result = await replyToAddressedThreads(mockOctokit, PR, THREAD_IDS, "abc123", true);
+
+      expect(result.resolved).toEqual(["PRRT_1", "PRRT_2"]);
+      expect(calls("resolveReviewThread").map((call: any[]) => call[1].threadId)).toEqual(["PRRT_1", "PRRT_2"]);
+    });
+
+    test("should continue when a thread can't be updated", async () => {
+      const graphql = mockOctokit.graphql;
+      mockOctokit.graphql = mock(async (query: string, variables: any) => {
+        if (query.includes("addPullRequestReviewThreadReply") && variables.threadId === "PRRT_1") {
+          throw new Error("Forbidden");
+        }
+        return graphql(query, variables);
+      });
+
+      const result = await replyToAddressedThreads(mockOctokit, PR, THREAD_IDS, "abc123", false);
+
+      expect(result.failed).toEqual(["PRRT_1"]);
+      expect(result.replied).toEqual(["PRRT_2"]);
+    });
+
+    test("should not fetch threads when Junie reported none", async () => {
+      await replyToAddressedThreads(mockOctokit, PR, [], "abc123", true);
+
+      expect(mockOctokit.graphql).not.toHaveBeenCalled();
+    });
+  });
+});
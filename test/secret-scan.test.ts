@@ -0,0 +1,134 @@
+import {describe, test, expect, beforeEach, afterEach} from "bun:test";
+import {execFileSync} from "child_process";
+import {mkdtempSync, rmSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  createSecretsFoundError,
+  findSecretInLine,
+  scanDiffForSecrets,
+  scanStagedChangesForSecrets,
+  shannonEntropy,
+} from "../src/github/operations/secret-scan";
+
+// Fake credentials are assembled at runtime so this file doesn't trip secret scanners itself
+const AWS_KEY_ID = "AKIA" + "IOSFODNN7EXAMPLE";
+const STRIPE_KEY = "sk_live_" + "4eC39HqLyjWDarjtT1zdp7dc";
+const SLACK_TOKEN = "xoxb-" + "123456789012-abcdefghijkl";
+const JWT = "eyJhbGciOiJIUzI1NiJ9" + ".eyJzdWIiOiIxMjM0NTY3ODkwIn0" + ".dozjgNryP4J3jVmNHl0w5N_XgL0n3I9PlFUP0THsR8U";
+const PRIVATE_KEY = "-----BEGIN RSA " + "PRIVATE KEY-----";
+const RANDOM_KEY = "q8Zr3Lx0Vt7Kp2Nw9Jd5Hf1Gs6Ym4Tb";
+const INTEGRITY = "sha512-JZOSA7Mo9sNGB8+UjSgzdLtokWAky1zbztM3WRLCbZ70j3ZN2JMfRZzKXafhELfi24FSpcHM4tvPqaiZ68pfcQ==";
+
+describe("Secret scanning", () => {
+  describe("findSecretInLine", () => {
+    test("should detect common credential formats", () => {
+      expect(findSecretInLine(`const key = "${AWS_KEY_ID}";`)).toBe("AWS access key ID");
+      expect(findSecretInLine(`STRIPE_KEY=${STRIPE_KEY}`)).toBe("Stripe API key");
+      expect(findSecretInLine(`token: ${SLACK_TOKEN}`)).toBe("Slack token");
+      expect(findSecretInLine(`Authorization: Bearer ${JWT}`)).toBe("JSON Web Token");
+      expect(findSecretInLine(PRIVATE_KEY)).toBe("Private key");
+      expect(findSecretInLine(`apiKey = '${RANDOM_KEY}'`)).toBe("High entropy string");
+    });
+
+    test("should detect known secret values", () => {
+      expect(findSecretInLine("const junieKey = 'perm-abc';", ["perm-abc"])).toBe("Junie API key");
+    });
+
+    test("should ignore ordinary code, hashes and allowlisted lines", () => {
+      expect(findSecretInLine("const userAuthenticationToken = getToken();")).toBeUndefined();
+      expect(findSecretInLine("commit 9fceb02d0ae598e95dc970b74767f19372d61af8")).toBeUndefined();
+      expect(findSecretInLine("import {Component} from './components/SettingsPanelComponent2';")).toBeUndefined();
+      expect(findSecretInLine(`const fake = "${AWS_KEY_ID}"; // pragma: allowlist secret`)).toBeUndefined();
+      expect(findSecretInLine(`      "integrity": "${INTEGRITY}",`)).toBeUndefined();
+    });
+
+    test("should compute the entropy in bits per character", () => {
+      expect(shannonEntropy("aaaa")).toBe(0);
+      expect(shannonEntropy("abcd")).toBe(2);
+    });
+  });
+
+  describe("scanDiffForSecrets", () => {
+    test("should report the file and line of added lines only", () => {
+      const diff = [
+        "diff --git a/src/config.ts b/src/config.ts",
+        "--- a/src/config.ts",
+        "+++ b/src/config.ts",
+        "@@ -3,0 +4,2 @@ export const config = {",
+        "+    region: \"us-east-1\",",
+        `+    accessKeyId: "${AWS_KEY_ID}",`,
+        "@@ -20 +22 @@",
+        `-    old: "${STRIPE_KEY}",`,
+        "+    old: process.env.STRIPE_KEY,",
+        "diff --git a/.env.example b/.env.example",
+        "--- /dev/null",
+        "+++ b/.env.example",
+        "@@ -0,0 +1 @@",
+        `+SLACK_TOKEN=${SLACK_TOKEN}`,
+      ].join("\n");
+
+      expect(scanDiffForSecrets(diff)).toEqual([
+        {path: "src/config.ts", line: 5, rule: "AWS access key ID"},
+        {path: ".env.example", line: 1, rule: "Slack token"},
+      ]);
+    });
+
+    test("should skip the entropy check in lockfiles", () => {
+      const diff = [
+        "diff --git a/yarn.lock b/yarn.lock",
+        "--- a/yarn.lock",
+        "+++ b/yarn.lock",
+        "@@ -0,0 +1,2 @@",
+        `+  checksum ${RANDOM_KEY}`,
+        `+  token ${SLACK_TOKEN}`,
+      ].join("\n");
+
+      expect(scanDiffForSecrets(diff)).toEqual([{path: "yarn.lock", line: 2, rule: "Slack token"}]);
+    });
+
+    test("should never include the secret in the error", () => {
+      const error = createSecretsFoundError([{path: "src/config.ts", line: 5, rule: "AWS access key ID"}]);
+
+      expect(error.message).toContain("• src/config.ts:5 (AWS access key ID)");
+      expect(error.message).not.toContain(AWS_KEY_ID);
+    });
+  });
+
+  describe("scanStagedChangesForSecrets", () => {
+    let repoDir: string;
+    let originalCwd: string;
+
+    const git = (...args: string[]) => execFileSync("git", args, {cwd: repoDir, encoding: "utf-8"});
+
+    beforeEach(() => {
+      originalCwd = process.cwd();
+      repoDir = mkdtempSync(join(tmpdir(), "junie-secrets-"));
+      git("init", "-q");
+      git("config", "user.email", "test@example.com");
+      git("config", "user.name", "Test");
+      writeFileSync(join(repoDir, "README.md"), "readme\n");
+      git("add", "-A");
+      git("commit", "-q", "-m", "init");
+      process.chdir(repoDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      rmSync(repoDir, {recursive: true, force: true});
+    });
+
+    test("should scan committed and untracked changes since the base", () => {
+      const base = git("rev-parse", "HEAD").trim();
+      writeFileSync(join(repoDir, "committed.ts"), `export const key = "${STRIPE_KEY}";\n`);
+      git("add", "-A");
+      git("commit", "-q", "-m", "add key");
+      writeFileSync(join(repoDir, "untracked.ts"), `// clean\nconst junie = "junie-api-key-1234567890";\n`);
+
+      expect(scanStagedChangesForSecrets(base, ["junie-api-key-1234567890"])).toEqual([
+        {path: "committed.ts", line: 1, rule: "Stripe API key"},
+        {path: "untracked.ts", line: 2, rule: "Junie API key"},
+      ]);
+    });
+  });
+});
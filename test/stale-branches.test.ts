@@ -0,0 +1,152 @@
+import {describe, test, expect, mock} from "bun:test";
+import {
+  cleanupStaleJunieBranches,
+  formatStaleBranchCleanupReport,
+  StaleBranchCleanupOptions,
+} from "../src/github/operations/stale-branches";
+
+const REPO = "test-owner/test-repo";
+const TOKEN_OWNER_ID = 123;
+const OLD = "2024-01-01T00:00:00Z";
+const RECENT = "2024-03-25T00:00:00Z";
+
+const options: StaleBranchCleanupOptions = {
+  owner: "test-owner",
+  repo: "test-repo",
+  branchPrefix: "junie/",
+  branchTemplate: "{prefix}{type}-{number}-{runId}",
+  authorId: TOKEN_OWNER_ID,
+  staleDays: 14,
+  dryRun: false,
+  now: new Date("2024-04-01T00:00:00Z"),
+};
+
+function createMockOctokit(branches: any[], pullRequests: any[], commitDates: Record<string, string>) {
+  const listBranches = mock(() => {});
+  const listPullRequests = mock(() => {});
+  const calls = {
+    createComment: mock(async () => ({})),
+    updatePullRequest: mock(async () => ({})),
+    deleteRef: mock(async ({ref}: any) => {
+      if (ref === "heads/junie/issue-9-900") {
+        throw new Error("Reference cannot be deleted");
+      }
+      return {};
+    }),
+  };
+  const octokit = {
+    paginate: mock(async (method: any) => method === listBranches ? branches : pullRequests),
+    rest: {
+      repos: {
+        listBranches,
+        getCommit: mock(async ({ref}: any) => ({data: {commit: {committer: {date: commitDates[ref]}}}})),
+      },
+      pulls: {list: listPullRequests, update: calls.updatePullRequest},
+      issues: {createComment: calls.createComment},
+      git: {deleteRef: calls.deleteRef},
+    },
+  } as any;
+  return {octokit, calls};
+}
+
+const branch = (name: string, sha: string, isProtected = false) => ({name, commit: {sha}, protected: isProtected});
+
+const pullRequest = (number: number, ref: string, updatedAt: string, repo = REPO, authorId = TOKEN_OWNER_ID) => ({
+  number,
+  html_url: `https://github.com/${REPO}/pull/${number}`,
+  updated_at: updatedAt,
+  user: {id: authorId},
+  head: {ref, repo: {full_name: repo}},
+});
+
+describe("Stale branch cleanup", () => {
+  const branches = [
+    branch("main", "sha-main"),
+    branch("junie/issue-1-100", "sha-old"),
+    branch("junie/issue-2-200", "sha-recent"),
+    branch("junie/issue-3-300", "sha-old"),
+    branch("junie/protected", "sha-old", true),
+  ];
+  const pullRequests = [
+    pullRequest(10, "junie/issue-3-300", OLD),
+    pullRequest(11, "junie/issue-4-400", RECENT),
+    pullRequest(12, "junie/fork", OLD, "fork/test-repo"),
+  ];
+  const commitDates = {"sha-old": OLD, "sha-recent": RECENT, "sha-main": OLD};
+
+  test("should close stale PRs and delete stale branches without PR", async () => {
+    const {octokit, calls} = createMockOctokit(branches, pullRequests, commitDates);
+
+    const report = await cleanupStaleJunieBranches(octokit, options);
+
+    expect(report.entries.map(entry => [entry.branch, entry.action])).toEqual([
+      ["junie/issue-3-300", "close-pr"],
+      ["junie/issue-1-100", "delete-branch"],
+    ]);
+    expect(calls.createComment).toHaveBeenCalledTimes(1);
+    expect(calls.updatePullRequest).toHaveBeenCalledWith({owner: "test-owner", repo: "test-repo", pull_number: 10, state: "closed"});
+    expect(calls.deleteRef.mock.calls.map(([params]: any) => params.ref)).toEqual(["heads/junie/issue-3-300", "heads/junie/issue-1-100"]);
+  });
+
+  test("should not change anything in dry run", async () => {
+    const {octokit, calls} = createMockOctokit(branches, pullRequests, commitDates);
+
+    const report = await cleanupStaleJunieBranches(octokit, {...options, dryRun: true});
+
+    expect(report.entries).toHaveLength(2);
+    expect(calls.createComment).not.toHaveBeenCalled();
+    expect(calls.updatePullRequest).not.toHaveBeenCalled();
+    expect(calls.deleteRef).not.toHaveBeenCalled();
+    expect(formatStaleBranchCleanupReport(report)).toContain("| `junie/issue-3-300` | 2024-01-01 | [#10](https://github.com/test-owner/test-repo/pull/10) | Would close PR and delete branch |");
+  });
+
+  test("should report failures and continue", async () => {
+    const {octokit} = createMockOctokit([branch("junie/issue-9-900", "sha-old"), branch("junie/issue-1-100", "sha-old")], [], commitDates);
+
+    const report = await cleanupStaleJunieBranches(octokit, options);
+    const summary = formatStaleBranchCleanupReport(report);
+
+    expect(summary).toContain("| `junie/issue-9-900` | 2024-01-01 | - | ❌ Failed: Reference cannot be deleted |");
+    expect(summary).toContain("| `junie/issue-1-100` | 2024-01-01 | - | Branch deleted |");
+  });
+
+  test("should keep PRs someone else opened from Junie's branches", async () => {
+    const {octokit, calls} = createMockOctokit(
+      [branch("junie/issue-3-300", "sha-old")],
+      [pullRequest(10, "junie/issue-3-300", OLD, REPO, 999)],
+      commitDates,
+    );
+
+    const report = await cleanupStaleJunieBranches(octokit, options);
+
+    expect(report.entries).toEqual([]);
+    expect(calls.updatePullRequest).not.toHaveBeenCalled();
+    expect(calls.deleteRef).not.toHaveBeenCalled();
+  });
+
+  test("should only clean up branches matching the branch name template", async () => {
+    const {octokit} = createMockOctokit([
+      branch("feature/PROJ-12-fix-login", "sha-old"),
+      branch("feature/PROJ-12-fix-login-2", "sha-old"),
+      branch("feature/Login_Page", "sha-old"),
+      branch("junie/issue-1-100", "sha-old"),
+    ], [], commitDates);
+
+    const report = await cleanupStaleJunieBranches(octokit, {...options, branchTemplate: "feature/{jiraKey}-{slug}"});
+
+    expect(report.entries.map(entry => entry.branch)).toEqual(["feature/PROJ-12-fix-login", "feature/PROJ-12-fix-login-2"]);
+  });
+
+  test("should not clean up human branches sharing the prefix", async () => {
+    const {octokit} = createMockOctokit([
+      branch("feature/issue-1-100", "sha-old"),
+      branch("feature/run-100", "sha-old"),
+      branch("feature/new-ui", "sha-old"),
+      branch("feature/issue-login", "sha-old"),
+    ], [], commitDates);
+
+    const report = await cleanupStaleJunieBranches(octokit, {...options, branchPrefix: "feature/"});
+
+    expect(report.entries.map(entry => entry.branch)).toEqual(["feature/issue-1-100", "feature/run-100"]);
+  });
+});
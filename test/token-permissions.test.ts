@@ -0,0 +1,160 @@
+import {describe, test, expect, beforeEach, afterEach, mock} from "bun:test";
+import {mkdtempSync, readFileSync, rmSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  checkPermissions,
+  formatPermissionsTable,
+  getRequiredPermissions,
+  mapOAuthScopesToPermissions,
+  verifyTokenPermissions,
+} from "../src/github/validation/token-permissions";
+import {parseJunieCommand} from "../src/github/validation/trigger";
+import {
+  mockDiscussionCommentContext,
+  mockIssueCommentContext,
+  mockPullRequestCommentContext,
+} from "./mockContext";
+import type {JunieExecutionContext} from "../src/github/context";
+import type {GitHubTokenConfig} from "../src/github/token";
+
+function createTokenConfig(overrides: Partial<GitHubTokenConfig> = {}): GitHubTokenConfig {
+  return {
+    workingToken: "custom-token",
+    defaultToken: "default-token",
+    isDefaultToken: () => false,
+    ...overrides,
+  };
+}
+
+describe("Token permissions preflight", () => {
+  describe("getRequiredPermissions", () => {
+    test("should require write access for tasks changing the code", () => {
+      expect(getRequiredPermissions(mockIssueCommentContext)).toEqual({
+        contents: "write",
+        issues: "write",
+        pull_requests: "write",
+      });
+    });
+
+    test("should only require comments for read-only commands on issues", () => {
+      const context = {
+        ...mockIssueCommentContext,
+        command: parseJunieCommand("@junie-agent /explain", "@junie-agent"),
+      } as JunieExecutionContext;
+
+      expect(getRequiredPermissions(context)).toEqual({contents: "read", issues: "write"});
+    });
+
+    test("should require pull requests write for reviews", () => {
+      const context = {
+        ...mockPullRequestCommentContext,
+        command: parseJunieCommand("@junie-agent /review", "@junie-agent"),
+      } as JunieExecutionContext;
+
+      expect(getRequiredPermissions(context)).toEqual({contents: "read", issues: "write", pull_requests: "write"});
+    });
+
+    test("should require discussions write for discussions", () => {
+      expect(getRequiredPermissions(mockDiscussionCommentContext)).toEqual({contents: "read", discussions: "write"});
+    });
+
+    test("should require only read access in silent mode", () => {
+      const context = {
+        ...mockIssueCommentContext,
+        inputs: {...mockIssueCommentContext.inputs, silentMode: true},
+      } as JunieExecutionContext;
+
+      expect(getRequiredPermissions(context)).toEqual({contents: "read"});
+    });
+
+    test("should not require contents write in patch mode", () => {
+      const context = {
+        ...mockIssueCommentContext,
+        inputs: {...mockIssueCommentContext.inputs, patchMode: true},
+      } as JunieExecutionContext;
+
+      expect(getRequiredPermissions(context)).toEqual({contents: "read", issues: "write"});
+    });
+  });
+
+  describe("mapOAuthScopesToPermissions", () => {
+    test("should grant write access with repo scope", () => {
+      expect(mapOAuthScopesToPermissions(["repo", "workflow"], true).pull_requests).toBe("write");
+    });
+
+    test("should grant only read access to public repositories without repo scope", () => {
+      expect(mapOAuthScopesToPermissions(["read:user"], false).contents).toBe("read");
+      expect(mapOAuthScopesToPermissions(["read:user"], true).contents).toBeUndefined();
+    });
+  });
+
+  describe("formatPermissionsTable", () => {
+    test("should list required and granted permissions", () => {
+      const table = formatPermissionsTable(checkPermissions(
+        {contents: "write", issues: "write"},
+        {contents: "read", issues: "write"},
+      ));
+
+      expect(table).toContain("| `contents` | write | read | ❌ |");
+      expect(table).toContain("| `issues` | write | write | ✅ |");
+    });
+  });
+
+  describe("verifyTokenPermissions", () => {
+    let summaryDir: string;
+    let originalSummary: string | undefined;
+    let mockOctokit: any;
+    let scopes: string | undefined;
+
+    beforeEach(() => {
+      summaryDir = mkdtempSync(join(tmpdir(), "junie-summary-"));
+      originalSummary = process.env.GITHUB_STEP_SUMMARY;
+      process.env.GITHUB_STEP_SUMMARY = join(summaryDir, "summary.md");
+      scopes = "repo";
+      mockOctokit = {
+        rest: {
+          request: mock(async () => ({headers: scopes === undefined ? {} : {"x-oauth-scopes": scopes}})),
+        },
+      };
+    });
+
+    afterEach(() => {
+      if (originalSummary === undefined) {
+        delete process.env.GITHUB_STEP_SUMMARY;
+      } else {
+        process.env.GITHUB_STEP_SUMMARY = originalSummary;
+      }
+      rmSync(summaryDir, {recursive: true, force: true});
+    });
+
+    test("should pass with classic token having repo scope", async () => {
+      await verifyTokenPermissions(mockOctokit, createTokenConfig(), mockIssueCommentContext);
+    });
+
+    test("should fail and write the report for missing App permissions", async () => {
+      const tokenConfig = createTokenConfig({permissions: {contents: "read", issues: "write"}});
+
+      await expect(verifyTokenPermissions(mockOctokit, tokenConfig, mockIssueCommentContext))
+        .rejects.toThrow("contents: write (granted: read)");
+      const summary = readFileSync(process.env.GITHUB_STEP_SUMMARY!, "utf-8");
+      expect(summary).toContain("| `pull_requests` | write | none | ❌ |");
+      expect(mockOctokit.rest.request).not.toHaveBeenCalled();
+    });
+
+    test("should skip check when permissions can't be determined", async () => {
+      scopes = undefined;
+
+      await verifyTokenPermissions(mockOctokit, createTokenConfig(), mockIssueCommentContext);
+      await verifyTokenPermissions(mockOctokit, createTokenConfig({isDefaultToken: () => true}), mockIssueCommentContext);
+      expect(mockOctokit.rest.request).toHaveBeenCalledTimes(1);
+    });
+
+    test("should skip check for fine-grained tokens with an empty scopes header", async () => {
+      scopes = "";
+
+      await verifyTokenPermissions(mockOctokit, createTokenConfig(), mockIssueCommentContext);
+      expect(mockOctokit.rest.request).toHaveBeenCalledTimes(1);
+    });
+  });
+});
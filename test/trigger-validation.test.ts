@@ -1,7 +1,13 @@
 import {describe, expect, test} from "bun:test";
-import {detectJunieTriggerPhrase, escapeRegExp} from "../src/github/validation/trigger";
+import {
+  detectJunieTriggerPhrase,
+  escapeRegExp,
+  extractJunieCommand,
+  parseJunieCommand,
+} from "../src/github/validation/trigger";
 import {
     createMockContext,
+    mockDiscussionCommentContext,
     mockIssueAssignedContext,
     mockIssueCommentContext,
     mockIssueLabeledContext,
@@ -434,5 +440,154 @@ describe("Trigger Validation", () => {
         expect(detectJunieTriggerPhrase(context)).toBe(true);
       });
     });
+
+    describe("discussions", () => {
+      test("should trigger on discussion comment with trigger phrase", () => {
+        expect(detectJunieTriggerPhrase(mockDiscussionCommentContext)).toBe(true);
+      });
+
+      test("should not trigger on discussion comment without trigger phrase", () => {
+        const context = createMockContext({
+          eventName: "discussion_comment",
+          eventAction: "created",
+          payload: {
+            ...mockDiscussionCommentContext.payload,
+            comment: {
+              ...(mockDiscussionCommentContext.payload as any).comment,
+              body: "Just a regular reply",
+            },
+          },
+        });
+
+        expect(detectJunieTriggerPhrase(context)).toBe(false);
+      });
+
+      test("should trigger on created discussion with trigger phrase in title", () => {
+        const context = createMockContext({
+          eventName: "discussion",
+          eventAction: "created",
+          payload: {
+            action: "created",
+            discussion: {
+              ...(mockDiscussionCommentContext.payload as any).discussion,
+              title: "@junie-agent how do we cache builds?",
+            },
+          },
+        });
+
+        expect(detectJunieTriggerPhrase(context)).toBe(true);
+      });
+
+      test("should trigger on discussion labeled with trigger label", () => {
+        const context = createMockContext({
+          eventName: "discussion",
+          eventAction: "labeled",
+          inputs: { labelTrigger: "junie" },
+          payload: {
+            action: "labeled",
+            discussion: (mockDiscussionCommentContext.payload as any).discussion,
+            label: { name: "junie" },
+          },
+        });
+
+        expect(detectJunieTriggerPhrase(context)).toBe(true);
+      });
+    });
+  });
+
+  describe("parseJunieCommand", () => {
+    test("should parse slash command after trigger phrase", () => {
+      expect(parseJunieCommand("@junie-agent /review", "@junie-agent")).toEqual({
+        name: "review",
+        rawName: "review",
+        args: {},
+      });
+    });
+
+    test("should parse key=value arguments including quoted values", () => {
+      const command = parseJunieCommand(
+        `@junie-agent /test framework=jest scope="src/utils only" mode='fast' please cover edge cases`,
+        "@junie-agent",
+      );
+
+      expect(command?.name).toBe("test");
+      expect(command?.args).toEqual({framework: "jest", scope: "src/utils only", mode: "fast"});
+    });
+
+    test("should only read arguments from the command line", () => {
+      const command = parseJunieCommand("@junie-agent /fix\nnote=this is free text", "@junie-agent");
+
+      expect(command?.name).toBe("fix");
+      expect(command?.args).toEqual({});
+    });
+
+    test("should be case-insensitive for trigger phrase and command name", () => {
+      expect(parseJunieCommand("@Junie-Agent /EXPLAIN", "@junie-agent")?.name).toBe("explain");
+    });
+
+    test("should map legacy phrases to commands", () => {
+      expect(parseJunieCommand("@junie-agent code-review", "@junie-agent")?.name).toBe("review");
+      expect(parseJunieCommand("@junie-agent resolve conflicts", "@junie-agent")?.name).toBe("resolve-conflicts");
+      expect(parseJunieCommand("@junie-agent address reviews", "@junie-agent")?.name).toBe("address-reviews");
+    });
+
+    test("should not treat phrases elsewhere in the text as commands", () => {
+      expect(parseJunieCommand("@junie-agent please fix it, no code-review needed", "@junie-agent")).toBeUndefined();
+      expect(parseJunieCommand("please resolve conflicts @junie-agent", "@junie-agent")).toBeUndefined();
+    });
+
+    test("should return unknown command for unrecognized slash commands", () => {
+      expect(parseJunieCommand("@junie-agent /deploy env=prod", "@junie-agent")).toEqual({
+        name: "unknown",
+        rawName: "deploy",
+        args: {env: "prod"},
+      });
+      expect(parseJunieCommand("@junie-agent /constructor", "@junie-agent")?.name).toBe("unknown");
+    });
+
+    test("should not treat paths as commands", () => {
+      expect(parseJunieCommand("@junie-agent /src/foo.ts is broken", "@junie-agent")).toBeUndefined();
+      expect(parseJunieCommand("@junie-agent /README.md has a typo", "@junie-agent")).toBeUndefined();
+      expect(parseJunieCommand("@junie-agent /review, please", "@junie-agent")?.name).toBe("review");
+    });
+
+    test("should return undefined without trigger phrase or command", () => {
+      expect(parseJunieCommand("/review", "@junie-agent")).toBeUndefined();
+      expect(parseJunieCommand("@junie-agent help me", "@junie-agent")).toBeUndefined();
+    });
+  });
+
+  describe("extractJunieCommand", () => {
+    test("should extract command from issue comment", () => {
+      const context = createMockContext({
+        eventName: "issue_comment",
+        payload: {
+          ...mockIssueCommentContext.payload,
+          comment: {
+            ...(mockIssueCommentContext.payload as IssueCommentEvent).comment,
+            body: "@junie-agent /fix target=main",
+          },
+        },
+      });
+
+      expect(extractJunieCommand(context)).toEqual({name: "fix", rawName: "fix", args: {target: "main"}});
+    });
+
+    test("should fall back to issue title when body has no command", () => {
+      const context = createMockContext({
+        eventName: "issues",
+        eventAction: "opened",
+        payload: {
+          ...mockIssueOpenedContext.payload,
+          issue: {
+            ...(mockIssueOpenedContext.payload as IssuesEvent).issue,
+            body: "@junie-agent look at this",
+            title: "@junie-agent /explain",
+          },
+        },
+      });
+
+      expect(extractJunieCommand(context)?.name).toBe("explain");
+    });
   });
 });
@@ -0,0 +1,138 @@
+import {describe, test, expect, beforeEach, afterEach} from "bun:test";
+import {execFileSync} from "child_process";
+import {chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  formatVerificationReport,
+  runVerificationCommand,
+  trimCommandOutput,
+  verifyJunieChanges,
+} from "../src/github/operations/verification";
+
+describe("Verification", () => {
+  let workDir: string;
+  let originalCwd: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  const git = (...args: string[]) => execFileSync("git", args, {cwd: workDir, encoding: "utf-8", stdio: "pipe"}).trim();
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    originalEnv = {...process.env};
+    workDir = mkdtempSync(join(tmpdir(), "junie-verification-"));
+    git("init", "-q");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    writeFileSync(join(workDir, "package-lock.json"), "{}\n");
+    writeFileSync(join(workDir, "README.md"), "readme\n");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Initial commit");
+    process.chdir(workDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    process.env = originalEnv;
+    rmSync(workDir, {recursive: true, force: true});
+  });
+
+  test("should capture exit code and combined output", () => {
+    const result = runVerificationCommand("echo building; echo 'error: missing ;' >&2; exit 2");
+
+    expect(result).toEqual({
+      command: "echo building; echo 'error: missing ;' >&2; exit 2",
+      passed: false,
+      exitCode: 2,
+      timedOut: false,
+      output: "building\nerror: missing ;",
+    });
+  });
+
+  test("should hide action tokens from the commands", () => {
+    process.env.GITHUB_TOKEN = "ghs_secret";
+    process.env.CLI_TOKEN = "junie_secret";
+
+    const result = runVerificationCommand("echo \"token:$GITHUB_TOKEN$CLI_TOKEN\"");
+
+    expect(result.output).toBe("token:");
+  });
+
+  test("should keep the end of long output", () => {
+    expect(trimCommandOutput("a".repeat(10) + "END", 5)).toBe("...(truncated)\naaEND");
+  });
+
+  test("should ask Junie to repair failed commands", async () => {
+    const binDir = join(workDir, "bin");
+    mkdirSync(binDir);
+    // Fake Junie CLI "fixing" the failure
+    writeFileSync(join(binDir, "junie"), "#!/bin/sh\ncat > /dev/null\ntouch fixed.txt\necho '{\"result\":\"Fixed\"}'\n");
+    chmodSync(join(binDir, "junie"), 0o755);
+    process.env.PATH = `${binDir}:${process.env.PATH}`;
+    process.env.CLI_TOKEN = "junie_secret";
+    let repaired = 0;
+
+    const result = await verifyJunieChanges(
+      {commands: ["echo ok", "test -f fixed.txt"], onFailure: "retry", maxRepairAttempts: 2},
+      async () => { repaired++; },
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.repairAttempts).toBe(1);
+    expect(repaired).toBe(1);
+  });
+
+  test("should not retry with the draft action", async () => {
+    const result = await verifyJunieChanges({commands: ["exit 1"], onFailure: "draft", maxRepairAttempts: 2});
+
+    expect(result.passed).toBe(false);
+    expect(result.repairAttempts).toBe(0);
+  });
+
+  test("should discard changes of the commands and keep Junie's changes", async () => {
+    // Junie's changes
+    writeFileSync(join(workDir, "README.md"), "updated readme\n");
+    writeFileSync(join(workDir, "guide.md"), "guide\n");
+    git("add", "guide.md");
+    writeFileSync(join(workDir, "notes.md"), "notes\n");
+    writeFileSync(join(workDir, "todo.md"), "todo\n");
+
+    const result = await verifyJunieChanges({
+      commands: [
+        "mkdir -p .github/workflows && echo 'on: push' > .github/workflows/ci.yml",
+        "echo '{\"lockfileVersion\": 3}' > package-lock.json",
+        "echo changed > guide.md && rm notes.md && echo changed > todo.md",
+      ],
+      onFailure: "draft",
+      maxRepairAttempts: 0,
+    });
+
+    expect(result.passed).toBe(true);
+    expect(existsSync(join(workDir, ".github/workflows/ci.yml"))).toBe(false);
+    expect(readFileSync(join(workDir, "package-lock.json"), "utf-8")).toBe("{}\n");
+    expect(readFileSync(join(workDir, "README.md"), "utf-8")).toBe("updated readme\n");
+    expect(readFileSync(join(workDir, "guide.md"), "utf-8")).toBe("guide\n");
+    expect(readFileSync(join(workDir, "todo.md"), "utf-8")).toBe("todo\n");
+    expect(git("status", "--porcelain", "--untracked-files=all")).toBe("M README.md\nA  guide.md\n?? notes.md\n?? todo.md");
+  });
+
+  test("should format the report with output of failed commands", () => {
+    const report = formatVerificationReport({
+      passed: false,
+      repairAttempts: 1,
+      commands: [
+        {command: "npm run lint", passed: true, exitCode: 0, timedOut: false, output: ""},
+        {command: "npm test | tee log", passed: false, exitCode: 1, timedOut: false, output: "1 test failed"},
+      ],
+    }, "The PR was opened as a draft.");
+
+    expect(report).toBe(
+      "### 🧪 Verification\n\n" +
+      "⚠️ Verification failed. Junie made 1 repair attempt(s). The PR was opened as a draft.\n\n" +
+      "| Command | Result |\n|---------|--------|\n" +
+      "| `npm run lint` | ✅ Passed |\n" +
+      "| `npm test \\| tee log` | ❌ Failed (exit code 1) |\n\n" +
+      "<details>\n<summary>Output of <code>npm test | tee log</code></summary>\n\n```\n1 test failed\n```\n</details>"
+    );
+  });
+});
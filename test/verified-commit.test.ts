@@ -0,0 +1,149 @@
+import {describe, test, expect, beforeEach, afterEach} from "bun:test";
+import {execFileSync} from "child_process";
+import {mkdtempSync, rmSync, symlinkSync, unlinkSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  collectFileChanges,
+  createVerifiedCommit,
+  parseRawDiff,
+  splitCommitMessage,
+} from "../src/github/operations/verified-commit";
+
+const base64 = (text: string) => Buffer.from(text).toString("base64");
+
+describe("Verified commits", () => {
+  describe("parseRawDiff", () => {
+    test("should parse status, mode and path", () => {
+      const output =
+        ":100644 100644 aaaaaaa bbbbbbb M\0src/index.ts\0" +
+        ":000000 100755 0000000 ccccccc A\0bin/run.sh\0" +
+        ":100644 000000 ddddddd 0000000 D\0old file.txt\0";
+
+      expect(parseRawDiff(output)).toEqual([
+        {status: "M", newMode: "100644", path: "src/index.ts"},
+        {status: "A", newMode: "100755", path: "bin/run.sh"},
+        {status: "D", newMode: "000000", path: "old file.txt"},
+      ]);
+    });
+  });
+
+  describe("splitCommitMessage", () => {
+    test("should split the headline from the body", () => {
+      expect(splitCommitMessage("Fix login\n\nDetails\nMore")).toEqual({headline: "Fix login", body: "Details\nMore"});
+      expect(splitCommitMessage("Fix login\n")).toEqual({headline: "Fix login"});
+    });
+  });
+
+  describe("with a local repository", () => {
+    let workDir: string;
+    let repoDir: string;
+    let originalCwd: string;
+
+    const git = (...args: string[]) => execFileSync("git", args, {cwd: repoDir, encoding: "utf-8"});
+
+    beforeEach(() => {
+      originalCwd = process.cwd();
+      workDir = mkdtempSync(join(tmpdir(), "junie-verified-"));
+      repoDir = join(workDir, "repo");
+      execFileSync("git", ["init", "-q", "--bare", join(workDir, "origin.git")]);
+      execFileSync("git", ["init", "-q", repoDir]);
+      git("remote", "add", "origin", join(workDir, "origin.git"));
+      git("config", "user.email", "test@example.com");
+      git("config", "user.name", "Test");
+      git("checkout", "-q", "-b", "main");
+      writeFileSync(join(repoDir, "README.md"), "readme\n");
+      writeFileSync(join(repoDir, "old.txt"), "old\n");
+      git("add", "-A");
+      git("commit", "-q", "-m", "init");
+      git("push", "-q", "origin", "main");
+      git("checkout", "-q", "-b", "junie/issue-1");
+      process.chdir(repoDir);
+    });
+
+    afterEach(() => {
+      process.chdir(originalCwd);
+      rmSync(workDir, {recursive: true, force: true});
+    });
+
+    test("should collect committed, modified, untracked and deleted files", async () => {
+      writeFileSync(join(repoDir, "committed.txt"), "committed\n");
+      git("add", "committed.txt");
+      git("commit", "-q", "-m", "local commit");
+      writeFileSync(join(repoDir, "README.md"), "updated\n");
+      writeFileSync(join(repoDir, "new.txt"), "new\n");
+      unlinkSync(join(repoDir, "old.txt"));
+
+      const changes = await collectFileChanges(git("rev-parse", "origin/main").trim());
+
+      expect(changes.additions).toEqual([
+        {path: "README.md", contents: base64("updated\n")},
+        {path: "committed.txt", contents: base64("committed\n")},
+        {path: "new.txt", contents: base64("new\n")},
+      ]);
+      expect(changes.deletions).toEqual([{path: "old.txt"}]);
+    });
+
+    test("should reject symlinks", async () => {
+      symlinkSync("README.md", join(repoDir, "link.md"));
+
+      await expect(collectFileChanges(git("rev-parse", "origin/main").trim())).rejects.toThrow("link.md is a symlink");
+    });
+
+    test("should skip the API when there are no changes", async () => {
+      const octokits = {
+        graphql: () => {
+          throw new Error("should not be called");
+        },
+      } as any;
+
+      const result = await createVerifiedCommit(octokits, {
+        owner: "owner",
+        repo: "repo",
+        workingBranch: "junie/issue-1",
+        baseBranch: "main",
+        isNewBranch: true,
+        message: "Fix",
+      });
+
+      expect(result).toBeUndefined();
+    });
+
+    test("should create the branch and commit on top of the base branch", async () => {
+      const parentSha = git("rev-parse", "origin/main").trim();
+      writeFileSync(join(repoDir, "README.md"), "updated\n");
+
+      const createdRefs: any[] = [];
+      let mutationInput: any;
+      const octokits = {
+        rest: {
+          git: {
+            createRef: async (params: any) => createdRefs.push(params),
+          },
+        },
+        graphql: async (_query: string, variables: any) => {
+          mutationInput = variables.input;
+          throw new Error("Expected branch to point to another commit");
+        },
+      } as any;
+
+      const promise = createVerifiedCommit(octokits, {
+        owner: "owner",
+        repo: "repo",
+        workingBranch: "junie/issue-1",
+        baseBranch: "main",
+        isNewBranch: true,
+        message: "Fix readme\n\nDetails",
+      });
+
+      await expect(promise).rejects.toThrow("Failed to create verified commit on branch \"junie/issue-1\"");
+      expect(createdRefs).toEqual([{owner: "owner", repo: "repo", ref: "refs/heads/junie/issue-1", sha: parentSha}]);
+      expect(mutationInput).toEqual({
+        branch: {repositoryNameWithOwner: "owner/repo", branchName: "junie/issue-1"},
+        message: {headline: "Fix readme", body: "Details"},
+        expectedHeadOid: parentSha,
+        fileChanges: {additions: [{path: "README.md", contents: base64("updated\n")}], deletions: []},
+      });
+    });
+  });
+});